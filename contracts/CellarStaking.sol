@@ -3,8 +3,10 @@ pragma solidity 0.8.15;
 
 import { ERC20 } from "solmate/src/tokens/ERC20.sol";
 import { SafeTransferLib } from "solmate/src/utils/SafeTransferLib.sol";
-import { Ownable } from "@openzeppelin/contracts/access/Ownable.sol";
+import { Ownable2Step } from "@openzeppelin/contracts/access/Ownable2Step.sol";
 import { ICellarStaking } from "./interfaces/ICellarStaking.sol";
+import { IEmissionCurve } from "./interfaces/IEmissionCurve.sol";
+import { RewardTokens } from "./libraries/RewardTokens.sol";
 
 import "./Errors.sol";
 
@@ -22,24 +24,26 @@ import "./Errors.sol";
  *
  * *********************************** Funding Flow ***********************************
  *
- * 1) The contract owner calls 'notifyRewardAmount' to specify an initial schedule of rewards
+ * 1) The funder calls 'notifyRewardAmount' to specify an initial schedule of rewards
  *    The contract should hold enough the distribution token to fund the
  *    specified reward schedule, where the length of the reward schedule is defined by
  *    epochDuration. This duration can also be changed by the owner, and any change will apply
  *    to future calls to 'notifyRewardAmount' (but will not affect active schedules).
- * 2) At a future time, the contract owner may call 'notifyRewardAmount' again to extend the
+ * 2) At a future time, the funder may call 'notifyRewardAmount' again to extend the
  *    staking program with new rewards. These new schedules may distribute more or less
  *    rewards than previous epochs. If a previous epoch is not finished, any leftover rewards
  *    get rolled into the new schedule, increasing the reward rate. Reward schedules always
  *    end exactly 'epochDuration' seconds from the most recent time 'notifyRewardAmount' has been
  *    called.
+ * 3) By default rewards are emitted at a flat rate. The owner may instead set an emission curve
+ *    with 'setEmissionCurve', e.g. to front-load rewards, for future calls to 'notifyRewardAmount'.
  *
  * ********************************* Staking Lifecycle ********************************
  *
  * 1) A user may deposit a certain amount of tokens to stake, and is required to lock
- *    those tokens for a specified amount of time. There are three locking options:
- *    one day, one week, or one month. Longer locking times receive larger 'boosts',
- *    that the deposit will receive a larger proportional amount of shares. A user
+ *    those tokens for a specified amount of time. Locking options are defined by
+ *    lock tiers, which the owner may add or retire. Longer locking times receive larger
+ *    'boosts', that the deposit will receive a larger proportional amount of shares. A user
  *    may not unstake until they choose to unbond, and time defined by the lock has
  *    elapsed during unbonding.
  * 2) When a user wishes to withdraw, they must first "unbond" their stake, which starts
@@ -113,8 +117,33 @@ import "./Errors.sol";
  * accounted for and that no accounting time periods have been missed.
  *
  */
-contract CellarStaking is ICellarStaking, Ownable {
+contract CellarStaking is ICellarStaking, Ownable2Step {
     using SafeTransferLib for ERC20;
+    using RewardTokens for RewardTokens.State;
+
+    // ============================================= TYPES =============================================
+
+    struct EpochSchedule {
+        uint256 currentEpochDuration;
+        uint256 nextEpochDuration;
+        uint256 rewardsReady;
+        // Future reward epochs queued by the funder, in activation order.
+        // Epochs before nextScheduledEpoch have already been activated.
+        ScheduledEpoch[] scheduledEpochs;
+        uint256 nextScheduledEpoch;
+        uint256 scheduledRewards;
+        IEmissionCurve currentEmissionCurve;
+        IEmissionCurve nextEmissionCurve;
+        uint256 epochRewards;
+        uint256 unpaidRewards;
+    }
+
+    struct Roles {
+        address funder;
+        address guardian;
+        // user => operator => whether the operator may claim and unbond for the user
+        mapping(address => mapping(address => bool)) operators;
+    }
 
     // ============================================ STATE ==============================================
 
@@ -124,22 +153,12 @@ contract CellarStaking is ICellarStaking, Ownable {
     uint256 public constant ONE_DAY = 60 * 60 * 24;
     uint256 public constant ONE_WEEK = ONE_DAY * 7;
     uint256 public constant TWO_WEEKS = ONE_WEEK * 2;
-
-    uint256 public immutable SHORT_BOOST;
-    uint256 public immutable MEDIUM_BOOST;
-    uint256 public immutable LONG_BOOST;
-
-    uint256 public immutable SHORT_BOOST_TIME;
-    uint256 public immutable MEDIUM_BOOST_TIME;
-    uint256 public immutable LONG_BOOST_TIME;
+    uint256 public constant MAX_REWARD_TOKENS = 4;
 
     // ============ Global State =============
 
     ERC20 public immutable override stakingToken;
     ERC20 public immutable override distributionToken;
-    uint256 public override currentEpochDuration;
-    uint256 public override nextEpochDuration;
-    uint256 public override rewardsReady;
 
     uint256 public override minimumDeposit;
     uint256 public override endTimestamp;
@@ -148,7 +167,7 @@ contract CellarStaking is ICellarStaking, Ownable {
     uint256 public override rewardRate;
     uint256 public override rewardPerTokenStored;
 
-    uint256 private lastAccountingTimestamp = block.timestamp;
+    uint256 public override lastAccountingTimestamp = block.timestamp;
 
     /// @notice Emergency states in case of contract malfunction.
     bool public override paused;
@@ -160,45 +179,61 @@ contract CellarStaking is ICellarStaking, Ownable {
     /// @notice user => all user's staking positions
     mapping(address => UserStake[]) public stakes;
 
+    // ============== Lock Tiers =============
+
+    /// @notice Boost and unbonding time for each lock value. Tiers are never modified
+    ///         once added, so deposits keep the terms they were opened with.
+    LockTier[] public lockTiers;
+
+    // =============== Schedule ==============
+
+    /// @notice The distribution token's epochs: the current one, the next one started by
+    ///         'notifyRewardAmount', and those queued with 'scheduleEpoch'. See the getters
+    ///         of the same names under STATE INFORMATION.
+    EpochSchedule internal schedule;
+
+    // ================ Roles ================
+
+    /// @notice The funder and guardian set by the owner, and the operators set by each user.
+    Roles internal roles;
+
+    // ============ Reward Tokens ============
+
+    /// @notice Additional reward tokens, distributed alongside distributionToken.
+    RewardTokens.State internal rewardTokens;
+
     // ========================================== CONSTRUCTOR ===========================================
 
     /**
-     * @param _owner                The owner of the staking contract - will immediately receive ownership.
+     * @param _owner                The owner of the staking contract - will immediately receive ownership,
+     *                              and starts out as the funder and guardian.
      * @param _stakingToken         The token users will deposit in order to stake.
      * @param _distributionToken    The token the staking contract will distribute as rewards.
      * @param _epochDuration        The length of a reward schedule.
-     * @param shortBoost            The boost multiplier for the short unbonding time.
-     * @param mediumBoost           The boost multiplier for the medium unbonding time.
-     * @param longBoost             The boost multiplier for the long unbonding time.
-     * @param shortBoostTime        The short unbonding time.
-     * @param mediumBoostTime       The medium unbonding time.
-     * @param longBoostTime         The long unbonding time.
+     * @param boosts                The boost multiplier of each initial lock tier.
+     * @param lockTimes             The unbonding time of each initial lock tier.
      */
     constructor(
         address _owner,
         ERC20 _stakingToken,
         ERC20 _distributionToken,
         uint256 _epochDuration,
-        uint256 shortBoost,
-        uint256 mediumBoost,
-        uint256 longBoost,
-        uint256 shortBoostTime,
-        uint256 mediumBoostTime,
-        uint256 longBoostTime
+        uint256[] memory boosts,
+        uint256[] memory lockTimes
     ) {
+        if (boosts.length != lockTimes.length) revert USR_LockTierMismatch(boosts.length, lockTimes.length);
+
         stakingToken = _stakingToken;
         distributionToken = _distributionToken;
-        nextEpochDuration = _epochDuration;
+        schedule.nextEpochDuration = _epochDuration;
 
-        SHORT_BOOST = shortBoost;
-        MEDIUM_BOOST = mediumBoost;
-        LONG_BOOST = longBoost;
-
-        SHORT_BOOST_TIME = shortBoostTime;
-        MEDIUM_BOOST_TIME = mediumBoostTime;
-        LONG_BOOST_TIME = longBoostTime;
+        for (uint256 i = 0; i < boosts.length; i++) {
+            _addLockTier(boosts[i], lockTimes[i]);
+        }
 
-        transferOwnership(_owner);
+        _transferOwnership(_owner);
+        roles.funder = _owner;
+        roles.guardian = _owner;
     }
 
     // ======================================= STAKING OPERATIONS =======================================
@@ -206,47 +241,136 @@ contract CellarStaking is ICellarStaking, Ownable {
     /**
      * @notice  Make a new deposit into the staking contract. Longer locks receive reward boosts.
      * @dev     Specified amount of stakingToken must be approved for withdrawal by the caller.
-     * @dev     Valid lock values are 0 (one day), 1 (one week), and 2 (two weeks).
+     * @dev     Valid lock values are the IDs of lock tiers that have not been retired.
+     *
+     * @param amount                The amount of the stakingToken to stake.
+     * @param lock                  The lock tier to stake with.
+     */
+    function stake(uint256 amount, uint256 lock) external override whenNotPaused updateRewards {
+        _stake(msg.sender, amount, lock);
+    }
+
+    /**
+     * @notice  Make a new deposit, approving the transfer with an EIP-2612 permit
+     *          signature instead of a separate approve transaction.
+     * @dev     The permit is skipped if the allowance is already sufficient, so a
+     *          front-run permit cannot make the stake revert.
+     *
+     * @param amount                The amount of the stakingToken to stake.
+     * @param lock                  The lock tier to stake with.
+     * @param deadline              The timestamp after which the permit signature expires.
+     * @param v                     The recovery byte of the permit signature.
+     * @param r                     Half of the ECDSA permit signature pair.
+     * @param s                     Half of the ECDSA permit signature pair.
+     */
+    function stakeWithPermit(
+        uint256 amount,
+        uint256 lock,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external override whenNotPaused updateRewards {
+        if (stakingToken.allowance(msg.sender, address(this)) < amount) {
+            stakingToken.permit(msg.sender, address(this), amount, deadline, v, r, s);
+        }
+
+        _stake(msg.sender, amount, lock);
+    }
+
+    /**
+     * @notice  Make a new deposit on behalf of another address, e.g. from a zap or vault.
+     *          The beneficiary owns the deposit: only they can unbond, unstake or claim it.
+     * @dev     Specified amount of stakingToken must be approved for withdrawal by the caller.
+     *
+     * @param beneficiary           The address that will own the deposit.
+     * @param amount                The amount of the stakingToken to stake.
+     * @param lock                  The lock tier to stake with.
+     *
+     * @return depositId            The ID of the new deposit in the beneficiary's stakes.
+     */
+    function stakeFor(
+        address beneficiary,
+        uint256 amount,
+        uint256 lock
+    ) external override whenNotPaused updateRewards returns (uint256 depositId) {
+        _checkRecipient(beneficiary);
+
+        return _stake(beneficiary, amount, lock);
+    }
+
+    /**
+     * @dev     Contains all logic for processing a stake operation. Pulls
+     *          tokens from the caller and records the deposit for 'user'.
      *
+     * @param user                  The address that will own the deposit.
      * @param amount                The amount of the stakingToken to stake.
-     * @param lock                  The amount of time to lock stake for.
+     * @param lock                  The lock tier to stake with.
+     *
+     * @return depositId            The ID of the new deposit in the user's stakes.
      */
-    function stake(uint256 amount, Lock lock) external override whenNotPaused updateRewards {
+    function _stake(address user, uint256 amount, uint256 lock) internal returns (uint256 depositId) {
         if (amount == 0) revert USR_ZeroDeposit();
         if (amount < minimumDeposit) revert USR_MinimumDeposit(amount, minimumDeposit);
 
-        if (totalDeposits == 0 && rewardsReady > 0) {
-            _startProgram(rewardsReady);
-            rewardsReady = 0;
+        if (totalDeposits == 0) rewardTokens.startAll();
+
+        if (totalDeposits == 0 && schedule.rewardsReady > 0) {
+            _startProgram(schedule.rewardsReady);
+            schedule.rewardsReady = 0;
 
             // Need to run updateRewards again
             _updateRewards();
-        } else if (block.timestamp > endTimestamp) {
-            revert STATE_NoRewardsLeft();
+        } else {
+            _checkRewardsLeft();
         }
 
+        if (lock >= lockTiers.length) revert USR_InvalidLockValue(lock);
+        if (!lockTiers[lock].active) revert USR_LockTierRetired(lock);
+
         // Do share accounting and populate user stake information
-        (uint256 boost, ) = _getBoost(lock);
-        uint256 amountWithBoost = amount + ((amount * boost) / ONE);
+        uint256 amountWithBoost = _withBoost(amount, lock);
 
-        stakes[msg.sender].push(
+        UserStake[] storage userStakes = stakes[user];
+        userStakes.push(
             UserStake({
                 amount: uint112(amount),
                 amountWithBoost: uint112(amountWithBoost),
                 unbondTimestamp: 0,
                 rewardPerTokenPaid: uint112(rewardPerTokenStored),
                 rewards: 0,
-                lock: lock
+                lock: uint32(lock)
             })
         );
 
-        // Update global state
-        totalDeposits += amount;
-        totalDepositsWithBoost += amountWithBoost;
+        depositId = userStakes.length - 1;
+        _initStakeRewards(user, depositId);
 
-        stakingToken.safeTransferFrom(msg.sender, address(this), amount);
+        _addDeposit(amount, amountWithBoost);
+
+        emit Stake(user, depositId, amount, msg.sender);
+    }
+
+    /**
+     * @notice  Add tokens to an existing deposit instead of making a new one.
+     *          The deposit keeps its lock, and the added tokens receive its boost.
+     * @dev     Specified amount of stakingToken must be approved for withdrawal by the caller.
+     * @dev     Rewards earned by the deposit so far are settled first.
+     *
+     * @param depositId             The specified deposit to add to.
+     * @param amount                The amount of the stakingToken to add.
+     */
+    function increaseStake(uint256 depositId, uint256 amount) external override whenNotPaused updateRewards {
+        if (amount == 0) revert USR_ZeroDeposit();
+        _checkRewardsLeft();
+        UserStake storage s = _getActiveStake(depositId);
+        if (!lockTiers[s.lock].active) revert USR_LockTierRetired(s.lock);
+
+        _updateRewardForStake(msg.sender, depositId);
 
-        emit Stake(msg.sender, stakes[msg.sender].length - 1, amount);
+        _addDeposit(amount, _growStake(s, amount));
+
+        emit IncreaseStake(msg.sender, depositId, amount);
     }
 
     /**
@@ -257,7 +381,20 @@ contract CellarStaking is ICellarStaking, Ownable {
      *
      */
     function unbond(uint256 depositId) external override whenNotPaused updateRewards {
-        _unbond(depositId);
+        _unbond(msg.sender, depositId);
+    }
+
+    /**
+     * @notice  Unbond part of a deposited stake. The unbonded amount is split off
+     *          into a new deposit with the same lock, which starts unbonding, while
+     *          the remainder stays locked and keeps its boost.
+     * @dev     Unbonding the full deposit amount is the same as unbond(depositId).
+     *
+     * @param depositId             The specified deposit to unbond from.
+     * @param amount                The amount of the deposit to unbond.
+     */
+    function unbond(uint256 depositId, uint256 amount) external override whenNotPaused updateRewards {
+        _unbondPartial(depositId, amount);
     }
 
     /**
@@ -272,7 +409,7 @@ contract CellarStaking is ICellarStaking, Ownable {
             UserStake storage s = userStakes[i];
 
             if (s.amount != 0 && s.unbondTimestamp == 0) {
-                _unbond(i);
+                _unbond(msg.sender, i);
             }
         }
     }
@@ -282,17 +419,18 @@ contract CellarStaking is ICellarStaking, Ownable {
      *          For the given deposit, sets an unlock time, and
      *          reverts boosts to 0.
      *
+     * @param user                  The owner of the deposit.
      * @param depositId             The specified deposit to unbond from.
      */
-    function _unbond(uint256 depositId) internal {
+    function _unbond(address user, uint256 depositId) internal {
         // Fetch stake and make sure it is withdrawable
-        UserStake storage s = stakes[msg.sender][depositId];
+        UserStake storage s = stakes[user][depositId];
 
         uint256 depositAmount = s.amount;
         if (depositAmount == 0) revert USR_NoDeposit(depositId);
         if (s.unbondTimestamp > 0) revert USR_AlreadyUnbonding(depositId);
 
-        _updateRewardForStake(msg.sender, depositId);
+        _updateRewardForStake(user, depositId);
 
         // Remove any lock boosts
         uint256 depositAmountReduced = s.amountWithBoost - depositAmount;
@@ -303,7 +441,64 @@ contract CellarStaking is ICellarStaking, Ownable {
 
         totalDepositsWithBoost -= uint112(depositAmountReduced);
 
-        emit Unbond(msg.sender, depositId, depositAmount);
+        emit Unbond(user, depositId, depositAmount);
+    }
+
+    /**
+     * @dev     Contains all logic for processing a partial unbond operation.
+     *          Settles rewards for the deposit, reduces it to the remaining
+     *          amount with its boost recalculated, and pushes the unbonded
+     *          amount as a new deposit without boost.
+     *
+     * @param depositId             The specified deposit to unbond from.
+     * @param amount                The amount of the deposit to unbond.
+     */
+    function _unbondPartial(uint256 depositId, uint256 amount) internal {
+        // Fetch stake and make sure it can be split
+        UserStake storage s = stakes[msg.sender][depositId];
+
+        uint256 depositAmount = s.amount;
+        if (depositAmount == 0) revert USR_NoDeposit(depositId);
+        if (amount == 0) revert USR_ZeroAssets();
+        if (amount > depositAmount) revert USR_InsufficientDeposit(depositId, amount, depositAmount);
+        if (amount == depositAmount) {
+            _unbond(msg.sender, depositId);
+            return;
+        }
+        if (s.unbondTimestamp > 0) revert USR_AlreadyUnbonding(depositId);
+
+        _updateRewardForStake(msg.sender, depositId);
+
+        // Recalculate the boost on what stays locked
+        uint32 lock = s.lock;
+        (, uint256 lockDuration) = _getBoost(lock);
+        uint256 remainingAmount = depositAmount - amount;
+        uint256 remainingWithBoost = _withBoost(remainingAmount, lock);
+
+        // The split-off amount loses its boost, as with a full unbond
+        uint256 depositAmountReduced = s.amountWithBoost - remainingWithBoost - amount;
+
+        s.amount = uint112(remainingAmount);
+        s.amountWithBoost = uint112(remainingWithBoost);
+
+        stakes[msg.sender].push(
+            UserStake({
+                amount: uint112(amount),
+                amountWithBoost: uint112(amount),
+                unbondTimestamp: uint32(block.timestamp + lockDuration),
+                rewardPerTokenPaid: uint112(rewardPerTokenStored),
+                rewards: 0,
+                lock: lock
+            })
+        );
+
+        totalDepositsWithBoost -= depositAmountReduced;
+
+        uint256 newDepositId = stakes[msg.sender].length - 1;
+        _initStakeRewards(msg.sender, newDepositId);
+
+        emit Split(msg.sender, depositId, newDepositId, amount);
+        emit Unbond(msg.sender, newDepositId, amount);
     }
 
     /**
@@ -314,7 +509,7 @@ contract CellarStaking is ICellarStaking, Ownable {
      *
      */
     function cancelUnbonding(uint256 depositId) external override whenNotPaused updateRewards {
-        _cancelUnbonding(depositId);
+        _cancelUnbonding(msg.sender, depositId);
     }
 
     /**
@@ -329,7 +524,7 @@ contract CellarStaking is ICellarStaking, Ownable {
             UserStake storage s = userStakes[i];
 
             if (s.amount != 0 && s.unbondTimestamp != 0) {
-                _cancelUnbonding(i);
+                _cancelUnbonding(msg.sender, i);
             }
         }
     }
@@ -339,17 +534,18 @@ contract CellarStaking is ICellarStaking, Ownable {
      *          For the given deposit, resets the unbonding timer, and
      *          reverts boosts to amount determined by lock.
      *
+     * @param user                  The owner of the deposit.
      * @param depositId             The specified deposit to unbond from.
      */
-    function _cancelUnbonding(uint256 depositId) internal {
+    function _cancelUnbonding(address user, uint256 depositId) internal {
         // Fetch stake and make sure it is withdrawable
-        UserStake storage s = stakes[msg.sender][depositId];
+        UserStake storage s = stakes[user][depositId];
 
         uint256 depositAmount = s.amount;
         if (depositAmount == 0) revert USR_NoDeposit(depositId);
         if (s.unbondTimestamp == 0) revert USR_NotUnbonding(depositId);
 
-        _updateRewardForStake(msg.sender, depositId);
+        _updateRewardForStake(user, depositId);
 
         // Reinstate
         (uint256 boost, ) = _getBoost(s.lock);
@@ -361,7 +557,7 @@ contract CellarStaking is ICellarStaking, Ownable {
 
         totalDepositsWithBoost += depositAmountIncreased;
 
-        emit CancelUnbond(msg.sender, depositId);
+        emit CancelUnbond(user, depositId);
     }
 
     /**
@@ -374,7 +570,44 @@ contract CellarStaking is ICellarStaking, Ownable {
      * @return reward               The amount of accumulated rewards since the last reward claim.
      */
     function unstake(uint256 depositId) external override whenNotPaused updateRewards returns (uint256 reward) {
-        return _unstake(depositId);
+        return _unstake(depositId, msg.sender);
+    }
+
+    /**
+     * @notice  Unstake a specific deposited stake, sending tokens and rewards to another address.
+     * @dev     The unbonding time for the specified deposit must have elapsed.
+     *
+     * @param depositId             The specified deposit to unstake from.
+     * @param to                    The address to receive the unstaked tokens and rewards.
+     *
+     * @return reward               The amount of accumulated rewards since the last reward claim.
+     */
+    function unstakeTo(
+        uint256 depositId,
+        address to
+    ) external override whenNotPaused updateRewards returns (uint256 reward) {
+        _checkRecipient(to);
+
+        return _unstake(depositId, to);
+    }
+
+    /**
+     * @notice  Unstake part of a deposited stake. The rest of the deposit stays
+     *          unbonded and continues to earn rewards until unstaked.
+     * @dev     The unbonding time for the specified deposit must have elapsed.
+     * @dev     Unstaking automatically claims available rewards for the deposit.
+     * @dev     Unstaking the full deposit amount is the same as unstake(depositId).
+     *
+     * @param depositId             The specified deposit to unstake from.
+     * @param amount                The amount of the deposit to unstake.
+     *
+     * @return reward               The amount of accumulated rewards since the last reward claim.
+     */
+    function unstake(
+        uint256 depositId,
+        uint256 amount
+    ) external override whenNotPaused updateRewards returns (uint256 reward) {
+        return _unstakePartial(depositId, amount, msg.sender);
     }
 
     /**
@@ -385,19 +618,51 @@ contract CellarStaking is ICellarStaking, Ownable {
      * @return rewards              The amount of accumulated rewards since the last reward claim.
      */
     function unstakeAll() external override whenNotPaused updateRewards returns (uint256[] memory) {
+        return _unstakeAll(msg.sender);
+    }
+
+    /**
+     * @notice  Unstake all user deposits, sending tokens and rewards to another address.
+     * @dev     Only unstakes rewards that are unbonded.
+     *
+     * @param to                    The address to receive the unstaked tokens and rewards.
+     *
+     * @return rewards              The amount of accumulated rewards since the last reward claim.
+     */
+    function unstakeAllTo(address to) external override whenNotPaused updateRewards returns (uint256[] memory) {
+        _checkRecipient(to);
+
+        return _unstakeAll(to);
+    }
+
+    /**
+     * @dev     Unstakes every unbonded deposit of the caller.
+     *
+     * @param to                    The address to receive the unstaked tokens and rewards.
+     */
+    function _unstakeAll(address to) internal returns (uint256[] memory rewards) {
         // Individually unstake each deposit
         UserStake[] storage userStakes = stakes[msg.sender];
-        uint256[] memory rewards = new uint256[](userStakes.length);
+        rewards = new uint256[](userStakes.length);
 
         for (uint256 i = 0; i < userStakes.length; i++) {
             UserStake storage s = userStakes[i];
 
             if (s.amount != 0 && s.unbondTimestamp != 0 && block.timestamp >= s.unbondTimestamp) {
-                rewards[i] = _unstake(i);
+                rewards[i] = _unstake(i, to);
             }
         }
+    }
 
-        return rewards;
+    /**
+     * @dev     Contains all logic for processing an unstake operation.
+     *          Unstakes the whole deposit, see _unstakePartial.
+     *
+     * @param depositId             The specified deposit to unstake from.
+     * @param to                    The address to receive the unstaked tokens and rewards.
+     */
+    function _unstake(uint256 depositId, address to) internal returns (uint256 reward) {
+        return _unstakePartial(depositId, stakes[msg.sender][depositId].amount, to);
     }
 
     /**
@@ -405,40 +670,49 @@ contract CellarStaking is ICellarStaking, Ownable {
      *          For the given deposit, does share accounting and burns
      *          shares, returns staking tokens to the original owner,
      *          updates global deposit and share trackers, and claims
-     *          rewards for the given deposit.
+     *          rewards for the given deposit. Unstaking the whole
+     *          deposit empties it.
      *
      * @param depositId             The specified deposit to unstake from.
+     * @param amount                The amount of the deposit to unstake.
+     * @param to                    The address to receive the unstaked tokens and rewards.
      */
-    function _unstake(uint256 depositId) internal returns (uint256 reward) {
+    function _unstakePartial(uint256 depositId, uint256 amount, address to) internal returns (uint256 reward) {
         // Fetch stake and make sure it is withdrawable
         UserStake storage s = stakes[msg.sender][depositId];
 
         uint256 depositAmount = s.amount;
 
         if (depositAmount == 0) revert USR_NoDeposit(depositId);
+        if (amount == 0) revert USR_ZeroAssets();
+        if (amount > depositAmount) revert USR_InsufficientDeposit(depositId, amount, depositAmount);
         if (s.unbondTimestamp == 0 || block.timestamp < s.unbondTimestamp) revert USR_StakeLocked(depositId);
 
         _updateRewardForStake(msg.sender, depositId);
 
-        // Start unstaking
         reward = s.rewards;
 
-        s.amount = 0;
-        s.amountWithBoost = 0;
+        // Boosted amount same as deposit amount, since we have unbonded
+        s.amount = uint112(depositAmount - amount);
+        s.amountWithBoost = uint112(depositAmount - amount);
         s.rewards = 0;
 
         // Update global state
-        // Boosted amount same as deposit amount, since we have unbonded
-        totalDeposits -= depositAmount;
-        totalDepositsWithBoost -= depositAmount;
+        totalDeposits -= amount;
+        totalDepositsWithBoost -= amount;
 
         // Distribute stake
-        stakingToken.safeTransfer(msg.sender, depositAmount);
+        stakingToken.safeTransfer(to, amount);
 
         // Distribute reward
-        distributionToken.safeTransfer(msg.sender, reward);
+        _payReward(to, reward);
+        _claimRewardTokens(msg.sender, depositId, to);
 
-        emit Unstake(msg.sender, depositId, depositAmount, reward);
+        if (amount == depositAmount) {
+            emit Unstake(msg.sender, depositId, amount, reward, to);
+        } else {
+            emit PartialUnstake(msg.sender, depositId, amount, reward, to);
+        }
     }
 
     /**
@@ -450,7 +724,24 @@ contract CellarStaking is ICellarStaking, Ownable {
      * @return reward               The amount of accumulated rewards since the last reward claim.
      */
     function claim(uint256 depositId) external override whenNotPaused updateRewards returns (uint256 reward) {
-        return _claim(depositId);
+        return _claim(msg.sender, depositId, msg.sender);
+    }
+
+    /**
+     * @notice  Claim rewards for a given deposit, sending them to another address.
+     *
+     * @param depositId             The specified deposit for which to claim rewards.
+     * @param to                    The address to receive the rewards.
+     *
+     * @return reward               The amount of accumulated rewards since the last reward claim.
+     */
+    function claimTo(
+        uint256 depositId,
+        address to
+    ) external override whenNotPaused updateRewards returns (uint256 reward) {
+        _checkRecipient(to);
+
+        return _claim(msg.sender, depositId, to);
     }
 
     /**
@@ -463,12 +754,36 @@ contract CellarStaking is ICellarStaking, Ownable {
      *                               indexed deposit.
      */
     function claimAll() external override whenNotPaused updateRewards returns (uint256[] memory rewards) {
+        return _claimAll(msg.sender, msg.sender);
+    }
+
+    /**
+     * @notice  Claim all available rewards, sending them to another address.
+     *
+     * @param to                    The address to receive the rewards.
+     *
+     * @return rewards               The amount of accumulated rewards since the last reward claim,
+     *                               for each deposit.
+     */
+    function claimAllTo(address to) external override whenNotPaused updateRewards returns (uint256[] memory rewards) {
+        _checkRecipient(to);
+
+        return _claimAll(msg.sender, to);
+    }
+
+    /**
+     * @dev     Claims rewards for every deposit of a user.
+     *
+     * @param user                  The owner of the deposits.
+     * @param to                    The address to receive the rewards.
+     */
+    function _claimAll(address user, address to) internal returns (uint256[] memory rewards) {
         // Individually claim for each stake
-        UserStake[] storage userStakes = stakes[msg.sender];
+        UserStake[] storage userStakes = stakes[user];
         rewards = new uint256[](userStakes.length);
 
         for (uint256 i = 0; i < userStakes.length; i++) {
-            rewards[i] = _claim(i);
+            rewards[i] = _claim(user, i, to);
         }
     }
 
@@ -479,15 +794,17 @@ contract CellarStaking is ICellarStaking, Ownable {
      *      of rewards claimed so rewards cannot be claimed twice.
      *
      *
+     * @param user                  The owner of the deposit.
      * @param depositId             The specified deposit to claim rewards for.
+     * @param to                    The address to receive the rewards.
      *
      * @return reward               The amount of accumulated rewards since the last reward claim.
      */
-    function _claim(uint256 depositId) internal returns (uint256 reward) {
+    function _claim(address user, uint256 depositId, address to) internal returns (uint256 reward) {
         // Fetch stake and make sure it is valid
-        UserStake storage s = stakes[msg.sender][depositId];
+        UserStake storage s = stakes[user][depositId];
 
-        _updateRewardForStake(msg.sender, depositId);
+        _updateRewardForStake(user, depositId);
 
         reward = s.rewards;
 
@@ -495,146 +812,450 @@ contract CellarStaking is ICellarStaking, Ownable {
         if (reward > 0) {
             s.rewards = 0;
 
-            distributionToken.safeTransfer(msg.sender, reward);
+            _payReward(to, reward);
 
-            emit Claim(msg.sender, depositId, reward);
+            emit Claim(user, depositId, reward, to);
         }
+
+        _claimRewardTokens(user, depositId, to);
     }
 
     /**
-     * @notice  Unstake and return all staked tokens to the caller.
-     * @dev     In emergency mode, staking time locks do not apply.
+     * @notice  Add a deposit's accumulated rewards to the deposit itself, instead
+     *          of claiming them. Only possible when the staking token is also the
+     *          distribution token.
+     * @dev     The deposit keeps its lock, and the compounded rewards receive its boost.
+     *          Additional reward tokens are not compounded, and stay claimable.
+     *
+     * @param depositId             The specified deposit to compound.
+     *
+     * @return reward               The amount of rewards added to the deposit.
      */
-    function emergencyUnstake() external override {
-        if (!ended) revert STATE_NoEmergencyUnstake();
-
-        UserStake[] storage userStakes = stakes[msg.sender];
-        for (uint256 i = 0; i < userStakes.length; i++) {
-            if (claimable) _updateRewardForStake(msg.sender, i);
+    function compound(uint256 depositId) external override whenNotPaused updateRewards returns (uint256 reward) {
+        if (stakingToken != distributionToken) {
+            revert STATE_CompoundingUnsupported(address(stakingToken), address(distributionToken));
+        }
+        UserStake storage s = _getActiveStake(depositId);
 
-            UserStake storage s = userStakes[i];
-            uint256 amount = s.amount;
+        _updateRewardForStake(msg.sender, depositId);
 
-            if (amount > 0) {
-                // Update global state
-                totalDeposits -= amount;
-                totalDepositsWithBoost -= s.amountWithBoost;
+        reward = s.rewards;
+        if (reward == 0) return 0;
 
-                s.amount = 0;
-                s.amountWithBoost = 0;
+        // Rewards are already held by the contract, so no tokens move
+        s.rewards = 0;
 
-                stakingToken.transfer(msg.sender, amount);
+        schedule.unpaidRewards -= reward;
+        totalDeposits += reward;
+        totalDepositsWithBoost += _growStake(s, reward);
 
-                emit EmergencyUnstake(msg.sender, i, amount);
-            }
-        }
+        emit Compound(msg.sender, depositId, reward);
     }
 
     /**
-     * @notice  Claim any accumulated rewards in emergency mode.
-     * @dev     In emergency node, no additional reward accounting is done.
-     *          Rewards do not accumulate after emergency mode begins,
-     *          so any earned amount is only retroactive to when the contract
-     *          was active.
+     * @notice  Move a deposit to a lock tier with an equal or longer lock duration,
+     *          without unstaking. Any in-progress unbonding is cancelled, and the
+     *          deposit receives the new tier's boost.
+     * @dev     Rewards earned under the old tier are settled first.
+     *
+     * @param depositId             The specified deposit to relock.
+     * @param newLock               The lock tier to move the deposit to.
      */
-    function emergencyClaim() external override {
-        if (!ended) revert STATE_NoEmergencyUnstake();
-        if (!claimable) revert STATE_NoEmergencyClaim();
+    function relock(uint256 depositId, uint256 newLock) external override whenNotPaused updateRewards {
+        UserStake storage s = _getStake(depositId);
 
-        uint256 reward;
+        if (newLock >= lockTiers.length) revert USR_InvalidLockValue(newLock);
+        if (!lockTiers[newLock].active) revert USR_LockTierRetired(newLock);
 
-        UserStake[] storage userStakes = stakes[msg.sender];
-        for (uint256 i = 0; i < userStakes.length; i++) {
-            _updateRewardForStake(msg.sender, i);
+        uint256 oldLock = s.lock;
+        if (lockTiers[newLock].lockDuration < lockTiers[oldLock].lockDuration) {
+            revert USR_LockTooShort(oldLock, newLock);
+        }
 
-            UserStake storage s = userStakes[i];
+        _updateRewardForStake(msg.sender, depositId);
 
-            reward += s.rewards;
-            s.rewards = 0;
-        }
+        uint256 amountWithBoost = _withBoost(s.amount, newLock);
 
-        if (reward > 0) {
-            distributionToken.safeTransfer(msg.sender, reward);
+        totalDepositsWithBoost = totalDepositsWithBoost - s.amountWithBoost + amountWithBoost;
 
-            // No need for per-stake events like emergencyUnstake:
-            // don't need to make sure positions were unwound
-            emit EmergencyClaim(msg.sender, reward);
-        }
-    }
+        s.amountWithBoost = uint112(amountWithBoost);
+        s.unbondTimestamp = 0;
+        s.lock = uint32(newLock);
 
-    // ======================================== ADMIN OPERATIONS ========================================
+        emit Relock(msg.sender, depositId, oldLock, newLock);
+    }
 
     /**
-     * @notice Specify a new schedule for staking rewards. Contract must already hold enough tokens.
-     * @dev    Can only be called by reward distributor. Owner must approve distributionToken for withdrawal.
-     * @dev    epochDuration must divide reward evenly, otherwise any remainder will be lost.
+     * @notice  Merge several deposits into one, to keep the number of active deposits
+     *          (and the gas cost of 'All' operations) down. All deposits must share a
+     *          lock tier, and none may be unbonding.
+     * @dev     Rewards are settled for every deposit, and moved to the merged deposit
+     *          unclaimed. Merged-in deposits are left empty: deposit IDs never change.
      *
-     * @param reward                The amount of rewards to distribute per second.
+     * @param depositId             The deposit to merge into.
+     * @param otherDepositIds       The deposits to merge into it.
      */
-    function notifyRewardAmount(uint256 reward) external override onlyOwner updateRewards {
-        if (block.timestamp < endTimestamp) {
-            uint256 remaining = endTimestamp - block.timestamp;
-            uint256 leftover = remaining * rewardRate;
-            reward += leftover;
-        }
+    function merge(
+        uint256 depositId,
+        uint256[] calldata otherDepositIds
+    ) external override whenNotPaused updateRewards {
+        UserStake storage s = _getActiveStake(depositId);
+        uint256 lock = s.lock;
 
-        if (reward < nextEpochDuration) revert USR_ZeroRewardsPerEpoch();
+        _updateRewardForStake(msg.sender, depositId);
 
-        uint256 rewardBalance = distributionToken.balanceOf(address(this));
-        uint256 pendingRewards = reward + rewardsReady;
-        if (rewardBalance < pendingRewards) revert STATE_RewardsNotFunded(rewardBalance, pendingRewards);
+        for (uint256 i = 0; i < otherDepositIds.length; i++) {
+            uint256 otherId = otherDepositIds[i];
+            if (otherId == depositId) revert USR_DuplicateDeposit(otherId);
 
-        // prevent overflow when computing rewardPerToken
-        uint256 proposedRewardRate = reward / nextEpochDuration;
-        if (proposedRewardRate >= ((type(uint256).max / ONE) / nextEpochDuration)) {
-            revert USR_RewardTooLarge();
-        }
+            UserStake storage other = _getActiveStake(otherId);
+            if (other.lock != lock) revert USR_LockMismatch(otherId, other.lock, lock);
 
-        if (totalDeposits == 0) {
-            // No deposits yet, so keep rewards pending until first deposit
-            // Incrementing in case it is called twice
-            rewardsReady += reward;
-        } else {
-            // Ready to start
-            _startProgram(reward);
-        }
+            _updateRewardForStake(msg.sender, otherId);
 
-        lastAccountingTimestamp = block.timestamp;
+            // Boost the merged amount as a whole, since the boosts of the parts may each
+            // have been rounded down
+            uint256 amount = other.amount;
+            totalDepositsWithBoost = totalDepositsWithBoost + _growStake(s, amount) - other.amountWithBoost;
+            s.rewards += other.rewards;
+
+            other.amount = 0;
+            other.amountWithBoost = 0;
+            other.rewards = 0;
+
+            rewardTokens.merge(msg.sender, depositId, otherId);
+
+            emit Merge(msg.sender, depositId, otherId, amount);
+        }
     }
 
     /**
-     * @notice Change the length of a reward epoch for future reward schedules.
-     *
-     * @param _epochDuration        The new duration for reward schedules.
+     * @notice  Unstake and return all staked tokens to the caller.
+     * @dev     In emergency mode, staking time locks do not apply.
      */
-    function setRewardsDuration(uint256 _epochDuration) external override onlyOwner {
-        if (rewardsReady > 0) revert STATE_RewardsReady();
+    function emergencyUnstake() external override {
+        if (!ended) revert STATE_NoEmergencyUnstake();
 
-        nextEpochDuration = _epochDuration;
-        emit EpochDurationChange(nextEpochDuration);
+        for (uint256 i = 0; i < stakes[msg.sender].length; i++) {
+            _emergencyUnstake(i, msg.sender);
+        }
     }
 
     /**
-     * @notice Specify a minimum deposit for staking.
-     * @dev    Can only be called by owner.
+     * @notice  Unstake a specific deposit in emergency mode, sending its tokens to another address.
+     * @dev     In emergency mode, staking time locks do not apply.
      *
-     * @param _minimum              The minimum deposit for each new stake.
+     * @param depositId             The specified deposit to unstake.
+     * @param to                    The address to receive the unstaked tokens.
      */
-    function setMinimumDeposit(uint256 _minimum) external override onlyOwner {
-        minimumDeposit = _minimum;
+    function emergencyUnstakeTo(uint256 depositId, address to) external override {
+        if (!ended) revert STATE_NoEmergencyUnstake();
+        _checkRecipient(to);
+        _getStake(depositId);
+
+        _emergencyUnstake(depositId, to);
     }
 
     /**
-     * @notice Pause the contract. Pausing prevents staking, unstaking, claiming
-     *         rewards, and scheduling new rewards. Should only be used
-     *         in an emergency.
-     *
-     * @param _paused               Whether the contract should be paused.
+     * @notice  Claim any accumulated rewards in emergency mode.
+     * @dev     In emergency node, no additional reward accounting is done.
+     *          Rewards do not accumulate after emergency mode begins,
+     *          so any earned amount is only retroactive to when the contract
+     *          was active.
+     */
+    function emergencyClaim() external override {
+        _checkEmergencyClaim();
+
+        uint256 reward;
+        for (uint256 i = 0; i < stakes[msg.sender].length; i++) {
+            reward += _emergencyClaim(i, msg.sender);
+        }
+
+        _payEmergencyClaim(reward, msg.sender);
+    }
+
+    /**
+     * @notice  Claim a specific deposit's accumulated rewards in emergency mode,
+     *          sending them to another address. Also works for a deposit which was
+     *          unstaked in emergency mode.
+     *
+     * @param depositId             The specified deposit for which to claim rewards.
+     * @param to                    The address to receive the rewards.
+     *
+     * @return reward               The amount of accumulated rewards.
+     */
+    function emergencyClaimTo(uint256 depositId, address to) external override returns (uint256 reward) {
+        _checkEmergencyClaim();
+        _checkRecipient(to);
+        if (depositId >= stakes[msg.sender].length) revert USR_NoDeposit(depositId);
+
+        reward = _emergencyClaim(depositId, to);
+        _payEmergencyClaim(reward, to);
+    }
+
+    // ====================================== OPERATOR OPERATIONS ======================================
+
+    /**
+     * @notice  Approve or revoke an operator, who may claim rewards and start or cancel
+     *          unbonding for all of the caller's deposits. Rewards claimed by an operator
+     *          are always sent to the caller, and operators can never unstake.
+     *
+     * @param operator              The address to approve or revoke.
+     * @param approved              Whether the operator is approved.
+     */
+    function setOperator(address operator, bool approved) external override {
+        roles.operators[msg.sender][operator] = approved;
+
+        emit OperatorSet(msg.sender, operator, approved);
+    }
+
+    /**
+     * @notice  Claim rewards for a given deposit of a user, as their operator.
+     *          Rewards are sent to the user.
+     *
+     * @param user                  The owner of the deposit.
+     * @param depositId             The specified deposit for which to claim rewards.
+     *
+     * @return reward               The amount of accumulated rewards since the last reward claim.
+     */
+    function claimFor(
+        address user,
+        uint256 depositId
+    ) external override whenNotPaused onlyOperator(user) updateRewards returns (uint256 reward) {
+        return _claim(user, depositId, user);
+    }
+
+    /**
+     * @notice  Claim all available rewards of a user, as their operator.
+     *          Rewards are sent to the user.
+     *
+     * @param user                  The owner of the deposits.
+     *
+     * @return rewards              The amount of accumulated rewards since the last reward claim,
+     *                              for each deposit.
+     */
+    function claimAllFor(
+        address user
+    ) external override whenNotPaused onlyOperator(user) updateRewards returns (uint256[] memory rewards) {
+        return _claimAll(user, user);
+    }
+
+    /**
+     * @notice  Unbond a deposit of a user, as their operator.
+     *
+     * @param user                  The owner of the deposit.
+     * @param depositId             The specified deposit to unbond.
+     */
+    function unbondFor(
+        address user,
+        uint256 depositId
+    ) external override whenNotPaused onlyOperator(user) updateRewards {
+        _unbond(user, depositId);
+    }
+
+    /**
+     * @notice  Cancel unbonding of a deposit of a user, as their operator.
+     *
+     * @param user                  The owner of the deposit.
+     * @param depositId             The specified deposit to cancel unbonding for.
+     */
+    function cancelUnbondingFor(
+        address user,
+        uint256 depositId
+    ) external override whenNotPaused onlyOperator(user) updateRewards {
+        _cancelUnbonding(user, depositId);
+    }
+
+    // ======================================== ADMIN OPERATIONS ========================================
+
+    /**
+     * @notice Specify a new schedule for staking rewards. Contract must already hold enough tokens.
+     * @dev    Can only be called by the funder.
+     * @dev    epochDuration must divide reward evenly, otherwise any remainder will be lost.
+     * @dev    Not available while epochs are scheduled, since it would change the current epoch.
+     *
+     * @param reward                The amount of rewards to distribute per second.
+     */
+    function notifyRewardAmount(uint256 reward) external override onlyFunder updateRewards {
+        if (schedule.nextScheduledEpoch < schedule.scheduledEpochs.length) revert STATE_EpochsScheduled();
+
+        // Leftover rewards move from the current epoch to the new one
+        uint256 leftover = remainingRewards();
+        schedule.unpaidRewards -= leftover;
+        reward += leftover;
+
+        _checkFunding(distributionToken, reward, schedule.nextEpochDuration, reward + schedule.rewardsReady);
+
+        if (totalDeposits == 0) {
+            // No deposits yet, so keep rewards pending until first deposit
+            // Incrementing in case it is called twice
+            schedule.rewardsReady += reward;
+
+            // The current epoch ends here, so its leftover is not moved again by the next call
+            if (endTimestamp > block.timestamp) endTimestamp = block.timestamp;
+        } else {
+            // Ready to start
+            _startProgram(reward);
+        }
+
+        lastAccountingTimestamp = block.timestamp;
+    }
+
+    /**
+     * @notice Change the length of a reward epoch for future reward schedules.
+     *
+     * @param _epochDuration        The new duration for reward schedules.
      */
-    function setPaused(bool _paused) external override onlyOwner {
+    function setRewardsDuration(uint256 _epochDuration) external override onlyOwner {
+        if (schedule.rewardsReady > 0) revert STATE_RewardsReady();
+
+        schedule.nextEpochDuration = _epochDuration;
+        emit EpochDurationChange(schedule.nextEpochDuration);
+    }
+
+    /**
+     * @notice Change the emission curve for future reward schedules started with
+     *         'notifyRewardAmount'. The zero address emits rewards at a flat rate.
+     * @dev    Curves emit exactly the funded amount, so unlike flat schedules they
+     *         lose no remainder to rounding.
+     *
+     * @param curve                 The new emission curve for reward schedules.
+     */
+    function setEmissionCurve(IEmissionCurve curve) external override onlyOwner {
+        if (schedule.rewardsReady > 0) revert STATE_RewardsReady();
+
+        schedule.nextEmissionCurve = curve;
+        emit EmissionCurveChange(address(curve));
+    }
+
+    /**
+     * @notice Queue a future reward epoch. It starts at 'startTimestamp' with its own
+     *         rate, without being blended with any other epoch's rewards, and must
+     *         start no earlier than the current and all queued epochs end.
+     *         Contract must already hold enough tokens for every epoch, on top of
+     *         every reward already owed to stakers.
+     * @dev    Can only be called by the funder. For flat epochs, 'duration' must divide
+     *         'amount' evenly, otherwise any remainder will be lost.
+     * @dev    Epochs start on time even if no transaction happens at 'startTimestamp',
+     *         but as with any epoch, rewards emitted while nothing is staked are lost.
+     *
+     * @param startTimestamp        When the epoch starts distributing rewards.
+     * @param duration              The length of the epoch.
+     * @param amount                The rewards to distribute over the epoch.
+     * @param curve                 The shape of the epoch's emissions, or the zero address for a flat rate.
+     *
+     * @return epochId              The ID of the epoch in scheduledEpochs.
+     */
+    function scheduleEpoch(
+        uint256 startTimestamp,
+        uint256 duration,
+        uint256 amount,
+        IEmissionCurve curve
+    ) external override onlyFunder updateRewards returns (uint256 epochId) {
+        if (schedule.rewardsReady > 0) revert STATE_RewardsReady();
+
+        // Epochs may leave a gap between them, but never overlap
+        uint256 earliestStart = endTimestamp;
+        epochId = schedule.scheduledEpochs.length;
+        if (epochId > schedule.nextScheduledEpoch) {
+            ScheduledEpoch storage last = schedule.scheduledEpochs[epochId - 1];
+            earliestStart = last.startTimestamp + last.duration;
+        }
+        if (earliestStart < block.timestamp) earliestStart = block.timestamp;
+        if (startTimestamp < earliestStart) revert USR_EpochOverlap(startTimestamp, earliestStart);
+
+        _checkFunding(distributionToken, amount, duration, _rewardObligations() + amount);
+
+        schedule.scheduledEpochs.push(
+            ScheduledEpoch({ startTimestamp: startTimestamp, duration: duration, amount: amount, curve: curve })
+        );
+        schedule.scheduledRewards += amount;
+
+        emit EpochScheduled(epochId, startTimestamp, duration, amount, address(curve));
+    }
+
+    /**
+     * @notice Specify a minimum deposit for staking.
+     * @dev    Can only be called by owner.
+     *
+     * @param _minimum              The minimum deposit for each new stake.
+     */
+    function setMinimumDeposit(uint256 _minimum) external override onlyOwner {
+        minimumDeposit = _minimum;
+    }
+
+    /**
+     * @notice Add a new lock tier that users can stake with.
+     * @dev    Can only be called by owner.
+     *
+     * @param boost                 The boost multiplier for deposits in the tier.
+     * @param lockDuration          The unbonding time for deposits in the tier.
+     *
+     * @return tierId               The lock value of the new tier.
+     */
+    function addLockTier(uint256 boost, uint256 lockDuration) external override onlyOwner returns (uint256 tierId) {
+        return _addLockTier(boost, lockDuration);
+    }
+
+    /**
+     * @notice Retire a lock tier, so that it can no longer be used for new stakes.
+     * @dev    Can only be called by owner. Existing deposits in the tier keep
+     *         their boost and unbonding time.
+     *
+     * @param tierId                The lock tier to retire.
+     */
+    function retireLockTier(uint256 tierId) external override onlyOwner {
+        if (tierId >= lockTiers.length) revert USR_InvalidLockValue(tierId);
+        if (!lockTiers[tierId].active) revert USR_LockTierRetired(tierId);
+
+        lockTiers[tierId].active = false;
+
+        emit LockTierRetired(tierId);
+    }
+
+    /**
+     * @notice Pause the contract. Pausing prevents staking, unstaking, claiming
+     *         rewards, and scheduling new rewards. Should only be used
+     *         in an emergency.
+     *
+     * @dev    The guardian may pause, but only the owner may unpause.
+     *
+     * @param _paused               Whether the contract should be paused.
+     */
+    function setPaused(bool _paused) external override {
+        if (!_paused) _checkOwner();
+        else if (msg.sender != roles.guardian && msg.sender != owner()) revert USR_NotGuardian(msg.sender);
+
         paused = _paused;
     }
 
+    /**
+     * @notice Set the account which funds rewards with 'notifyRewardAmount',
+     *         'scheduleEpoch' and 'notifyRewardTokenAmount'.
+     *
+     * @param _funder               The new funder.
+     */
+    function setFunder(address _funder) external override onlyOwner {
+        _checkRecipient(_funder);
+
+        roles.funder = _funder;
+
+        emit FunderChange(_funder);
+    }
+
+    /**
+     * @notice Set the account which may pause the contract.
+     *
+     * @param _guardian             The new guardian.
+     */
+    function setGuardian(address _guardian) external override onlyOwner {
+        _checkRecipient(_guardian);
+
+        roles.guardian = _guardian;
+
+        emit GuardianChange(_guardian);
+    }
+
     /**
      * @notice Stops the contract - this is irreversible. Should only be used
      *         in an emergency, for example an irreversible accounting bug
@@ -649,29 +1270,174 @@ contract CellarStaking is ICellarStaking, Ownable {
         // Update state and put in irreversible emergency mode
         ended = true;
         claimable = makeRewardsClaimable;
-        uint256 amountToReturn = distributionToken.balanceOf(address(this));
+        uint256 amountToReturn = _balanceOf(distributionToken);
+
+        // Deposits stay behind for emergencyUnstake, if rewards are paid in the staking token
+        if (distributionToken == stakingToken) amountToReturn -= totalDeposits;
 
         if (makeRewardsClaimable) {
             // Update rewards one more time
             _updateRewards();
 
-            // Return any remaining, since new calculation is stopped
-            uint256 remaining = endTimestamp > block.timestamp ? (endTimestamp - block.timestamp) * rewardRate : 0;
-
-            // Make sure any rewards except for remaining are kept for claims
-            uint256 amountToKeep = rewardRate * currentEpochDuration - remaining;
-
-            amountToReturn -= amountToKeep;
+            // Make sure rewards emitted so far, by every epoch, are kept for claims, and return
+            // the remaining, since new calculation is stopped
+            schedule.unpaidRewards -= remainingRewards();
+            amountToReturn -= schedule.unpaidRewards;
+        } else {
+            schedule.unpaidRewards = 0;
         }
 
+        // Rewards waiting for a first deposit and scheduled epochs which have not started
+        // will never run, and are returned with the rest
+        schedule.rewardsReady = 0;
+        schedule.nextScheduledEpoch = schedule.scheduledEpochs.length;
+        schedule.scheduledRewards = 0;
+
         // Send distribution token back to owner
-        distributionToken.transfer(msg.sender, amountToReturn);
+        distributionToken.safeTransfer(msg.sender, amountToReturn);
+
+        // Reward tokens keep exactly what has been emitted, if claimable
+        rewardTokens.returnUnemitted(makeRewardsClaimable, msg.sender);
 
         emit EmergencyStop(msg.sender, makeRewardsClaimable);
     }
 
+    /**
+     * @notice Send tokens held by the contract by mistake to another address.
+     * @dev    The staking token and additional reward tokens can never be recovered.
+     *         For the distribution token, only the balance above unpaid rewards,
+     *         rewardsReady and scheduled rewards can be recovered.
+     *
+     * @param token                 The token to recover.
+     * @param amount                The amount to recover.
+     * @param to                    The address to receive the tokens.
+     */
+    function recoverERC20(ERC20 token, uint256 amount, address to) external override onlyOwner {
+        _checkRecipient(to);
+        if (token == stakingToken || _isRewardToken(token)) revert USR_ProtectedAsset(address(token));
+
+        if (token == distributionToken) {
+            if (amount + _rewardObligations() > _balanceOf(token)) revert USR_ProtectedAsset(address(token));
+        }
+
+        token.safeTransfer(to, amount);
+
+        emit Recover(address(token), amount, to);
+    }
+
+    /**
+     * @notice Register an additional token to distribute as rewards, with its own
+     *         reward schedule. Stakers earn it in proportion to their boosted deposits,
+     *         the same as the distribution token.
+     *
+     * @param token                 The reward token to add.
+     * @param epochDuration         The length of a reward schedule for the token.
+     */
+    function addRewardToken(ERC20 token, uint256 epochDuration) external override onlyOwner {
+        if (token == distributionToken || token == stakingToken || _isRewardToken(token)) {
+            revert USR_InvalidRewardToken(address(token));
+        }
+        if (rewardTokens.tokens.length >= MAX_REWARD_TOKENS) revert STATE_TooManyRewardTokens(MAX_REWARD_TOKENS);
+
+        // Accounting starts with the token's first schedule: until then its endTimestamp and
+        // lastAccountingTimestamp are both zero, so it accrues nothing
+        rewardTokens.tokens.push(token);
+        rewardTokens.schedules[token].nextEpochDuration = epochDuration;
+
+        emit RewardTokenAdded(address(token), epochDuration);
+    }
+
+    /**
+     * @notice Specify a new schedule for an additional reward token. Works the same
+     *         as notifyRewardAmount, using the token's own epoch duration.
+     *
+     * @param token                 The reward token to schedule.
+     * @param reward                The amount of rewards to distribute per epoch.
+     */
+    function notifyRewardTokenAmount(ERC20 token, uint256 reward) external override onlyFunder updateRewards {
+        rewardTokens.notify(token, reward, totalDeposits);
+    }
+
+    /**
+     * @notice Change the length of a reward epoch for future schedules of an additional reward token.
+     *
+     * @param token                 The reward token to update.
+     * @param _epochDuration        The new duration for reward schedules.
+     */
+    function setRewardTokenDuration(ERC20 token, uint256 _epochDuration) external override onlyOwner {
+        rewardTokens.setDuration(token, _epochDuration);
+    }
+
     // ======================================= STATE INFORMATION =======================================
 
+    /// @notice The length of the current reward epoch.
+    function currentEpochDuration() external view override returns (uint256) {
+        return schedule.currentEpochDuration;
+    }
+
+    /// @notice The length of epochs started by future calls to 'notifyRewardAmount'.
+    function nextEpochDuration() external view override returns (uint256) {
+        return schedule.nextEpochDuration;
+    }
+
+    /// @notice Rewards funded while nothing is staked, which start an epoch with the first deposit.
+    function rewardsReady() external view override returns (uint256) {
+        return schedule.rewardsReady;
+    }
+
+    /// @notice The ID of the next scheduled epoch to activate. Lower IDs have already been activated.
+    function nextScheduledEpoch() external view returns (uint256) {
+        return schedule.nextScheduledEpoch;
+    }
+
+    /// @notice Rewards held for scheduled epochs which have not been activated.
+    function scheduledRewards() external view returns (uint256) {
+        return schedule.scheduledRewards;
+    }
+
+    /// @notice The shape of the current epoch's emissions. The zero address emits at a flat rate.
+    ///         For other curves, rewardRate is the average rate over the epoch.
+    function currentEmissionCurve() external view override returns (IEmissionCurve) {
+        return schedule.currentEmissionCurve;
+    }
+
+    /// @notice The shape of epochs started by future calls to 'notifyRewardAmount'.
+    function nextEmissionCurve() external view override returns (IEmissionCurve) {
+        return schedule.nextEmissionCurve;
+    }
+
+    /// @notice The rewards funded for the current epoch.
+    function epochRewards() external view override returns (uint256) {
+        return schedule.epochRewards;
+    }
+
+    /// @notice Rewards of started epochs which have not been paid out: rewards accrued
+    ///         by deposits plus the remaining schedule. Rewards emitted while nothing is
+    ///         staked, and rounding dust, are never paid out and stay counted.
+    function unpaidRewards() external view returns (uint256) {
+        return schedule.unpaidRewards;
+    }
+
+    /// @notice The account which funds rewards. Set by the owner, who administers everything else.
+    function funder() external view override returns (address) {
+        return roles.funder;
+    }
+
+    /// @notice The account which may pause the contract, but not unpause it.
+    function guardian() external view override returns (address) {
+        return roles.guardian;
+    }
+
+    /// @notice Whether 'operator' may claim and unbond for 'user'.
+    function operators(address user, address operator) external view returns (bool) {
+        return roles.operators[user][operator];
+    }
+
+    /// @notice An additional reward token's schedule and accounting state.
+    function rewardSchedules(ERC20 token) external view returns (RewardSchedule memory) {
+        return rewardTokens.schedules[token];
+    }
+
     /**
      * @notice Returns the latest time to account for in the reward program.
      *
@@ -684,6 +1450,7 @@ contract CellarStaking is ICellarStaking, Ownable {
     /**
      * @notice Returns the amount of reward to distribute per currently-depostied token.
      *         Will update on changes to total deposit balance or reward rate.
+     *         Includes scheduled epochs which have started, but not yet been activated.
      * @dev    Sets rewardPerTokenStored.
      *
      *
@@ -691,15 +1458,33 @@ contract CellarStaking is ICellarStaking, Ownable {
      * @return latestTimestamp          The latest time to calculate.
      */
     function rewardPerToken() public view override returns (uint256 newRewardPerTokenStored, uint256 latestTimestamp) {
-        latestTimestamp = latestRewardsTimestamp();
+        newRewardPerTokenStored = rewardPerTokenStored;
+        uint256 lastTimestamp = lastAccountingTimestamp;
+        ScheduledEpoch memory current = _currentEpoch();
 
-        if (totalDeposits == 0) return (rewardPerTokenStored, latestTimestamp);
+        for (uint256 i = schedule.nextScheduledEpoch; i < schedule.scheduledEpochs.length; i++) {
+            ScheduledEpoch memory epoch = schedule.scheduledEpochs[i];
+            if (epoch.startTimestamp > block.timestamp) break;
 
-        uint256 timeElapsed = latestTimestamp - lastAccountingTimestamp;
-        uint256 rewardsForTime = timeElapsed * rewardRate;
-        uint256 newRewardsPerToken = (rewardsForTime * ONE) / totalDepositsWithBoost;
+            (newRewardPerTokenStored, ) = _epochRewardPerToken(newRewardPerTokenStored, lastTimestamp, current);
+
+            lastTimestamp = epoch.startTimestamp;
+            current = epoch;
+        }
 
-        newRewardPerTokenStored = rewardPerTokenStored + newRewardsPerToken;
+        return _epochRewardPerToken(newRewardPerTokenStored, lastTimestamp, current);
+    }
+
+    /**
+     * @notice Returns the rewards of the current epoch which have not been emitted yet.
+     *
+     * @return remaining                The rewards left to emit.
+     */
+    function remainingRewards() public view override returns (uint256) {
+        if (block.timestamp >= endTimestamp) return 0;
+
+        ScheduledEpoch memory epoch = _currentEpoch();
+        return _emitted(epoch, endTimestamp) - _emitted(epoch, block.timestamp);
     }
 
     /**
@@ -715,6 +1500,118 @@ contract CellarStaking is ICellarStaking, Ownable {
         return stakes[user];
     }
 
+    /**
+     * @notice Returns the rewards a deposit could claim right now, including rewards
+     *         accrued since the last accounting update.
+     * @dev    After an emergency stop, rewards no longer accrue, and are zero if
+     *         they were not made claimable.
+     *
+     * @param user                      The user who owns the deposit.
+     * @param depositId                 The deposit to check.
+     *
+     * @return reward                   The claimable rewards for the deposit.
+     */
+    function earned(address user, uint256 depositId) public view override returns (uint256 reward) {
+        if (depositId >= stakes[user].length) revert USR_NoDeposit(depositId);
+        if (ended && !claimable) return 0;
+
+        reward = _pendingRewards(stakes[user][depositId], _claimableRewardPerToken());
+    }
+
+    /**
+     * @notice Returns the rewards a user could claim right now across all deposits.
+     *
+     * @param user                      The user whose rewards to sum.
+     *
+     * @return reward                   The total claimable rewards for the user.
+     */
+    function earnedAll(address user) public view override returns (uint256 reward) {
+        if (ended && !claimable) return 0;
+
+        uint256 _rewardPerToken = _claimableRewardPerToken();
+
+        UserStake[] storage userStakes = stakes[user];
+        for (uint256 i = 0; i < userStakes.length; i++) {
+            reward += _pendingRewards(userStakes[i], _rewardPerToken);
+        }
+    }
+
+    /**
+     * @notice Gets all lock tiers, including retired ones.
+     *
+     * @return tiers                    Array of lock tiers, indexed by lock value.
+     */
+    function getLockTiers() public view override returns (LockTier[] memory) {
+        return lockTiers;
+    }
+
+    /**
+     * @notice Gets every scheduled epoch which has not been activated, in activation order.
+     *         An epoch whose start has passed is already distributing rewards, and is
+     *         activated by the next transaction that updates rewards.
+     *
+     * @return epochs                   Array of queued epochs.
+     */
+    function getScheduledEpochs() public view override returns (ScheduledEpoch[] memory epochs) {
+        uint256 first = schedule.nextScheduledEpoch;
+        epochs = new ScheduledEpoch[](schedule.scheduledEpochs.length - first);
+
+        for (uint256 i = 0; i < epochs.length; i++) {
+            epochs[i] = schedule.scheduledEpochs[first + i];
+        }
+    }
+
+    /**
+     * @notice Gets all additional reward tokens.
+     *
+     * @return tokens                   Array of reward tokens, excluding distributionToken.
+     */
+    function getRewardTokens() public view override returns (ERC20[] memory) {
+        return rewardTokens.tokens;
+    }
+
+    /**
+     * @notice Returns the amount of an additional reward token to distribute per
+     *         currently-deposited token. Mirrors rewardPerToken.
+     *
+     * @param token                     The reward token.
+     *
+     * @return newRewardPerTokenStored  The new rewards to distribute per token.
+     * @return latestTimestamp          The latest time to calculate.
+     */
+    function rewardPerTokenFor(
+        ERC20 token
+    ) public view override returns (uint256 newRewardPerTokenStored, uint256 latestTimestamp) {
+        if (!_isRewardToken(token)) revert USR_UnknownRewardToken(address(token));
+
+        return RewardTokens.rewardPerToken(rewardTokens.schedules[token], totalDepositsWithBoost);
+    }
+
+    /**
+     * @notice Returns the amount of an additional reward token a deposit could claim right now.
+     *
+     * @param token                     The reward token.
+     * @param user                      The user who owns the deposit.
+     * @param depositId                 The deposit to check.
+     *
+     * @return reward                   The claimable rewards for the deposit.
+     */
+    function earnedFor(ERC20 token, address user, uint256 depositId) public view override returns (uint256 reward) {
+        if (!_isRewardToken(token)) revert USR_UnknownRewardToken(address(token));
+        if (depositId >= stakes[user].length) revert USR_NoDeposit(depositId);
+        if (ended && !claimable) return 0;
+
+        RewardSchedule storage r = rewardTokens.schedules[token];
+        StakeRewards memory sr = rewardTokens.stakeRewards[user][depositId][token];
+        UserStake memory s = stakes[user][depositId];
+
+        uint256 _rewardPerToken = r.rewardPerTokenStored;
+        if (!ended) (_rewardPerToken, ) = RewardTokens.rewardPerToken(r, totalDepositsWithBoost);
+
+        reward = sr.rewards;
+        if (s.amount > 0) reward += (s.amountWithBoost * (_rewardPerToken - sr.rewardPerTokenPaid)) / ONE;
+    }
+
     // ============================================ HELPERS ============================================
 
     /**
@@ -729,8 +1626,55 @@ contract CellarStaking is ICellarStaking, Ownable {
      * @dev Blocks calls if contract is paused or killed.
      */
     modifier whenNotPaused() {
+        _whenNotPaused();
+        _;
+    }
+
+    /**
+     * @dev Shared by every function using whenNotPaused, so its checks are only compiled once.
+     */
+    function _whenNotPaused() internal view {
         if (paused) revert STATE_ContractPaused();
         if (ended) revert STATE_ContractKilled();
+    }
+
+    /**
+     * @dev Reverts if tokens, a deposit or a role would be given to the zero address.
+     */
+    function _checkRecipient(address to) internal pure {
+        if (to == address(0)) revert USR_ZeroAddress();
+    }
+
+    /**
+     * @dev Reverts once the current epoch has ended and no scheduled epoch will follow,
+     *      since new deposits could never earn rewards.
+     */
+    function _checkRewardsLeft() internal view {
+        if (block.timestamp > endTimestamp && schedule.nextScheduledEpoch == schedule.scheduledEpochs.length) {
+            revert STATE_NoRewardsLeft();
+        }
+    }
+
+    /**
+     * @dev Blocks calls unless made by the funder.
+     */
+    modifier onlyFunder() {
+        _onlyFunder();
+        _;
+    }
+
+    /**
+     * @dev Shared by every function using onlyFunder, so its check is only compiled once.
+     */
+    function _onlyFunder() internal view {
+        if (msg.sender != roles.funder) revert USR_NotFunder(msg.sender);
+    }
+
+    /**
+     * @dev Blocks calls unless made by the user or an operator they approved.
+     */
+    modifier onlyOperator(address user) {
+        if (msg.sender != user && !roles.operators[user][msg.sender]) revert USR_NotOperator(user, msg.sender);
         _;
     }
 
@@ -738,7 +1682,28 @@ contract CellarStaking is ICellarStaking, Ownable {
      * @dev Update reward accounting for the global state totals.
      */
     function _updateRewards() internal {
+        _activateScheduledEpochs();
+
         (rewardPerTokenStored, lastAccountingTimestamp) = rewardPerToken();
+        rewardTokens.update(totalDepositsWithBoost);
+    }
+
+    /**
+     * @dev Checks shared by every way of funding a reward schedule. See RewardTokens.checkFunding.
+     *      Deposits never fund rewards, if rewards are paid in the staking token.
+     */
+    function _checkFunding(ERC20 token, uint256 reward, uint256 duration, uint256 pendingRewards) internal view {
+        uint256 deposits = token == stakingToken ? totalDeposits : 0;
+
+        RewardTokens.checkFunding(token, reward, duration, pendingRewards, deposits);
+    }
+
+    /**
+     * @dev Distribution tokens the contract owes: unpaid rewards of started epochs,
+     *      rewards waiting for a first deposit, and scheduled epochs.
+     */
+    function _rewardObligations() internal view returns (uint256) {
+        return schedule.unpaidRewards + schedule.rewardsReady + schedule.scheduledRewards;
     }
 
     /**
@@ -751,13 +1716,94 @@ contract CellarStaking is ICellarStaking, Ownable {
         // Total deposits are now (mod current tx), no ongoing program
         // Rewards are already funded (since checked in notifyRewardAmount)
 
-        rewardRate = reward / nextEpochDuration;
-        endTimestamp = block.timestamp + nextEpochDuration;
-        currentEpochDuration = nextEpochDuration;
+        rewardRate = reward / schedule.nextEpochDuration;
+        endTimestamp = block.timestamp + schedule.nextEpochDuration;
+        schedule.currentEpochDuration = schedule.nextEpochDuration;
+        schedule.currentEmissionCurve = schedule.nextEmissionCurve;
+        schedule.epochRewards = reward;
+        schedule.unpaidRewards += reward;
 
         emit Funding(reward, endTimestamp);
     }
 
+    /**
+     * @dev Start every scheduled epoch whose start time has passed, in order. Each
+     *      epoch before it is settled up to its end first, so their rates never mix.
+     */
+    function _activateScheduledEpochs() internal {
+        uint256 i = schedule.nextScheduledEpoch;
+
+        for (; i < schedule.scheduledEpochs.length; i++) {
+            ScheduledEpoch memory epoch = schedule.scheduledEpochs[i];
+            if (epoch.startTimestamp > block.timestamp) break;
+
+            (rewardPerTokenStored, ) = _epochRewardPerToken(
+                rewardPerTokenStored,
+                lastAccountingTimestamp,
+                _currentEpoch()
+            );
+
+            rewardRate = epoch.amount / epoch.duration;
+            endTimestamp = epoch.startTimestamp + epoch.duration;
+            schedule.currentEpochDuration = epoch.duration;
+            schedule.currentEmissionCurve = epoch.curve;
+            schedule.epochRewards = epoch.amount;
+            lastAccountingTimestamp = epoch.startTimestamp;
+            schedule.scheduledRewards -= epoch.amount;
+            schedule.unpaidRewards += epoch.amount;
+
+            emit Funding(epoch.amount, endTimestamp);
+        }
+
+        schedule.nextScheduledEpoch = i;
+    }
+
+    /**
+     * @dev Accrue rewards per token from 'lastTimestamp' to now, or to the end of
+     *      'epoch' if earlier, following the epoch's emission curve.
+     */
+    function _epochRewardPerToken(
+        uint256 stored,
+        uint256 lastTimestamp,
+        ScheduledEpoch memory epoch
+    ) internal view returns (uint256 newRewardPerTokenStored, uint256 latestTimestamp) {
+        uint256 end = epoch.startTimestamp + epoch.duration;
+        latestTimestamp = block.timestamp < end ? block.timestamp : end;
+
+        if (totalDeposits == 0) return (stored, latestTimestamp);
+
+        uint256 rewardsForTime = _emitted(epoch, latestTimestamp) - _emitted(epoch, lastTimestamp);
+        uint256 newRewardsPerToken = (rewardsForTime * ONE) / totalDepositsWithBoost;
+
+        newRewardPerTokenStored = stored + newRewardsPerToken;
+    }
+
+    /**
+     * @dev The current epoch, in the same form as a scheduled one.
+     */
+    function _currentEpoch() internal view returns (ScheduledEpoch memory) {
+        return
+            ScheduledEpoch({
+                startTimestamp: endTimestamp - schedule.currentEpochDuration,
+                duration: schedule.currentEpochDuration,
+                amount: schedule.epochRewards,
+                curve: schedule.currentEmissionCurve
+            });
+    }
+
+    /**
+     * @dev Rewards an epoch has emitted from its start until 'timestamp'. Flat epochs
+     *      emit 'amount / duration' per second, and other epochs follow their curve.
+     */
+    function _emitted(ScheduledEpoch memory epoch, uint256 timestamp) internal view returns (uint256) {
+        if (timestamp <= epoch.startTimestamp) return 0;
+
+        uint256 elapsed = timestamp - epoch.startTimestamp;
+        if (address(epoch.curve) == address(0)) return elapsed * (epoch.amount / epoch.duration);
+
+        return epoch.curve.emitted(epoch.amount, epoch.duration, elapsed);
+    }
+
     /**
      * @dev Update reward for a specific user stake.
      */
@@ -765,34 +1811,217 @@ contract CellarStaking is ICellarStaking, Ownable {
         UserStake storage s = stakes[user][depositId];
         if (s.amount == 0) return;
 
-        uint256 earned = _earned(s);
-        s.rewards += uint112(earned);
+        uint256 newRewards = _earned(s, rewardPerTokenStored);
+        s.rewards += uint112(newRewards);
 
         s.rewardPerTokenPaid = uint112(rewardPerTokenStored);
+        rewardTokens.updateStake(user, depositId, s.amountWithBoost);
+    }
+
+    /**
+     * @dev Fetch one of the caller's deposits, checking that it is not empty.
+     */
+    function _getStake(uint256 depositId) internal view returns (UserStake storage s) {
+        if (depositId >= stakes[msg.sender].length) revert USR_NoDeposit(depositId);
+
+        s = stakes[msg.sender][depositId];
+        if (s.amount == 0) revert USR_NoDeposit(depositId);
+    }
+
+    /**
+     * @dev Fetch one of the caller's deposits, checking that it is not empty or unbonding.
+     */
+    function _getActiveStake(uint256 depositId) internal view returns (UserStake storage s) {
+        s = _getStake(depositId);
+        if (s.unbondTimestamp > 0) revert USR_AlreadyUnbonding(depositId);
+    }
+
+    /**
+     * @dev Start a new deposit's reward token bookkeeping at the current reward per token,
+     *      so it does not earn rewards emitted before it existed.
+     */
+    function _initStakeRewards(address user, uint256 depositId) internal {
+        rewardTokens.initStake(user, depositId);
+    }
+
+    /**
+     * @dev Add new deposits to the global totals and pull their staking tokens from the
+     *      caller, making sure the contract received exactly the amount credited. Rejects
+     *      tokens which take a fee on transfer, or whose balances round on transfer, like
+     *      some rebasing tokens.
+     */
+    function _addDeposit(uint256 amount, uint256 amountWithBoost) internal {
+        totalDeposits += amount;
+        totalDepositsWithBoost += amountWithBoost;
+
+        uint256 balanceBefore = _balanceOf(stakingToken);
+
+        stakingToken.safeTransferFrom(msg.sender, address(this), amount);
+
+        if (_balanceOf(stakingToken) - balanceBefore != amount) {
+            revert STATE_AssetUsesFeeOnTransfer(address(stakingToken));
+        }
     }
 
     /**
-     * @dev Return how many rewards a stake has earned and has claimable.
+     * @dev The contract's balance of a token.
      */
-    function _earned(UserStake memory s) internal view returns (uint256) {
-        uint256 rewardPerTokenAcc = rewardPerTokenStored - s.rewardPerTokenPaid;
+    function _balanceOf(ERC20 token) internal view returns (uint256) {
+        return token.balanceOf(address(this));
+    }
+
+    /**
+     * @dev Pay out rewards in the distribution token, which are no longer owed.
+     */
+    function _payReward(address to, uint256 reward) internal {
+        schedule.unpaidRewards -= reward;
+        distributionToken.safeTransfer(to, reward);
+    }
+
+    /**
+     * @dev Return a deposit's tokens in emergency mode, keeping its rewards for
+     *      emergencyClaim if they are claimable.
+     */
+    function _emergencyUnstake(uint256 depositId, address to) internal {
+        if (claimable) _updateRewardForStake(msg.sender, depositId);
+
+        UserStake storage s = stakes[msg.sender][depositId];
+        uint256 amount = s.amount;
+
+        if (amount > 0) {
+            // Update global state
+            totalDeposits -= amount;
+            totalDepositsWithBoost -= s.amountWithBoost;
+
+            s.amount = 0;
+            s.amountWithBoost = 0;
+
+            stakingToken.safeTransfer(to, amount);
+
+            emit EmergencyUnstake(msg.sender, depositId, amount);
+        }
+    }
+
+    /**
+     * @dev Reverts unless rewards can be claimed in emergency mode.
+     */
+    function _checkEmergencyClaim() internal view {
+        if (!ended) revert STATE_NoEmergencyUnstake();
+        if (!claimable) revert STATE_NoEmergencyClaim();
+    }
+
+    /**
+     * @dev Settle a deposit's rewards in emergency mode, paying out its additional reward
+     *      tokens. Returns its distribution token rewards, which the caller pays out.
+     */
+    function _emergencyClaim(uint256 depositId, address to) internal returns (uint256 reward) {
+        _updateRewardForStake(msg.sender, depositId);
+
+        UserStake storage s = stakes[msg.sender][depositId];
+
+        reward = s.rewards;
+        s.rewards = 0;
+
+        _claimRewardTokens(msg.sender, depositId, to);
+    }
+
+    /**
+     * @dev Pay out distribution token rewards claimed in emergency mode.
+     */
+    function _payEmergencyClaim(uint256 reward, address to) internal {
+        if (reward > 0) {
+            _payReward(to, reward);
+
+            // No need for per-stake events like emergencyUnstake:
+            // don't need to make sure positions were unwound
+            emit EmergencyClaim(msg.sender, reward);
+        }
+    }
+
+    /**
+     * @dev Pay out a deposit's accumulated rewards in every additional reward token.
+     *      Rewards must already be updated for the stake.
+     */
+    function _claimRewardTokens(address user, uint256 depositId, address to) internal {
+        rewardTokens.claim(user, depositId, to);
+    }
+
+    /**
+     * @dev Whether a token has been added as an additional reward token.
+     */
+    function _isRewardToken(ERC20 token) internal view returns (bool) {
+        return rewardTokens.isRewardToken(token);
+    }
+
+    /**
+     * @dev Return how many rewards a stake has earned since its last update,
+     *      given the current reward per token.
+     */
+    function _earned(UserStake memory s, uint256 _rewardPerToken) internal pure returns (uint256) {
+        uint256 rewardPerTokenAcc = _rewardPerToken - s.rewardPerTokenPaid;
         uint256 newRewards = (s.amountWithBoost * rewardPerTokenAcc) / ONE;
 
         return newRewards;
     }
 
     /**
-     * @dev Maps Lock enum values to corresponding lengths of time and reward boosts.
+     * @dev Return a stake's stored rewards plus what _updateRewardForStake would add.
      */
-    function _getBoost(Lock _lock) internal view returns (uint256 boost, uint256 timelock) {
-        if (_lock == Lock.short) {
-            return (SHORT_BOOST, SHORT_BOOST_TIME);
-        } else if (_lock == Lock.medium) {
-            return (MEDIUM_BOOST, MEDIUM_BOOST_TIME);
-        } else if (_lock == Lock.long) {
-            return (LONG_BOOST, LONG_BOOST_TIME);
-        } else {
-            revert USR_InvalidLockValue(uint256(_lock));
-        }
+    function _pendingRewards(UserStake memory s, uint256 _rewardPerToken) internal pure returns (uint256) {
+        if (s.amount == 0) return s.rewards;
+
+        return s.rewards + uint112(_earned(s, _rewardPerToken));
+    }
+
+    /**
+     * @dev The reward per token the next claim would settle against. Accounting
+     *      is frozen once the contract is stopped.
+     */
+    function _claimableRewardPerToken() internal view returns (uint256 _rewardPerToken) {
+        if (ended) return rewardPerTokenStored;
+
+        (_rewardPerToken, ) = rewardPerToken();
+    }
+
+    /**
+     * @dev Maps lock tier IDs to corresponding lengths of time and reward boosts.
+     *      Retired tiers still resolve, so existing deposits keep their terms.
+     */
+    function _getBoost(uint256 _lock) internal view returns (uint256 boost, uint256 timelock) {
+        if (_lock >= lockTiers.length) revert USR_InvalidLockValue(_lock);
+
+        LockTier storage tier = lockTiers[_lock];
+        return (tier.boost, tier.lockDuration);
+    }
+
+    /**
+     * @dev Returns an amount plus the boost of a lock tier.
+     */
+    function _withBoost(uint256 amount, uint256 lock) internal view returns (uint256) {
+        (uint256 boost, ) = _getBoost(lock);
+        return amount + ((amount * boost) / ONE);
+    }
+
+    /**
+     * @dev Adds tokens to a deposit and recomputes its boosted amount from the new total,
+     *      so it always equals the boost of the whole deposit. Returns the increase in
+     *      the boosted amount, to be added to totalDepositsWithBoost.
+     */
+    function _growStake(UserStake storage s, uint256 amount) internal returns (uint256 addedWithBoost) {
+        uint256 amountWithBoost = _withBoost(s.amount + amount, s.lock);
+        addedWithBoost = amountWithBoost - s.amountWithBoost;
+
+        s.amount += uint112(amount);
+        s.amountWithBoost = uint112(amountWithBoost);
+    }
+
+    /**
+     * @dev Appends a new, active lock tier.
+     */
+    function _addLockTier(uint256 boost, uint256 lockDuration) internal returns (uint256 tierId) {
+        tierId = lockTiers.length;
+        lockTiers.push(LockTier({ boost: boost, lockDuration: lockDuration, active: true }));
+
+        emit LockTierAdded(tierId, boost, lockDuration);
     }
 }
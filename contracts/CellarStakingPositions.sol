@@ -0,0 +1,299 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity 0.8.15;
+
+import { ERC20 } from "solmate/src/tokens/ERC20.sol";
+import { ERC721 } from "solmate/src/tokens/ERC721.sol";
+import { SafeTransferLib } from "solmate/src/utils/SafeTransferLib.sol";
+import { CellarStaking } from "./CellarStaking.sol";
+import { ICellarStaking } from "./interfaces/ICellarStaking.sol";
+
+import "./Errors.sol";
+
+/**
+ * @title Sommelier Staking Positions
+ *
+ * Transferable CellarStaking deposits, represented as ERC-721 tokens.
+ *
+ * The positions contract stakes on behalf of its users with 'stakeFor', so every
+ * position is a deposit the contract itself holds in CellarStaking. A position's
+ * token ID is that deposit's ID, which never changes, and the token's owner controls
+ * the deposit: they may unbond, cancel unbonding, relock, claim and unstake it, and
+ * rewards and unstaked tokens are always sent to them.
+ *
+ * When a position is transferred, its pending rewards (including additional reward
+ * tokens) are settled to the previous owner, so the new owner only earns rewards
+ * from the time of transfer. Transfers therefore revert while the staking contract
+ * is paused or in emergency mode.
+ *
+ * In emergency mode, each position's owner withdraws it with 'emergencyUnstake',
+ * which also pays out its claimable rewards, and may claim rewards before that
+ * with 'emergencyClaim'.
+ *
+ * Deposits made in CellarStaking directly are not affected, and cannot be wrapped.
+ * Do not 'stakeFor' this contract directly: such deposits have no token, and cannot
+ * be withdrawn.
+ */
+contract CellarStakingPositions is ERC721 {
+    using SafeTransferLib for ERC20;
+
+    // ============================================ STATE ==============================================
+
+    CellarStaking public immutable STAKING;
+    ERC20 public immutable STAKING_TOKEN;
+
+    /// @notice owner => token IDs of all positions they hold
+    mapping(address => uint256[]) private ownedPositions;
+
+    /// @notice token ID => index of the token in its owner's ownedPositions
+    mapping(uint256 => uint256) private ownedPositionIndex;
+
+    // ========================================== CONSTRUCTOR ===========================================
+
+    /**
+     * @param _staking              The staking contract to hold positions in.
+     * @param _name                 The name of the position token.
+     * @param _symbol               The symbol of the position token.
+     */
+    constructor(CellarStaking _staking, string memory _name, string memory _symbol) ERC721(_name, _symbol) {
+        STAKING = _staking;
+        STAKING_TOKEN = _staking.stakingToken();
+
+        STAKING_TOKEN.safeApprove(address(_staking), type(uint256).max);
+    }
+
+    // ====================================== POSITION OPERATIONS =======================================
+
+    /**
+     * @notice  Make a new deposit, minting a position token to the caller.
+     * @dev     Specified amount of stakingToken must be approved for withdrawal by the caller.
+     *
+     * @param amount                The amount of the stakingToken to stake.
+     * @param lock                  The lock tier to stake with.
+     *
+     * @return tokenId              The ID of the new position.
+     */
+    function stake(uint256 amount, uint256 lock) external returns (uint256 tokenId) {
+        STAKING_TOKEN.safeTransferFrom(msg.sender, address(this), amount);
+
+        tokenId = STAKING.stakeFor(address(this), amount, lock);
+
+        _mint(msg.sender, tokenId);
+        _addPosition(msg.sender, tokenId);
+    }
+
+    /**
+     * @notice  Add tokens to a position's deposit.
+     * @dev     Specified amount of stakingToken must be approved for withdrawal by the caller.
+     *
+     * @param tokenId               The position to add to.
+     * @param amount                The amount of the stakingToken to add.
+     */
+    function increaseStake(uint256 tokenId, uint256 amount) external onlyAuthorized(tokenId) {
+        STAKING_TOKEN.safeTransferFrom(msg.sender, address(this), amount);
+
+        STAKING.increaseStake(tokenId, amount);
+    }
+
+    /**
+     * @notice  Start unbonding a position.
+     *
+     * @param tokenId               The position to unbond.
+     */
+    function unbond(uint256 tokenId) external onlyAuthorized(tokenId) {
+        STAKING.unbond(tokenId);
+    }
+
+    /**
+     * @notice  Cancel unbonding for a position, reinstating its boost.
+     *
+     * @param tokenId               The position to cancel unbonding for.
+     */
+    function cancelUnbonding(uint256 tokenId) external onlyAuthorized(tokenId) {
+        STAKING.cancelUnbonding(tokenId);
+    }
+
+    /**
+     * @notice  Move a position to a lock tier with an equal or longer lock duration,
+     *          cancelling any in-progress unbonding.
+     *
+     * @param tokenId               The position to relock.
+     * @param newLock               The lock tier to move the position to.
+     */
+    function relock(uint256 tokenId, uint256 newLock) external onlyAuthorized(tokenId) {
+        STAKING.relock(tokenId, newLock);
+    }
+
+    /**
+     * @notice  Claim a position's rewards, sending them to its owner.
+     *
+     * @param tokenId               The position to claim rewards for.
+     *
+     * @return reward               The amount of accumulated rewards since the last reward claim.
+     */
+    function claim(uint256 tokenId) external onlyAuthorized(tokenId) returns (uint256 reward) {
+        return STAKING.claimTo(tokenId, ownerOf(tokenId));
+    }
+
+    /**
+     * @notice  Unstake an unbonded position, sending its tokens and rewards to its
+     *          owner and burning the position token.
+     *
+     * @param tokenId               The position to unstake.
+     *
+     * @return reward               The amount of accumulated rewards since the last reward claim.
+     */
+    function unstake(uint256 tokenId) external onlyAuthorized(tokenId) returns (uint256 reward) {
+        address owner = ownerOf(tokenId);
+
+        reward = STAKING.unstakeTo(tokenId, owner);
+
+        _removePosition(owner, tokenId);
+        _burn(tokenId);
+    }
+
+    /**
+     * @notice  In emergency mode, unstake a position without waiting for its lock, sending
+     *          its tokens and any claimable rewards to its owner and burning the position token.
+     *
+     * @param tokenId               The position to unstake.
+     */
+    function emergencyUnstake(uint256 tokenId) external onlyAuthorized(tokenId) {
+        address owner = ownerOf(tokenId);
+
+        // Rewards cannot be claimed once the token is burned
+        if (STAKING.claimable()) STAKING.emergencyClaimTo(tokenId, owner);
+        STAKING.emergencyUnstakeTo(tokenId, owner);
+
+        _removePosition(owner, tokenId);
+        _burn(tokenId);
+    }
+
+    /**
+     * @notice  In emergency mode, claim a position's accumulated rewards, sending them to its owner.
+     *
+     * @param tokenId               The position to claim rewards for.
+     *
+     * @return reward               The amount of accumulated rewards.
+     */
+    function emergencyClaim(uint256 tokenId) external onlyAuthorized(tokenId) returns (uint256 reward) {
+        return STAKING.emergencyClaimTo(tokenId, ownerOf(tokenId));
+    }
+
+    /**
+     * @notice  Transfer a position, settling its pending rewards to the previous owner.
+     * @dev     Also used by both safeTransferFrom variants.
+     */
+    function transferFrom(address from, address to, uint256 tokenId) public override {
+        // Checks ownership and approval before anything is paid out
+        super.transferFrom(from, to, tokenId);
+
+        STAKING.claimTo(tokenId, from);
+
+        _removePosition(from, tokenId);
+        _addPosition(to, tokenId);
+    }
+
+    // ======================================= STATE INFORMATION =======================================
+
+    /**
+     * @notice  Gets the token IDs of all positions an address holds.
+     *
+     * @param owner                 The owner of the positions.
+     *
+     * @return tokenIds             The token IDs, in no particular order.
+     */
+    function getPositions(address owner) public view returns (uint256[] memory) {
+        return ownedPositions[owner];
+    }
+
+    /**
+     * @notice  Gets the deposits underlying all positions an address holds.
+     *          Mirrors CellarStaking.getUserStakes.
+     *
+     * @param owner                 The owner of the positions.
+     *
+     * @return tokenIds             The token IDs of the positions.
+     * @return stakes               The deposit for each token ID, in the same order.
+     */
+    function getOwnerStakes(
+        address owner
+    ) public view returns (uint256[] memory tokenIds, ICellarStaking.UserStake[] memory stakes) {
+        tokenIds = ownedPositions[owner];
+        stakes = new ICellarStaking.UserStake[](tokenIds.length);
+
+        for (uint256 i = 0; i < tokenIds.length; i++) {
+            (
+                uint112 amount,
+                uint112 amountWithBoost,
+                uint32 unbondTimestamp,
+                uint112 rewardPerTokenPaid,
+                uint112 rewards,
+                uint32 lock
+            ) = STAKING.stakes(address(this), tokenIds[i]);
+
+            stakes[i] = ICellarStaking.UserStake({
+                amount: amount,
+                amountWithBoost: amountWithBoost,
+                unbondTimestamp: unbondTimestamp,
+                rewardPerTokenPaid: rewardPerTokenPaid,
+                rewards: rewards,
+                lock: lock
+            });
+        }
+    }
+
+    /**
+     * @notice  Returns the rewards the owner of a position would receive if it were claimed now.
+     *
+     * @param tokenId               The position to check.
+     *
+     * @return reward               The claimable rewards for the position.
+     */
+    function earned(uint256 tokenId) public view returns (uint256 reward) {
+        return STAKING.earned(address(this), tokenId);
+    }
+
+    /**
+     * @dev Positions carry no metadata.
+     */
+    function tokenURI(uint256) public pure override returns (string memory) {
+        return "";
+    }
+
+    // ============================================ HELPERS ============================================
+
+    /**
+     * @dev Blocks calls unless made by the owner of a position, or an address they approved.
+     */
+    modifier onlyAuthorized(uint256 tokenId) {
+        address owner = ownerOf(tokenId);
+
+        if (msg.sender != owner && !isApprovedForAll[owner][msg.sender] && msg.sender != getApproved[tokenId]) {
+            revert USR_NotPositionOwner(tokenId, msg.sender);
+        }
+        _;
+    }
+
+    /**
+     * @dev Adds a token to its owner's list of positions.
+     */
+    function _addPosition(address owner, uint256 tokenId) internal {
+        ownedPositionIndex[tokenId] = ownedPositions[owner].length;
+        ownedPositions[owner].push(tokenId);
+    }
+
+    /**
+     * @dev Removes a token from its owner's list of positions, by swapping in the last one.
+     */
+    function _removePosition(address owner, uint256 tokenId) internal {
+        uint256[] storage positions = ownedPositions[owner];
+        uint256 index = ownedPositionIndex[tokenId];
+        uint256 last = positions[positions.length - 1];
+
+        positions[index] = last;
+        ownedPositionIndex[last] = index;
+        positions.pop();
+
+        delete ownedPositionIndex[tokenId];
+    }
+}
@@ -76,6 +76,11 @@ error USR_TooManyDecimals(uint8 newDecimals, uint8 maxDecimals);
  */
 error USR_ZeroDeposit();
 
+/**
+ * @notice The caller provided the zero address as a beneficiary or recipient.
+ */
+error USR_ZeroAddress();
+
 /**
  * @notice User attempted to stake an amount smaller than the minimum deposit.
  *
@@ -105,6 +110,23 @@ error USR_NotUnbonding(uint256 depositId);
  */
 error USR_AlreadyUnbonding(uint256 depositId);
 
+/**
+ * @notice The user attempted to merge a deposit into itself, or to merge the
+ *         same deposit twice.
+ *
+ * @param depositId             The repeated deposit ID.
+ */
+error USR_DuplicateDeposit(uint256 depositId);
+
+/**
+ * @notice The user attempted to merge deposits with different lock tiers.
+ *
+ * @param depositId             The deposit ID with a different lock tier.
+ * @param lock                  The deposit's lock tier.
+ * @param expectedLock          The lock tier of the deposit being merged into.
+ */
+error USR_LockMismatch(uint256 depositId, uint256 lock, uint256 expectedLock);
+
 /**
  * @notice The user is attempting to unstake a deposit which is still timelocked.
  *
@@ -112,11 +134,35 @@ error USR_AlreadyUnbonding(uint256 depositId);
  */
 error USR_StakeLocked(uint256 depositId);
 
+/**
+ * @notice The user is attempting to unbond or unstake more than a deposit holds.
+ *
+ * @param depositId             The deposit ID the user attempted to split.
+ * @param amount                The amount the user attempted to unbond or unstake.
+ * @param depositAmount         The amount held by the deposit.
+ */
+error USR_InsufficientDeposit(uint256 depositId, uint256 amount, uint256 depositAmount);
+
 /**
  * @notice The contract owner attempted to update rewards but the new reward rate would cause overflow.
  */
 error USR_RewardTooLarge();
 
+/**
+ * @notice The contract owner attempted to add a reward token that is the staking token,
+ *         the distribution token, or has already been added.
+ *
+ * @param token                 The reward token the owner attempted to add.
+ */
+error USR_InvalidRewardToken(address token);
+
+/**
+ * @notice The specified token is not one of the contract's additional reward tokens.
+ *
+ * @param token                 The token provided for lookup.
+ */
+error USR_UnknownRewardToken(address token);
+
 /**
  * @notice The reward distributor attempted to update rewards but 0 rewards per epoch.
  *         This can also happen if there is less than 1 wei of rewards per second of the
@@ -124,6 +170,21 @@ error USR_RewardTooLarge();
  */
 error USR_ZeroRewardsPerEpoch();
 
+/**
+ * @notice The owner attempted to schedule an epoch which would overlap the
+ *         current epoch or a previously scheduled one.
+ *
+ * @param startTimestamp        The provided start time.
+ * @param earliestStart         The earliest time the epoch could start.
+ */
+error USR_EpochOverlap(uint256 startTimestamp, uint256 earliestStart);
+
+/**
+ * @notice An emission curve was deployed with parameters that would not emit
+ *         rewards at a non-increasing rate.
+ */
+error USR_InvalidEmissionCurve();
+
 /**
  * @notice The caller attempted to stake with a lock value that did not
  *         correspond to a valid staking time.
@@ -132,6 +193,32 @@ error USR_ZeroRewardsPerEpoch();
  */
 error USR_InvalidLockValue(uint256 lock);
 
+/**
+ * @notice The caller attempted to stake with, or retire, a lock tier that
+ *         has already been retired.
+ *
+ * @param lock                  The provided lock value.
+ */
+error USR_LockTierRetired(uint256 lock);
+
+/**
+ * @notice The caller attempted to relock a deposit into a lock tier with a
+ *         shorter lock duration than its current tier.
+ *
+ * @param lock                  The deposit's current lock tier.
+ * @param newLock               The provided lock tier.
+ */
+error USR_LockTooShort(uint256 lock, uint256 newLock);
+
+/**
+ * @notice The number of boosts and lock times provided for the initial
+ *         lock tiers did not match.
+ *
+ * @param boosts                The number of boosts provided.
+ * @param lockTimes             The number of lock times provided.
+ */
+error USR_LockTierMismatch(uint256 boosts, uint256 lockTimes);
+
 /**
  * @notice The caller attempted an signed action with an invalid signature.
  * @param signatureLength length of the signature passed in
@@ -144,6 +231,38 @@ error USR_InvalidSignature(uint256 signatureLength, uint256 expectedSignatureLen
  */
 error USR_NotCustodian();
 
+/**
+ * @notice The caller attempted to act on a user's deposits without being
+ *         the user or an operator the user approved.
+ *
+ * @param user                  The owner of the deposits.
+ * @param caller                The address that attempted the action.
+ */
+error USR_NotOperator(address user, address caller);
+
+/**
+ * @notice The caller attempted to act on a staking position without owning
+ *         it or being approved for it.
+ *
+ * @param tokenId               The position token.
+ * @param caller                The address that attempted the action.
+ */
+error USR_NotPositionOwner(uint256 tokenId, address caller);
+
+/**
+ * @notice The caller attempted to fund rewards without being the funder.
+ *
+ * @param caller                The address that attempted the action.
+ */
+error USR_NotFunder(address caller);
+
+/**
+ * @notice The caller attempted to pause the contract without being the guardian
+ *         or the owner.
+ *
+ * @param caller                The address that attempted the action.
+ */
+error USR_NotGuardian(address caller);
 
 // ========================================== STATE ERRORS ===========================================
 
@@ -198,6 +317,29 @@ error STATE_RewardsReady();
  */
 error STATE_NoRewardsLeft();
 
+/**
+ * @notice The owner attempted to notify a new reward amount while future epochs
+ *         are scheduled.
+ */
+error STATE_EpochsScheduled();
+
+/**
+ * @notice The contract owner attempted to add a reward token, but the maximum number
+ *         of reward tokens has been reached.
+ *
+ * @param maxRewardTokens       The maximum number of additional reward tokens.
+ */
+error STATE_TooManyRewardTokens(uint256 maxRewardTokens);
+
+/**
+ * @notice The caller attempted to compound rewards, but the contract distributes
+ *         rewards in a different token than it accepts for staking.
+ *
+ * @param stakingToken          The token users deposit to stake.
+ * @param distributionToken     The token the contract distributes as rewards.
+ */
+error STATE_CompoundingUnsupported(address stakingToken, address distributionToken);
+
 /**
  * @notice The caller attempted to perform an an emergency unstake, but the contract
  *         is not in emergency mode.
@@ -0,0 +1,50 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity 0.8.15;
+
+import { IEmissionCurve } from "../interfaces/IEmissionCurve.sol";
+
+import "../Errors.sol";
+
+/**
+ * @title Sommelier Linear Decay Curve
+ *
+ * @notice Emissions which fall linearly over an epoch, from their highest rate at
+ *         the start to 'END_RATIO' of that rate at the end. An end ratio of zero
+ *         emits 75% of the epoch's rewards in its first half; an end ratio of
+ *         ONE is a flat rate.
+ */
+contract LinearDecayCurve is IEmissionCurve {
+    uint256 public constant ONE = 1e18;
+
+    /// @notice The rate at the end of an epoch, as a fraction of the rate at its start.
+    uint256 public immutable END_RATIO;
+
+    /**
+     * @param _endRatio             The end rate as a fraction of the start rate, scaled by ONE.
+     */
+    constructor(uint256 _endRatio) {
+        if (_endRatio > ONE) revert USR_InvalidEmissionCurve();
+
+        END_RATIO = _endRatio;
+    }
+
+    /**
+     * @notice Returns the rewards emitted from the start of an epoch until 'elapsed' seconds into it.
+     * @dev    With start rate r and end ratio e, the rate at time t is r * (1 - (1 - e) * t / d),
+     *         which integrates to amount * t * (2d - (1 - e) * t) / (d^2 * (1 + e)).
+     *         At t = d the numerator is an exact multiple of the denominator.
+     *
+     * @param amount                The rewards funded for the epoch.
+     * @param duration              The length of the epoch.
+     * @param elapsed               Seconds since the epoch started.
+     *
+     * @return                      The cumulative rewards emitted.
+     */
+    function emitted(uint256 amount, uint256 duration, uint256 elapsed) external view override returns (uint256) {
+        if (elapsed >= duration) return amount;
+
+        uint256 numerator = amount * elapsed * (2 * duration * ONE - (ONE - END_RATIO) * elapsed);
+
+        return numerator / (duration * duration * (ONE + END_RATIO));
+    }
+}
@@ -0,0 +1,78 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity 0.8.15;
+
+import { IEmissionCurve } from "../interfaces/IEmissionCurve.sol";
+
+import "../Errors.sol";
+
+/**
+ * @title Sommelier Step Decay Curve
+ *
+ * @notice Emissions which fall in steps. An epoch is split into equal-length
+ *         steps, and each step's share of the rewards is proportional to its
+ *         weight. Weights may not increase from one step to the next.
+ *         For example, weights [4, 3, 2, 1] over a four week epoch emit
+ *         40% of the rewards in the first week and 10% in the last.
+ */
+contract StepDecayCurve is IEmissionCurve {
+    /// @notice The weight of each step.
+    uint256[] public weights;
+
+    /// @notice The sum of the weights of all steps before each step.
+    uint256[] private weightsBefore;
+
+    /// @notice The sum of all weights.
+    uint256 public immutable TOTAL_WEIGHT;
+
+    /**
+     * @param _weights              The weight of each step, in order. Must be non-increasing.
+     */
+    constructor(uint256[] memory _weights) {
+        if (_weights.length == 0) revert USR_InvalidEmissionCurve();
+
+        uint256 total;
+        for (uint256 i = 0; i < _weights.length; i++) {
+            if (i > 0 && _weights[i] > _weights[i - 1]) revert USR_InvalidEmissionCurve();
+
+            weightsBefore.push(total);
+            total += _weights[i];
+        }
+        if (total == 0) revert USR_InvalidEmissionCurve();
+
+        weights = _weights;
+        TOTAL_WEIGHT = total;
+    }
+
+    /**
+     * @notice Returns the rewards emitted from the start of an epoch until 'elapsed' seconds into it.
+     * @dev    Measured in units of duration / steps, 'elapsed * steps' falls in step
+     *         'elapsed * steps / duration'. Emissions are linear within a step.
+     *
+     * @param amount                The rewards funded for the epoch.
+     * @param duration              The length of the epoch.
+     * @param elapsed               Seconds since the epoch started.
+     *
+     * @return                      The cumulative rewards emitted.
+     */
+    function emitted(uint256 amount, uint256 duration, uint256 elapsed) external view override returns (uint256) {
+        if (elapsed >= duration) return amount;
+
+        uint256 position = elapsed * weights.length;
+        uint256 step = position / duration;
+        uint256 intoStep = position - step * duration;
+
+        // Weighted time emitted so far, in units of 1 / duration of a step
+        uint256 weighted = weightsBefore[step] * duration + weights[step] * intoStep;
+
+        return (amount * weighted) / (TOTAL_WEIGHT * duration);
+    }
+
+    /**
+     * @notice Gets the weight of every step.
+     *
+     * @return                      The weights, in order.
+     */
+    function getWeights() external view returns (uint256[] memory) {
+        return weights;
+    }
+}
@@ -2,6 +2,7 @@
 pragma solidity 0.8.15;
 
 import { ERC20 } from "solmate/src/tokens/ERC20.sol";
+import { IEmissionCurve } from "./IEmissionCurve.sol";
 
 /**
  * @title Sommelier Staking Interface
@@ -13,22 +14,59 @@ interface ICellarStaking {
     // ===================== Events =======================
 
     event Funding(uint256 rewardAmount, uint256 rewardEnd);
-    event Stake(address indexed user, uint256 depositId, uint256 amount);
+    event Stake(address indexed user, uint256 depositId, uint256 amount, address indexed sender);
     event Unbond(address indexed user, uint256 depositId, uint256 amount);
+    event Split(address indexed user, uint256 depositId, uint256 newDepositId, uint256 amount);
     event CancelUnbond(address indexed user, uint256 depositId);
-    event Unstake(address indexed user, uint256 depositId, uint256 amount, uint256 reward);
-    event Claim(address indexed user, uint256 depositId, uint256 amount);
+    event Unstake(address indexed user, uint256 depositId, uint256 amount, uint256 reward, address indexed to);
+    event PartialUnstake(address indexed user, uint256 depositId, uint256 amount, uint256 reward, address indexed to);
+    event Claim(address indexed user, uint256 depositId, uint256 amount, address indexed to);
+    event Compound(address indexed user, uint256 depositId, uint256 amount);
+    event Relock(address indexed user, uint256 depositId, uint256 oldLock, uint256 newLock);
+    event IncreaseStake(address indexed user, uint256 depositId, uint256 amount);
+    event Merge(address indexed user, uint256 depositId, uint256 mergedDepositId, uint256 amount);
     event EmergencyStop(address owner, bool claimable);
     event EmergencyUnstake(address indexed user, uint256 depositId, uint256 amount);
     event EmergencyClaim(address indexed user, uint256 amount);
     event EpochDurationChange(uint256 duration);
+    event RewardTokenAdded(address indexed token, uint256 epochDuration);
+    event RewardTokenFunding(address indexed token, uint256 rewardAmount, uint256 rewardEnd);
+    event RewardTokenEpochDurationChange(address indexed token, uint256 duration);
+    event RewardTokenClaim(
+        address indexed user,
+        uint256 depositId,
+        address indexed token,
+        uint256 amount,
+        address indexed to
+    );
+    event LockTierAdded(uint256 indexed tierId, uint256 boost, uint256 lockDuration);
+    event LockTierRetired(uint256 indexed tierId);
+    event OperatorSet(address indexed user, address indexed operator, bool approved);
+    event EpochScheduled(
+        uint256 indexed epochId,
+        uint256 startTimestamp,
+        uint256 duration,
+        uint256 amount,
+        address curve
+    );
+    event EmissionCurveChange(address curve);
+    event Recover(address indexed token, uint256 amount, address indexed to);
+    event FunderChange(address funder);
+    event GuardianChange(address guardian);
 
     // ===================== Structs ======================
 
-    enum Lock {
-        short,
-        medium,
-        long
+    struct LockTier {
+        uint256 boost;
+        uint256 lockDuration;
+        bool active;
+    }
+
+    struct ScheduledEpoch {
+        uint256 startTimestamp;
+        uint256 duration;
+        uint256 amount;
+        IEmissionCurve curve;
     }
 
     struct UserStake {
@@ -37,7 +75,23 @@ interface ICellarStaking {
         uint32 unbondTimestamp;
         uint112 rewardPerTokenPaid;
         uint112 rewards;
-        Lock lock;
+        uint32 lock;
+    }
+
+    struct RewardSchedule {
+        uint256 currentEpochDuration;
+        uint256 nextEpochDuration;
+        uint256 rewardsReady;
+        uint256 endTimestamp;
+        uint256 rewardRate;
+        uint256 rewardPerTokenStored;
+        uint256 lastAccountingTimestamp;
+        uint256 unpaidRewards;
+    }
+
+    struct StakeRewards {
+        uint256 rewardPerTokenPaid;
+        uint256 rewards;
     }
 
     // ============== Public State Variables ==============
@@ -64,18 +118,36 @@ interface ICellarStaking {
 
     function rewardPerTokenStored() external returns (uint256);
 
+    function lastAccountingTimestamp() external returns (uint256);
+
+    function currentEmissionCurve() external returns (IEmissionCurve);
+
+    function nextEmissionCurve() external returns (IEmissionCurve);
+
+    function epochRewards() external returns (uint256);
+
     function paused() external returns (bool);
 
     function ended() external returns (bool);
 
     function claimable() external returns (bool);
 
+    function funder() external returns (address);
+
+    function guardian() external returns (address);
+
     // ================ User Functions ================
 
-    function stake(uint256 amount, Lock lock) external;
+    function stake(uint256 amount, uint256 lock) external;
+
+    function stakeWithPermit(uint256 amount, uint256 lock, uint256 deadline, uint8 v, bytes32 r, bytes32 s) external;
+
+    function stakeFor(address beneficiary, uint256 amount, uint256 lock) external returns (uint256 depositId);
 
     function unbond(uint256 depositId) external;
 
+    function unbond(uint256 depositId, uint256 amount) external;
+
     function unbondAll() external;
 
     function cancelUnbonding(uint256 depositId) external;
@@ -84,33 +156,108 @@ interface ICellarStaking {
 
     function unstake(uint256 depositId) external returns (uint256 reward);
 
+    function unstake(uint256 depositId, uint256 amount) external returns (uint256 reward);
+
+    function unstakeTo(uint256 depositId, address to) external returns (uint256 reward);
+
     function unstakeAll() external returns (uint256[] memory rewards);
 
+    function unstakeAllTo(address to) external returns (uint256[] memory rewards);
+
     function claim(uint256 depositId) external returns (uint256 reward);
 
+    function claimTo(uint256 depositId, address to) external returns (uint256 reward);
+
     function claimAll() external returns (uint256[] memory rewards);
 
+    function claimAllTo(address to) external returns (uint256[] memory rewards);
+
+    function compound(uint256 depositId) external returns (uint256 reward);
+
+    function relock(uint256 depositId, uint256 newLock) external;
+
+    function increaseStake(uint256 depositId, uint256 amount) external;
+
+    function merge(uint256 depositId, uint256[] calldata otherDepositIds) external;
+
     function emergencyUnstake() external;
 
+    function emergencyUnstakeTo(uint256 depositId, address to) external;
+
     function emergencyClaim() external;
 
+    function emergencyClaimTo(uint256 depositId, address to) external returns (uint256 reward);
+
+    // ================ Operator Functions ================
+
+    function setOperator(address operator, bool approved) external;
+
+    function claimFor(address user, uint256 depositId) external returns (uint256 reward);
+
+    function claimAllFor(address user) external returns (uint256[] memory rewards);
+
+    function unbondFor(address user, uint256 depositId) external;
+
+    function cancelUnbondingFor(address user, uint256 depositId) external;
+
     // ================ Admin Functions ================
 
     function notifyRewardAmount(uint256 reward) external;
 
     function setRewardsDuration(uint256 _epochDuration) external;
 
+    function setEmissionCurve(IEmissionCurve curve) external;
+
+    function scheduleEpoch(
+        uint256 startTimestamp,
+        uint256 duration,
+        uint256 amount,
+        IEmissionCurve curve
+    ) external returns (uint256 epochId);
+
     function setMinimumDeposit(uint256 _minimum) external;
 
     function setPaused(bool _paused) external;
 
+    function setFunder(address _funder) external;
+
+    function setGuardian(address _guardian) external;
+
     function emergencyStop(bool makeRewardsClaimable) external;
 
+    function recoverERC20(ERC20 token, uint256 amount, address to) external;
+
+    function addRewardToken(ERC20 token, uint256 epochDuration) external;
+
+    function notifyRewardTokenAmount(ERC20 token, uint256 reward) external;
+
+    function setRewardTokenDuration(ERC20 token, uint256 _epochDuration) external;
+
+    function addLockTier(uint256 boost, uint256 lockDuration) external returns (uint256 tierId);
+
+    function retireLockTier(uint256 tierId) external;
+
     // ================ View Functions ================
 
     function latestRewardsTimestamp() external view returns (uint256);
 
     function rewardPerToken() external view returns (uint256, uint256);
 
+    function remainingRewards() external view returns (uint256);
+
     function getUserStakes(address user) external view returns (UserStake[] memory);
+
+    function earned(address user, uint256 depositId) external view returns (uint256 reward);
+
+    function earnedAll(address user) external view returns (uint256 reward);
+
+    function getLockTiers() external view returns (LockTier[] memory);
+
+    function getScheduledEpochs() external view returns (ScheduledEpoch[] memory);
+
+    function getRewardTokens() external view returns (ERC20[] memory);
+
+    function rewardPerTokenFor(ERC20 token) external view returns (uint256, uint256);
+
+    function earnedFor(ERC20 token, address user, uint256 depositId) external view returns (uint256 reward);
 }
@@ -0,0 +1,24 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity 0.8.15;
+
+/**
+ * @title Sommelier Emission Curve Interface
+ *
+ * @notice The shape of a reward epoch's emissions. CellarStaking pays out the
+ *         difference in 'emitted' between two points in an epoch, so any interval
+ *         can be accounted for in closed form.
+ */
+interface IEmissionCurve {
+    /**
+     * @notice Returns the rewards emitted from the start of an epoch until 'elapsed' seconds into it.
+     * @dev    Must never decrease as 'elapsed' grows, and must return exactly 'amount' once
+     *         'elapsed' reaches 'duration', so that the epoch emits everything it was funded with.
+     *
+     * @param amount                The rewards funded for the epoch.
+     * @param duration              The length of the epoch.
+     * @param elapsed               Seconds since the epoch started.
+     *
+     * @return emitted              The cumulative rewards emitted.
+     */
+    function emitted(uint256 amount, uint256 duration, uint256 elapsed) external view returns (uint256);
+}
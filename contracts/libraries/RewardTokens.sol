@@ -0,0 +1,290 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity 0.8.15;
+
+import { ERC20 } from "solmate/src/tokens/ERC20.sol";
+import { SafeTransferLib } from "solmate/src/utils/SafeTransferLib.sol";
+import { ICellarStaking } from "../interfaces/ICellarStaking.sol";
+
+import "../Errors.sol";
+
+/**
+ * @title Sommelier Staking Reward Tokens
+ *
+ * @notice Accounting for the additional reward tokens of a staking contract. Each token
+ *         has its own schedule, which works the same as the distribution token's
+ *         Synthetix-style schedule, and each deposit keeps its own bookkeeping per token.
+ *
+ * @dev    Functions are external, so the staking contract delegatecalls them instead of
+ *         inlining them, and operate on the staking contract's storage.
+ */
+library RewardTokens {
+    using SafeTransferLib for ERC20;
+
+    uint256 private constant ONE = 1e18;
+
+    /// @notice Everything the staking contract stores for its additional reward tokens.
+    struct State {
+        // Additional reward tokens, distributed alongside distributionToken
+        ERC20[] tokens;
+        // reward token => schedule and accounting state for that token
+        mapping(ERC20 => ICellarStaking.RewardSchedule) schedules;
+        // user => deposit ID => reward token => rewards bookkeeping for that token
+        mapping(address => mapping(uint256 => mapping(ERC20 => ICellarStaking.StakeRewards))) stakeRewards;
+    }
+
+    // Emitted from the staking contract, which delegatecalls this library
+    event RewardTokenFunding(address indexed token, uint256 rewardAmount, uint256 rewardEnd);
+    event RewardTokenEpochDurationChange(address indexed token, uint256 duration);
+    event RewardTokenClaim(
+        address indexed user,
+        uint256 depositId,
+        address indexed token,
+        uint256 amount,
+        address indexed to
+    );
+
+    /**
+     * @notice Whether a token has been added as an additional reward token.
+     */
+    function isRewardToken(State storage self, ERC20 token) public view returns (bool) {
+        for (uint256 i = 0; i < self.tokens.length; i++) {
+            if (self.tokens[i] == token) return true;
+        }
+
+        return false;
+    }
+
+    /**
+     * @notice Mirrors rewardPerToken for an additional reward token's schedule.
+     *
+     * @param r                         The reward token's schedule.
+     * @param totalDepositsWithBoost    The boosted deposits rewards are shared between.
+     *
+     * @return newRewardPerTokenStored  The new rewards to distribute per token.
+     * @return latestTimestamp          The latest time to calculate.
+     */
+    function rewardPerToken(
+        ICellarStaking.RewardSchedule storage r,
+        uint256 totalDepositsWithBoost
+    ) public view returns (uint256 newRewardPerTokenStored, uint256 latestTimestamp) {
+        latestTimestamp = block.timestamp < r.endTimestamp ? block.timestamp : r.endTimestamp;
+
+        if (totalDepositsWithBoost == 0) return (r.rewardPerTokenStored, latestTimestamp);
+
+        uint256 timeElapsed = latestTimestamp - r.lastAccountingTimestamp;
+        uint256 rewardsForTime = timeElapsed * r.rewardRate;
+        uint256 newRewardsPerToken = (rewardsForTime * ONE) / totalDepositsWithBoost;
+
+        newRewardPerTokenStored = r.rewardPerTokenStored + newRewardsPerToken;
+    }
+
+    /**
+     * @notice Update reward accounting for every reward token's schedule.
+     */
+    function update(State storage self, uint256 totalDepositsWithBoost) external {
+        for (uint256 i = 0; i < self.tokens.length; i++) {
+            ICellarStaking.RewardSchedule storage r = self.schedules[self.tokens[i]];
+            (r.rewardPerTokenStored, r.lastAccountingTimestamp) = rewardPerToken(r, totalDepositsWithBoost);
+        }
+    }
+
+    /**
+     * @notice Update a deposit's rewards in every reward token. Global accounting must
+     *         already be updated.
+     *
+     * @param user                      The owner of the deposit.
+     * @param depositId                 The deposit to update.
+     * @param amountWithBoost           The deposit's boosted amount.
+     */
+    function updateStake(State storage self, address user, uint256 depositId, uint256 amountWithBoost) external {
+        for (uint256 i = 0; i < self.tokens.length; i++) {
+            ERC20 token = self.tokens[i];
+            uint256 tokenRewardPerToken = self.schedules[token].rewardPerTokenStored;
+            ICellarStaking.StakeRewards storage sr = self.stakeRewards[user][depositId][token];
+
+            sr.rewards += (amountWithBoost * (tokenRewardPerToken - sr.rewardPerTokenPaid)) / ONE;
+            sr.rewardPerTokenPaid = tokenRewardPerToken;
+        }
+    }
+
+    /**
+     * @notice Start a new deposit's bookkeeping at the current reward per token,
+     *         so it does not earn rewards emitted before it existed.
+     */
+    function initStake(State storage self, address user, uint256 depositId) external {
+        for (uint256 i = 0; i < self.tokens.length; i++) {
+            ERC20 token = self.tokens[i];
+            self.stakeRewards[user][depositId][token].rewardPerTokenPaid = self.schedules[token].rewardPerTokenStored;
+        }
+    }
+
+    /**
+     * @notice Move the rewards accumulated by one deposit into another, when merging them.
+     */
+    function merge(State storage self, address user, uint256 intoId, uint256 fromId) external {
+        for (uint256 i = 0; i < self.tokens.length; i++) {
+            ERC20 token = self.tokens[i];
+            ICellarStaking.StakeRewards storage into = self.stakeRewards[user][intoId][token];
+            ICellarStaking.StakeRewards storage from = self.stakeRewards[user][fromId][token];
+
+            into.rewards += from.rewards;
+            from.rewards = 0;
+        }
+    }
+
+    /**
+     * @notice Pay out a deposit's accumulated rewards in every reward token.
+     *         Rewards must already be updated for the stake.
+     */
+    function claim(State storage self, address user, uint256 depositId, address to) external {
+        for (uint256 i = 0; i < self.tokens.length; i++) {
+            ERC20 token = self.tokens[i];
+            ICellarStaking.StakeRewards storage sr = self.stakeRewards[user][depositId][token];
+
+            uint256 reward = sr.rewards;
+            if (reward > 0) {
+                sr.rewards = 0;
+                self.schedules[token].unpaidRewards -= reward;
+
+                token.safeTransfer(to, reward);
+
+                emit RewardTokenClaim(user, depositId, address(token), reward, to);
+            }
+        }
+    }
+
+    /**
+     * @notice Checks shared by every way of funding a reward schedule, including the
+     *         distribution token's: at least one wei per second, enough tokens held for
+     *         all pending rewards, and no overflow when computing rewardPerToken.
+     *
+     * @param token                     The token the schedule distributes.
+     * @param reward                    The rewards to distribute over the schedule.
+     * @param duration                  The length of the schedule.
+     * @param pendingRewards            Every reward the contract must hold tokens for.
+     * @param deposits                  Tokens held for stakers, which cannot fund rewards.
+     */
+    function checkFunding(
+        ERC20 token,
+        uint256 reward,
+        uint256 duration,
+        uint256 pendingRewards,
+        uint256 deposits
+    ) public view {
+        if (duration == 0 || reward < duration) revert USR_ZeroRewardsPerEpoch();
+
+        uint256 rewardBalance = token.balanceOf(address(this)) - deposits;
+        if (rewardBalance < pendingRewards) revert STATE_RewardsNotFunded(rewardBalance, pendingRewards);
+
+        // prevent overflow when computing rewardPerToken
+        if (reward / duration >= ((type(uint256).max / ONE) / duration)) revert USR_RewardTooLarge();
+    }
+
+    /**
+     * @notice Specify a new schedule for a reward token, rolling any leftover rewards
+     *         into it. Global accounting must already be updated.
+     *
+     * @param token                     The reward token to schedule.
+     * @param reward                    The amount of rewards to distribute per epoch.
+     * @param totalDeposits             The staking contract's total deposits.
+     */
+    function notify(State storage self, ERC20 token, uint256 reward, uint256 totalDeposits) external {
+        if (!isRewardToken(self, token)) revert USR_UnknownRewardToken(address(token));
+
+        ICellarStaking.RewardSchedule storage r = self.schedules[token];
+
+        // Leftover rewards move from the current epoch to the new one
+        if (block.timestamp < r.endTimestamp) {
+            uint256 remaining = r.endTimestamp - block.timestamp;
+            uint256 leftover = remaining * r.rewardRate;
+            r.unpaidRewards -= leftover;
+            reward += leftover;
+        }
+
+        // Rewards accrued but not claimed yet must stay covered too
+        checkFunding(token, reward, r.nextEpochDuration, r.unpaidRewards + reward + r.rewardsReady, 0);
+
+        if (totalDeposits == 0) {
+            // No deposits yet, so keep rewards pending until first deposit. The current
+            // epoch ends here, so its leftover is not moved again by the next call
+            r.rewardsReady += reward;
+            if (r.endTimestamp > block.timestamp) r.endTimestamp = block.timestamp;
+        } else {
+            _start(r, token, reward);
+        }
+
+        r.lastAccountingTimestamp = block.timestamp;
+    }
+
+    /**
+     * @notice Change the length of a reward epoch for future schedules of a reward token.
+     */
+    function setDuration(State storage self, ERC20 token, uint256 duration) external {
+        if (!isRewardToken(self, token)) revert USR_UnknownRewardToken(address(token));
+
+        ICellarStaking.RewardSchedule storage r = self.schedules[token];
+        if (r.rewardsReady > 0) revert STATE_RewardsReady();
+
+        r.nextEpochDuration = duration;
+        emit RewardTokenEpochDurationChange(address(token), duration);
+    }
+
+    /**
+     * @dev Start a reward token's schedule. Same as _startProgram for the distribution token.
+     */
+    function _start(ICellarStaking.RewardSchedule storage r, ERC20 token, uint256 reward) private {
+        r.rewardRate = reward / r.nextEpochDuration;
+        r.endTimestamp = block.timestamp + r.nextEpochDuration;
+        r.currentEpochDuration = r.nextEpochDuration;
+        r.unpaidRewards += reward;
+
+        emit RewardTokenFunding(address(token), reward, r.endTimestamp);
+    }
+
+    /**
+     * @notice On initial deposit, start any reward token schedules that were waiting for deposits.
+     */
+    function startAll(State storage self) external {
+        for (uint256 i = 0; i < self.tokens.length; i++) {
+            ERC20 token = self.tokens[i];
+            ICellarStaking.RewardSchedule storage r = self.schedules[token];
+
+            if (r.rewardsReady > 0) {
+                _start(r, token, r.rewardsReady);
+                r.rewardsReady = 0;
+                r.lastAccountingTimestamp = block.timestamp;
+            }
+        }
+    }
+
+    /**
+     * @notice On emergency stop, send back every reward token which will not be claimed.
+     *         If rewards stay claimable, exactly what has been emitted is kept.
+     *
+     * @param claimable                 Whether emitted rewards stay claimable.
+     * @param to                        The address to receive the returned tokens.
+     */
+    function returnUnemitted(State storage self, bool claimable, address to) external {
+        for (uint256 i = 0; i < self.tokens.length; i++) {
+            ERC20 token = self.tokens[i];
+            ICellarStaking.RewardSchedule storage r = self.schedules[token];
+
+            uint256 tokenToReturn = token.balanceOf(address(this));
+
+            if (claimable) {
+                uint256 remaining = r.endTimestamp > block.timestamp
+                    ? (r.endTimestamp - block.timestamp) * r.rewardRate
+                    : 0;
+
+                tokenToReturn = remaining + r.rewardsReady;
+                r.unpaidRewards -= remaining;
+            } else {
+                r.unpaidRewards = 0;
+            }
+
+            r.rewardsReady = 0;
+
+            token.safeTransfer(to, tokenToReturn);
+        }
+    }
+}
@@ -0,0 +1,28 @@
+// SPDX-License-Identifier: MIT
+pragma solidity >=0.8.4;
+
+import { ERC20 } from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/// @dev ERC20 which burns a fee, in basis points, from every transfer.
+contract MockFeeOnTransferERC20 is ERC20 {
+    uint256 public feeBps;
+
+    constructor(string memory _name, string memory _symbol, uint256 _feeBps) ERC20(_name, _symbol) {
+        feeBps = _feeBps;
+    }
+
+    function setFee(uint256 _feeBps) external {
+        feeBps = _feeBps;
+    }
+
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+
+    function _transfer(address from, address to, uint256 amount) internal override {
+        uint256 fee = (amount * feeBps) / 10_000;
+
+        _burn(from, fee);
+        super._transfer(from, to, amount - fee);
+    }
+}
@@ -0,0 +1,13 @@
+// SPDX-License-Identifier: MIT
+pragma solidity >=0.8.4;
+
+import { ERC20 } from "solmate/src/tokens/ERC20.sol";
+
+/// @dev Solmate ERC20, which supports EIP-2612 permit, like cellar share tokens.
+contract MockERC20Permit is ERC20 {
+    constructor(string memory _name, string memory _symbol) ERC20(_name, _symbol, 18) {}
+
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+}
@@ -0,0 +1,79 @@
+// SPDX-License-Identifier: MIT
+pragma solidity >=0.8.4;
+
+/// @dev ERC20 whose balances are shares scaled by a rebasing multiplier. Transfers
+///      move whole shares, so a transferred amount can round down at most multipliers.
+contract MockRebasingERC20 {
+    event Transfer(address indexed from, address indexed to, uint256 amount);
+    event Approval(address indexed owner, address indexed spender, uint256 amount);
+
+    uint256 private constant ONE = 1e18;
+
+    string public name;
+    string public symbol;
+    uint8 public constant decimals = 18;
+
+    uint256 public multiplier = ONE;
+    uint256 public totalShares;
+
+    mapping(address => uint256) public sharesOf;
+    mapping(address => mapping(address => uint256)) public allowance;
+
+    constructor(string memory _name, string memory _symbol) {
+        name = _name;
+        symbol = _symbol;
+    }
+
+    function totalSupply() external view returns (uint256) {
+        return (totalShares * multiplier) / ONE;
+    }
+
+    function balanceOf(address account) public view returns (uint256) {
+        return (sharesOf[account] * multiplier) / ONE;
+    }
+
+    function rebase(uint256 _multiplier) external {
+        multiplier = _multiplier;
+    }
+
+    function mint(address to, uint256 amount) external {
+        uint256 shares = (amount * ONE) / multiplier;
+
+        totalShares += shares;
+        sharesOf[to] += shares;
+
+        emit Transfer(address(0), to, amount);
+    }
+
+    function approve(address spender, uint256 amount) external returns (bool) {
+        allowance[msg.sender][spender] = amount;
+
+        emit Approval(msg.sender, spender, amount);
+
+        return true;
+    }
+
+    function transfer(address to, uint256 amount) external returns (bool) {
+        _transfer(msg.sender, to, amount);
+
+        return true;
+    }
+
+    function transferFrom(address from, address to, uint256 amount) external returns (bool) {
+        uint256 allowed = allowance[from][msg.sender];
+        if (allowed != type(uint256).max) allowance[from][msg.sender] = allowed - amount;
+
+        _transfer(from, to, amount);
+
+        return true;
+    }
+
+    function _transfer(address from, address to, uint256 amount) internal {
+        uint256 shares = (amount * ONE) / multiplier;
+
+        sharesOf[from] -= shares;
+        sharesOf[to] += shares;
+
+        emit Transfer(from, to, amount);
+    }
+}
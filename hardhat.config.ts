@@ -6,6 +6,8 @@ import "solidity-coverage";
 
 import "./tasks/accounts";
 import "./tasks/deploy";
+import "./tasks/safe";
+import "./tasks/staking";
 
 import { resolve } from "path";
 
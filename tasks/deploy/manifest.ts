@@ -0,0 +1,204 @@
+import fs from "fs-extra";
+import { resolve } from "path";
+import { BigNumber, constants, utils } from "ethers";
+
+/**
+ * A lock tier the contract is deployed with. The boost is a decimal
+ * string (e.g. "0.1" for a 10% boost), parsed to 18-decimal fixed point;
+ * the lock time is the unbonding time in seconds.
+ */
+export interface LockTierConfig {
+  boost: string;
+  lockTime: number;
+}
+
+/**
+ * A validated lock tier, in its on-chain representation.
+ */
+export interface LockTier {
+  boost: BigNumber;
+  lockTime: number;
+}
+
+/**
+ * Program parameters shared by every cellar in a manifest.
+ * Any of them may be overridden on a per-cellar basis.
+ *
+ * minimumDeposit is a decimal string in staking token units (18 decimals).
+ * funder and guardian default to the owner.
+ */
+export interface ProgramConfig {
+  owner: string;
+  funder?: string;
+  guardian?: string;
+  distributionToken: string;
+  epochDuration: number;
+  minimumDeposit: string;
+  lockTiers: LockTierConfig[];
+}
+
+export interface CellarConfig extends Partial<ProgramConfig> {
+  name: string;
+  stakingToken: string;
+}
+
+/**
+ * Shape of a deployment manifest file, as reviewed and committed
+ * under deployments/manifests/<network>.json.
+ */
+export interface DeploymentManifest extends Partial<ProgramConfig> {
+  cellars: CellarConfig[];
+}
+
+/**
+ * A single validated CellarStaking deployment, with all values
+ * resolved and converted to their on-chain representation.
+ */
+export interface StakingDeployment {
+  name: string;
+  owner: string;
+  funder: string;
+  guardian: string;
+  stakingToken: string;
+  distributionToken: string;
+  epochDuration: number;
+  minimumDeposit: BigNumber;
+  lockTiers: LockTier[];
+}
+
+export const MANIFEST_DIR = "deployments/manifests";
+
+export function defaultManifestPath(root: string, network: string): string {
+  return resolve(root, MANIFEST_DIR, `${network}.json`);
+}
+
+/**
+ * Read a deployment manifest from disk and validate every entry.
+ * Throws with a list of all problems found, so a bad manifest
+ * fails before any contract is deployed.
+ */
+export function loadManifest(path: string): StakingDeployment[] {
+  if (!fs.existsSync(path)) {
+    throw new Error(`Deployment manifest not found: ${path}`);
+  }
+
+  const manifest: DeploymentManifest = fs.readJsonSync(path);
+
+  return validateManifest(manifest);
+}
+
+export function validateManifest(manifest: DeploymentManifest): StakingDeployment[] {
+  const errors: string[] = [];
+
+  if (!Array.isArray(manifest.cellars) || manifest.cellars.length === 0) {
+    throw new Error("Invalid deployment manifest:\n  - 'cellars' must be a non-empty array");
+  }
+
+  const names = new Set<string>();
+  const deployments: StakingDeployment[] = [];
+
+  manifest.cellars.forEach((cellar, i) => {
+    const label = cellar.name ? `cellars[${i}] (${cellar.name})` : `cellars[${i}]`;
+    const fail = (msg: string) => errors.push(`${label}: ${msg}`);
+
+    if (!cellar.name) fail("missing 'name'");
+    else if (names.has(cellar.name)) fail("duplicate cellar name");
+    else names.add(cellar.name);
+
+    // Per-cellar values take precedence over manifest-wide defaults
+    const owner = cellar.owner ?? manifest.owner;
+    const funder = cellar.funder ?? manifest.funder ?? owner;
+    const guardian = cellar.guardian ?? manifest.guardian ?? owner;
+    const distributionToken = cellar.distributionToken ?? manifest.distributionToken;
+    const epochDuration = cellar.epochDuration ?? manifest.epochDuration;
+    const minimumDeposit = cellar.minimumDeposit ?? manifest.minimumDeposit ?? "0";
+    // Tiers are a list, so a cellar's tiers replace the defaults instead of merging with them
+    const lockTiers = cellar.lockTiers ?? manifest.lockTiers;
+
+    checkAddress(fail, "owner", owner);
+    checkAddress(fail, "funder", funder);
+    checkAddress(fail, "guardian", guardian);
+    checkAddress(fail, "stakingToken", cellar.stakingToken);
+    checkAddress(fail, "distributionToken", distributionToken);
+    checkDuration(fail, "epochDuration", epochDuration);
+
+    const parsedMinimum = parseDecimal(fail, "minimumDeposit", minimumDeposit);
+
+    const parsedTiers: LockTier[] = [];
+    const errorsBeforeTiers = errors.length;
+    if (!Array.isArray(lockTiers) || lockTiers.length === 0) {
+      fail("'lockTiers' must be a non-empty array");
+    } else {
+      lockTiers.forEach((tier, t) => {
+        if (typeof tier !== "object" || tier === null || Array.isArray(tier)) {
+          fail(`lockTiers[${t}] must be a { "boost", "lockTime" } pair`);
+          return;
+        }
+
+        const boost = parseDecimal(fail, `lockTiers[${t}].boost`, tier.boost);
+        checkDuration(fail, `lockTiers[${t}].lockTime`, tier.lockTime);
+
+        parsedTiers.push({ boost: boost ?? BigNumber.from(0), lockTime: tier.lockTime });
+      });
+    }
+
+    // Tiers are expected in order of lock time, so a longer lock never earns a smaller boost.
+    // Only checked once every tier is valid, so a missing value is not also reported out of order.
+    const tiersValid = errors.length === errorsBeforeTiers;
+    for (let t = 1; tiersValid && t < parsedTiers.length; t++) {
+      const [prev, next] = [parsedTiers[t - 1], parsedTiers[t]];
+
+      if (prev.lockTime > next.lockTime) fail("lockTiers must have non-decreasing lock times");
+      if (prev.boost.gt(next.boost)) fail("lockTiers must have non-decreasing boosts");
+    }
+
+    deployments.push({
+      name: cellar.name,
+      owner: owner!,
+      funder: funder!,
+      guardian: guardian!,
+      stakingToken: cellar.stakingToken,
+      distributionToken: distributionToken!,
+      epochDuration: epochDuration!,
+      minimumDeposit: parsedMinimum ?? BigNumber.from(0),
+      lockTiers: parsedTiers,
+    });
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid deployment manifest:\n  - ${errors.join("\n  - ")}`);
+  }
+
+  return deployments;
+}
+
+// ============================================ HELPERS ============================================
+
+type Fail = (msg: string) => void;
+
+function checkAddress(fail: Fail, field: string, value: string | undefined): void {
+  if (!value) fail(`missing '${field}'`);
+  else if (!utils.isAddress(value)) fail(`'${field}' is not a valid address: ${value}`);
+  else if (utils.getAddress(value) === constants.AddressZero) fail(`'${field}' must not be the zero address`);
+}
+
+function checkDuration(fail: Fail, field: string, value: number | undefined): void {
+  if (value === undefined) fail(`missing '${field}'`);
+  else if (!Number.isSafeInteger(value) || value <= 0) fail(`'${field}' must be a positive number of seconds`);
+}
+
+function parseDecimal(fail: Fail, field: string, value: string | undefined): BigNumber | undefined {
+  if (value === undefined) {
+    fail(`missing '${field}'`);
+    return;
+  }
+
+  try {
+    const parsed = utils.parseUnits(value, 18);
+    if (parsed.isNegative()) fail(`'${field}' must not be negative`);
+
+    return parsed;
+  } catch {
+    fail(`'${field}' is not a valid decimal string: ${value}`);
+  }
+}
@@ -0,0 +1,123 @@
+import fs from "fs-extra";
+import { dirname, resolve } from "path";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import type { CellarStaking } from "../../src/types/CellarStaking";
+import { StakingDeployment } from "./manifest";
+
+/**
+ * A deployed CellarStaking contract, along with the exact constructor
+ * arguments and linked library addresses it was deployed with. Token amounts are stored as base-unit
+ * strings so the file round-trips through JSON without precision loss.
+ */
+export interface RegistryEntry {
+  name: string;
+  address: string;
+  owner: string;
+  funder: string;
+  guardian: string;
+  stakingToken: string;
+  distributionToken: string;
+  epochDuration: number;
+  minimumDeposit: string;
+  lockTiers: { boost: string; lockTime: number }[];
+  txHash: string;
+  blockNumber: number;
+  deployer: string;
+  libraries: { [name: string]: string };
+}
+
+export interface DeploymentRegistry {
+  network: string;
+  chainId: number;
+  contracts: { [name: string]: RegistryEntry };
+}
+
+export const REGISTRY_DIR = "deployments/registry";
+
+export function registryPath(root: string, network: string): string {
+  return resolve(root, REGISTRY_DIR, `${network}.json`);
+}
+
+/**
+ * Load the deployment registry for a network. Returns an empty
+ * registry if nothing has been deployed to the network yet.
+ */
+export function loadRegistry(root: string, network: string, chainId: number): DeploymentRegistry {
+  const path = registryPath(root, network);
+
+  if (!fs.existsSync(path)) {
+    return { network, chainId, contracts: {} };
+  }
+
+  const registry: DeploymentRegistry = fs.readJsonSync(path);
+  if (registry.chainId !== chainId) {
+    throw new Error(`Registry ${path} is for chain ${registry.chainId}, but connected to chain ${chainId}`);
+  }
+
+  return registry;
+}
+
+export function saveRegistry(root: string, registry: DeploymentRegistry): void {
+  const path = registryPath(root, registry.network);
+
+  fs.ensureDirSync(dirname(path));
+  fs.writeJsonSync(path, registry, { spaces: 2 });
+}
+
+export function toRegistryEntry(
+  d: StakingDeployment,
+  deployment: {
+    address: string;
+    txHash: string;
+    blockNumber: number;
+    deployer: string;
+    libraries: { [name: string]: string };
+  },
+): RegistryEntry {
+  return {
+    name: d.name,
+    address: deployment.address,
+    owner: d.owner,
+    funder: d.funder,
+    guardian: d.guardian,
+    stakingToken: d.stakingToken,
+    distributionToken: d.distributionToken,
+    epochDuration: d.epochDuration,
+    minimumDeposit: d.minimumDeposit.toString(),
+    lockTiers: d.lockTiers.map(t => ({ boost: t.boost.toString(), lockTime: t.lockTime })),
+    txHash: deployment.txHash,
+    blockNumber: deployment.blockNumber,
+    deployer: deployment.deployer,
+    libraries: deployment.libraries,
+  };
+}
+
+/**
+ * Look up a staking contract address by cellar name in the registry
+ * for the connected network. Values that are already addresses are
+ * returned unchanged, so tasks can accept either form.
+ */
+export async function resolveStakingAddress(hre: HardhatRuntimeEnvironment, nameOrAddress: string): Promise<string> {
+  if (hre.ethers.utils.isAddress(nameOrAddress)) return nameOrAddress;
+
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  const registry = loadRegistry(hre.config.paths.root, hre.network.name, chainId);
+  const entry = registry.contracts[nameOrAddress];
+
+  if (!entry) {
+    throw new Error(`No CellarStaking named '${nameOrAddress}' in the ${hre.network.name} registry`);
+  }
+
+  return entry.address;
+}
+
+/**
+ * Connect to a staking contract by cellar name or address.
+ */
+export async function getStaking(hre: HardhatRuntimeEnvironment, nameOrAddress: string): Promise<CellarStaking> {
+  const address = await resolveStakingAddress(hre, nameOrAddress);
+  const [signer] = await hre.ethers.getSigners();
+
+  return <CellarStaking>await hre.ethers.getContractAt("CellarStaking", address, signer);
+}
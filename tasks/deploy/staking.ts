@@ -1,53 +1,117 @@
-import { task } from "hardhat/config";
+import { utils } from "ethers";
+import { task, types } from "hardhat/config";
 import { TaskArguments } from "hardhat/types";
 
-import { CellarStaking } from "../../src/types/CellarStaking";
-import { CellarStaking__factory } from "../../src/types/factories/CellarStaking__Factory";
+import type { CellarStaking } from "../../src/types/CellarStaking";
+import type { CellarStaking__factory } from "../../src/types/factories/CellarStaking__factory";
+import { defaultManifestPath, loadManifest, StakingDeployment } from "./manifest";
+import { loadRegistry, registryPath, saveRegistry, toRegistryEntry } from "./registry";
 
-const oneDaySec = 60 * 60 * 24;
-const oneWeekSec = oneDaySec * 7;
+task("deploy:CellarStaking", "Deploys one CellarStaking per cellar in the network's deployment manifest")
+  .addOptionalParam("manifest", "Path to the deployment manifest (default: deployments/manifests/<network>.json)")
+  .addOptionalParam("cellars", "Comma-separated subset of cellar names to deploy", undefined, types.string)
+  .addFlag("dryRun", "Validate the manifest and print the deployment plan without deploying")
+  .addFlag("force", "Redeploy cellars that already have an entry in the deployment registry")
+  .setAction(async function (args: TaskArguments, { ethers, network, config }) {
+    const manifestPath = args.manifest ?? defaultManifestPath(config.paths.root, network.name);
 
-task("deploy:CellarStaking")
-  .setAction(async function (args: TaskArguments, { ethers }) {
-    const signers = await ethers.getSigners();
-    const [deployer] = signers;
+    // Validate everything up front, so a bad entry cannot leave a launch half-deployed
+    let deployments = loadManifest(manifestPath);
+
+    if (args.cellars) {
+      const selected: string[] = args.cellars.split(",").map((c: string) => c.trim());
+      const unknown = selected.filter(name => !deployments.some(d => d.name === name));
+      if (unknown.length > 0) throw new Error(`Cellars not found in manifest: ${unknown.join(", ")}`);
+
+      deployments = deployments.filter(d => selected.includes(d.name));
+    }
+
+    const { chainId } = await ethers.provider.getNetwork();
+    const registry = loadRegistry(config.paths.root, network.name, chainId);
+
+    const existing = deployments.filter(d => registry.contracts[d.name]);
+    if (existing.length > 0 && !args.force) {
+      const list = existing.map(d => `${d.name} (${registry.contracts[d.name].address})`).join(", ");
+      throw new Error(`Already deployed on ${network.name}: ${list}. Pass --force to redeploy.`);
+    }
+
+    console.log(`Manifest: ${manifestPath} (${deployments.length} cellars)`);
+    for (const d of deployments) printDeployment(d);
+
+    if (args.dryRun) return;
+
+    const [deployer] = await ethers.getSigners();
 
     console.log("Deployer address: ", deployer.address);
     console.log("Deployer balance: ", (await deployer.getBalance()).toString());
 
-    const OPERATOR = "0x7340D1FeCD4B64A4ac34f826B21c945d44d7407F"; // multisig
-    const SOMM_TOKEN = "0xa670d7237398238DE01267472C6f13e5B8010FD1";
+    // Reward token accounting lives in an external library, which every contract in this run links
+    const library = await (await ethers.getContractFactory("RewardTokens")).deploy();
+    await library.deployed();
+    const libraries = { RewardTokens: library.address };
+
+    console.log("RewardTokens library deployed to: ", library.address);
 
-    const factory = <CellarStaking__factory>await ethers.getContractFactory("CellarStaking");
+    const factory = <CellarStaking__factory>await ethers.getContractFactory("CellarStaking", { libraries });
 
-    const tokens = [
-      // { name: "ETHBTCMOM", address: "0x6E2dAc3b9E9ADc0CbbaE2D0B9Fd81952a8D33872" }, // ETHBTCMOM
-      // { name: "ETHBTCTREND", address: "0x6b7f87279982d919Bbf85182DDeAB179B366D8f2" }, // ETHBTCTREND
-      // { name: "AAVE", address: "0x7bAD5DF5E11151Dc5Ee1a648800057C5c934c0d5" },
-      // { name: "AAVE", address: "0x7bAD5DF5E11151Dc5Ee1a648800057C5c934c0d5" },
-      { name: "STEADYETH", address: "0x3F07A84eCdf494310D397d24c1C78B041D2fa622" },
-      { name: "STEADYBTC", address: "0x4986fD36b6b16f49b43282Ee2e24C5cF90ed166d" },
-    ];
+    for (const d of deployments) {
+      // The owner starts out as funder and guardian. If anything else must be set,
+      // the deployer owns the contract until it is configured, then proposes the
+      // real owner, who must accept ownership.
+      const setMinimum = !d.minimumDeposit.isZero();
+      const setRoles = d.funder !== d.owner || d.guardian !== d.owner;
+      const configure = setMinimum || setRoles;
+      const initialOwner = configure ? deployer.address : d.owner;
 
-    for (const token of tokens) {
       const staking = <CellarStaking>await factory.deploy(
-        OPERATOR,                         // gravity (deployer for now)
-        token.address,                    // cellar lp token
-        SOMM_TOKEN,                       // SOMM ERC20 token
-        60 * 60 * 24 * 14,                // 14 days,
-        ethers.utils.parseUnits("0.1"),   // 10% short boost
-        ethers.utils.parseUnits("0.2"),   // 20%% medium boost
-        ethers.utils.parseUnits("0.25"),  // 25% long boost
-        oneDaySec * 10,                   // 10-day short locktime
-        oneDaySec * 14,                   // 14-day medium locktime
-        oneDaySec * 20,                   // 20-day long locktime
+        initialOwner,
+        d.stakingToken,
+        d.distributionToken,
+        d.epochDuration,
+        d.lockTiers.map(t => t.boost),
+        d.lockTiers.map(t => t.lockTime),
       );
 
       await staking.deployed();
+      const receipt = await staking.deployTransaction.wait();
+
+      if (configure) {
+        if (setMinimum) await (await staking.setMinimumDeposit(d.minimumDeposit)).wait();
+        await (await staking.setFunder(d.funder)).wait();
+        await (await staking.setGuardian(d.guardian)).wait();
+        await (await staking.transferOwnership(d.owner)).wait();
+      }
+
+      console.log(`CellarStaking ${d.name} deployed to: `, staking.address);
+      if (configure) console.log(`  ${d.owner} must call acceptOwnership to become the owner`);
 
-      console.log(`CellarStaking ${token.name} deployed to: `, staking.address);
+      // Save after every deployment so a failure midway keeps the completed entries
+      registry.contracts[d.name] = toRegistryEntry(d, {
+        address: staking.address,
+        txHash: receipt.transactionHash,
+        blockNumber: receipt.blockNumber,
+        deployer: deployer.address,
+        libraries,
+      });
+      saveRegistry(config.paths.root, registry);
     }
 
-    // Gravity needs to call:
-    // - notifyRewardAmount to start staking program
+    console.log(`Registry updated: ${registryPath(config.paths.root, network.name)}`);
+
+    // Funder needs to call notifyRewardAmount to start the staking program (see staking:fund)
   });
+
+function printDeployment(d: StakingDeployment): void {
+  const format = utils.formatUnits;
+
+  console.log(`- ${d.name}`);
+  console.log(`    staking token:      ${d.stakingToken}`);
+  console.log(`    distribution token: ${d.distributionToken}`);
+  console.log(`    owner:              ${d.owner}`);
+  console.log(`    funder:             ${d.funder}`);
+  console.log(`    guardian:           ${d.guardian}`);
+  console.log(`    epoch duration:     ${d.epochDuration}s`);
+  console.log(`    minimum deposit:    ${format(d.minimumDeposit)}`);
+  console.log(`    boosts:             ${d.lockTiers.map(t => format(t.boost)).join(" / ")}`);
+  console.log(`    lock times:         ${d.lockTiers.map(t => `${t.lockTime}s`).join(" / ")}`);
+}
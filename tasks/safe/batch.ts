@@ -0,0 +1,37 @@
+import fs from "fs-extra";
+import { task, types } from "hardhat/config";
+import { TaskArguments } from "hardhat/types";
+
+import { loadRegistry } from "../deploy/registry";
+import { buildSafeBatch, SafeBatchSpec } from "./transactions";
+
+task("safe:batch", "Builds a Safe Transaction Builder batch for CellarStaking admin operations, without network access")
+  .addParam("spec", "Path to the batch spec JSON file")
+  .addOptionalParam("out", "Write the batch to this file instead of printing it")
+  .addOptionalParam(
+    "chainId",
+    "Chain ID for the batch (default: the selected network's configured chain ID)",
+    undefined,
+    types.int,
+  )
+  .setAction(async function (args: TaskArguments, { config, network }) {
+    const chainId: number | undefined = args.chainId ?? network.config.chainId;
+    if (chainId === undefined) throw new Error(`No chain ID configured for ${network.name}, pass --chain-id`);
+
+    const spec: SafeBatchSpec = fs.readJsonSync(args.spec);
+
+    // Only the registry file is read: cellar names resolve without a provider
+    const registry = loadRegistry(config.paths.root, network.name, chainId);
+    const batch = await buildSafeBatch(spec, chainId, registry);
+
+    const json = JSON.stringify(batch, null, 2);
+    if (!args.out) {
+      console.log(json);
+      return;
+    }
+
+    fs.writeFileSync(args.out, json + "\n");
+    console.log(
+      `Wrote ${batch.transactions.length} transactions for Safe ${batch.meta.createdFromSafeAddress} to ${args.out}`,
+    );
+  });
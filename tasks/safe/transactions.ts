@@ -0,0 +1,221 @@
+import { BigNumber, constants, utils } from "ethers";
+
+import type { CellarStakingInterface } from "../../src/types/CellarStaking";
+import type { ERC20Interface } from "../../src/types/ERC20";
+import { DeploymentRegistry, RegistryEntry } from "../deploy/registry";
+
+/**
+ * Owner, funder and guardian operations that can be batched for a Safe.
+ * Amounts are integer strings in token base units, unless 'decimals' is
+ * given, in which case they are decimal strings in whole token units.
+ */
+export type SafeOperation =
+  | { method: "fund"; staking: string; amount: string; decimals?: number; distributionToken?: string }
+  | { method: "transfer"; staking: string; amount: string; decimals?: number; token?: string }
+  | { method: "notifyRewardAmount"; staking: string; reward: string; decimals?: number }
+  | {
+      method: "scheduleEpoch";
+      staking: string;
+      startTimestamp: number;
+      duration: number;
+      amount: string;
+      decimals?: number;
+      curve?: string;
+    }
+  | { method: "setRewardsDuration"; staking: string; duration: number }
+  | { method: "setMinimumDeposit"; staking: string; minimum: string; decimals?: number }
+  | { method: "setPaused"; staking: string; paused: boolean }
+  | { method: "emergencyStop"; staking: string; makeRewardsClaimable: boolean }
+  | { method: "setFunder"; staking: string; funder: string }
+  | { method: "setGuardian"; staking: string; guardian: string }
+  | { method: "transferOwnership"; staking: string; newOwner: string }
+  | { method: "acceptOwnership"; staking: string };
+
+export interface SafeBatchSpec {
+  safe: string;
+  name?: string;
+  description?: string;
+  operations: SafeOperation[];
+}
+
+export interface SafeTransaction {
+  to: string;
+  value: string;
+  data: string;
+  contractMethod: null;
+  contractInputsValues: null;
+}
+
+/**
+ * A transaction batch in the Safe Transaction Builder import format.
+ */
+export interface SafeBatch {
+  version: string;
+  chainId: string;
+  createdAt: number;
+  meta: {
+    name: string;
+    description: string;
+    txBuilderVersion: string;
+    createdFromSafeAddress: string;
+    createdFromOwnerAddress: string;
+  };
+  transactions: SafeTransaction[];
+}
+
+interface Interfaces {
+  staking: CellarStakingInterface;
+  erc20: ERC20Interface;
+}
+
+/**
+ * Encode every operation in a batch spec into Safe transactions.
+ * Runs entirely offline: staking contracts given by cellar name, and the
+ * distribution token used for funding, are resolved from the registry file.
+ */
+export async function buildSafeBatch(
+  spec: SafeBatchSpec,
+  chainId: number,
+  registry?: DeploymentRegistry,
+): Promise<SafeBatch> {
+  if (!utils.isAddress(spec.safe)) throw new Error(`Invalid Safe address: ${spec.safe}`);
+  if (!Array.isArray(spec.operations) || spec.operations.length === 0) {
+    throw new Error("Batch spec must contain at least one operation");
+  }
+
+  const interfaces = await loadInterfaces();
+  const transactions = spec.operations.flatMap((op, i) => {
+    try {
+      return encodeOperation(op, interfaces, registry);
+    } catch (e) {
+      throw new Error(`operations[${i}] (${op.method}): ${(e as Error).message}`);
+    }
+  });
+
+  return {
+    version: "1.0",
+    chainId: chainId.toString(),
+    createdAt: Date.now(),
+    meta: {
+      name: spec.name ?? "CellarStaking operations",
+      description: spec.description ?? summarize(spec.operations),
+      txBuilderVersion: "1.16.5",
+      createdFromSafeAddress: utils.getAddress(spec.safe),
+      createdFromOwnerAddress: "",
+    },
+    transactions,
+  };
+}
+
+function encodeOperation(op: SafeOperation, interfaces: Interfaces, registry?: DeploymentRegistry): SafeTransaction[] {
+  const { staking: stakingInterface, erc20: erc20Interface } = interfaces;
+  const staking = resolveAddress(op.staking, registry);
+  const call = (data: string, to = staking) => toTransaction(to, data);
+
+  switch (op.method) {
+    case "fund": {
+      const token = op.distributionToken ?? lookup(op.staking, registry)?.distributionToken;
+      if (!token) throw new Error("'distributionToken' is required when staking is not in the registry");
+
+      const amount = parseAmount(op.amount, op.decimals);
+      return [
+        call(erc20Interface.encodeFunctionData("transfer", [staking, amount]), resolveAddress(token)),
+        call(stakingInterface.encodeFunctionData("notifyRewardAmount", [amount])),
+      ];
+    }
+    case "transfer": {
+      const token = op.token ?? lookup(op.staking, registry)?.distributionToken;
+      if (!token) throw new Error("'token' is required when staking is not in the registry");
+
+      const amount = parseAmount(op.amount, op.decimals);
+      return [call(erc20Interface.encodeFunctionData("transfer", [staking, amount]), resolveAddress(token))];
+    }
+    case "notifyRewardAmount":
+      return [call(stakingInterface.encodeFunctionData("notifyRewardAmount", [parseAmount(op.reward, op.decimals)]))];
+    case "scheduleEpoch": {
+      if (!Number.isSafeInteger(op.startTimestamp) || op.startTimestamp <= 0) {
+        throw new Error("'startTimestamp' must be positive");
+      }
+      if (!Number.isSafeInteger(op.duration) || op.duration <= 0) throw new Error("'duration' must be positive");
+
+      const amount = parseAmount(op.amount, op.decimals);
+      const curve = op.curve === undefined ? constants.AddressZero : checkAddress("curve", op.curve);
+      return [
+        call(stakingInterface.encodeFunctionData("scheduleEpoch", [op.startTimestamp, op.duration, amount, curve])),
+      ];
+    }
+    case "setRewardsDuration":
+      if (!Number.isSafeInteger(op.duration) || op.duration <= 0) throw new Error("'duration' must be positive");
+      return [call(stakingInterface.encodeFunctionData("setRewardsDuration", [op.duration]))];
+    case "setMinimumDeposit":
+      return [call(stakingInterface.encodeFunctionData("setMinimumDeposit", [parseAmount(op.minimum, op.decimals)]))];
+    case "setPaused":
+      if (typeof op.paused !== "boolean") throw new Error("'paused' must be a boolean");
+      return [call(stakingInterface.encodeFunctionData("setPaused", [op.paused]))];
+    case "emergencyStop":
+      if (typeof op.makeRewardsClaimable !== "boolean") throw new Error("'makeRewardsClaimable' must be a boolean");
+      return [call(stakingInterface.encodeFunctionData("emergencyStop", [op.makeRewardsClaimable]))];
+    case "setFunder":
+      return [call(stakingInterface.encodeFunctionData("setFunder", [checkAddress("funder", op.funder)]))];
+    case "setGuardian":
+      return [call(stakingInterface.encodeFunctionData("setGuardian", [checkAddress("guardian", op.guardian)]))];
+    case "transferOwnership":
+      return [call(stakingInterface.encodeFunctionData("transferOwnership", [checkAddress("newOwner", op.newOwner)]))];
+    case "acceptOwnership":
+      return [call(stakingInterface.encodeFunctionData("acceptOwnership"))];
+    default:
+      throw new Error(`Unsupported method: ${(op as { method: string }).method}`);
+  }
+}
+
+// ============================================ HELPERS ============================================
+
+/**
+ * Typechain output only exists once the contracts are compiled, so it is
+ * imported when a batch is built, not when the tasks are registered.
+ */
+async function loadInterfaces(): Promise<Interfaces> {
+  const { CellarStaking__factory } = await import("../../src/types/factories/CellarStaking__factory");
+  const { ERC20__factory } = await import("../../src/types/factories/ERC20__factory");
+
+  return { staking: CellarStaking__factory.createInterface(), erc20: ERC20__factory.createInterface() };
+}
+
+function toTransaction(to: string, data: string): SafeTransaction {
+  return { to, value: "0", data, contractMethod: null, contractInputsValues: null };
+}
+
+function lookup(nameOrAddress: string, registry?: DeploymentRegistry): RegistryEntry | undefined {
+  if (!registry) return undefined;
+
+  return (
+    registry.contracts[nameOrAddress] ??
+    Object.values(registry.contracts).find(c => c.address.toLowerCase() === nameOrAddress.toLowerCase())
+  );
+}
+
+function resolveAddress(nameOrAddress: string, registry?: DeploymentRegistry): string {
+  if (utils.isAddress(nameOrAddress)) return utils.getAddress(nameOrAddress);
+
+  const entry = lookup(nameOrAddress, registry);
+  if (!entry) throw new Error(`'${nameOrAddress}' is neither an address nor a cellar in the registry`);
+
+  return entry.address;
+}
+
+function checkAddress(field: string, value: string): string {
+  if (!utils.isAddress(value)) throw new Error(`'${field}' is not a valid address: ${value}`);
+
+  return utils.getAddress(value);
+}
+
+function parseAmount(amount: string, decimals?: number): BigNumber {
+  const parsed = decimals === undefined ? BigNumber.from(amount) : utils.parseUnits(amount, decimals);
+  if (parsed.isNegative()) throw new Error(`Amount must not be negative: ${amount}`);
+
+  return parsed;
+}
+
+function summarize(operations: SafeOperation[]): string {
+  return operations.map(op => `${op.method}(${op.staking})`).join(", ");
+}
@@ -0,0 +1,80 @@
+import { BigNumber, BigNumberish, constants, providers } from "ethers";
+
+/**
+ * Off-chain mirrors of the emission curves in contracts/curves. Each model
+ * reproduces its contract's 'emitted' exactly, including the order of
+ * integer divisions.
+ */
+
+const ONE = constants.WeiPerEther;
+
+export interface EmissionCurveModel {
+  emitted(amount: BigNumberish, duration: BigNumberish, elapsed: BigNumberish): BigNumber;
+}
+
+/**
+ * Mirrors LinearDecayCurve.
+ */
+export function linearDecayCurve(endRatio: BigNumberish): EmissionCurveModel {
+  const ratio = BigNumber.from(endRatio);
+
+  return {
+    emitted(amount, duration, elapsed) {
+      if (BigNumber.from(elapsed).gte(duration)) return BigNumber.from(amount);
+
+      const numerator = BigNumber.from(amount)
+        .mul(elapsed)
+        .mul(BigNumber.from(duration).mul(2).mul(ONE).sub(ONE.sub(ratio).mul(elapsed)));
+
+      return numerator.div(BigNumber.from(duration).mul(duration).mul(ONE.add(ratio)));
+    },
+  };
+}
+
+/**
+ * Mirrors StepDecayCurve.
+ */
+export function stepDecayCurve(weights: BigNumberish[]): EmissionCurveModel {
+  const steps = weights.map(w => BigNumber.from(w));
+  const totalWeight = steps.reduce((acc, w) => acc.add(w), BigNumber.from(0));
+  const weightsBefore = steps.map((_, i) => steps.slice(0, i).reduce((acc, w) => acc.add(w), BigNumber.from(0)));
+
+  return {
+    emitted(amount, duration, elapsed) {
+      if (BigNumber.from(elapsed).gte(duration)) return BigNumber.from(amount);
+
+      const position = BigNumber.from(elapsed).mul(steps.length);
+      const step = position.div(duration);
+      const intoStep = position.sub(step.mul(duration));
+      const weighted = weightsBefore[step.toNumber()].mul(duration).add(steps[step.toNumber()].mul(intoStep));
+
+      return BigNumber.from(amount).mul(weighted).div(totalWeight.mul(duration));
+    },
+  };
+}
+
+/**
+ * Build the model for a deployed curve by reading its parameters.
+ * The zero address, used for flat epochs, has no model.
+ */
+export async function loadEmissionCurve(
+  provider: providers.Provider,
+  address: string,
+): Promise<EmissionCurveModel | undefined> {
+  if (address === constants.AddressZero) return undefined;
+
+  const { LinearDecayCurve__factory } = await import("../../src/types/factories/LinearDecayCurve__factory");
+  const { StepDecayCurve__factory } = await import("../../src/types/factories/StepDecayCurve__factory");
+
+  try {
+    return linearDecayCurve(await LinearDecayCurve__factory.connect(address, provider).END_RATIO());
+  } catch {
+    // Not a linear decay curve
+  }
+
+  try {
+    return stepDecayCurve(await StepDecayCurve__factory.connect(address, provider).getWeights());
+  } catch {
+    throw new Error(`Unsupported emission curve at ${address}`);
+  }
+}
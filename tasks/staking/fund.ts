@@ -0,0 +1,101 @@
+import { BigNumber } from "ethers";
+import { task, types } from "hardhat/config";
+import { TaskArguments } from "hardhat/types";
+
+import { getStaking } from "../deploy/registry";
+import { FundingPlan, getFundingState, planFunding } from "./funding";
+
+task("staking:fund", "Funds a CellarStaking contract and starts a reward epoch via notifyRewardAmount")
+  .addParam("staking", "Staking contract address, or cellar name from the deployment registry")
+  .addParam("amount", "Reward amount for the epoch, in distribution token units", undefined, types.string)
+  .addOptionalParam(
+    "transfer",
+    "Distribution tokens to transfer before notifying (default: the reward amount)",
+    undefined,
+    types.string,
+  )
+  .addFlag("dryRun", "Run pre-flight checks and print the summary without sending transactions")
+  .setAction(async function (args: TaskArguments, hre) {
+    const { ethers } = hre;
+    const [signer] = await ethers.getSigners();
+
+    const { ERC20__factory } = await import("../../src/types/factories/ERC20__factory");
+    const staking = await getStaking(hre, args.staking);
+    const distributionToken = ERC20__factory.connect(await staking.distributionToken(), signer);
+    const [decimals, symbol] = await Promise.all([distributionToken.decimals(), distributionToken.symbol()]);
+
+    const transferAmount: string = args.transfer ?? args.amount;
+    const reward = ethers.utils.parseUnits(args.amount, decimals);
+    const transfer = ethers.utils.parseUnits(transferAmount, decimals);
+
+    const [funder, paused, ended] = await Promise.all([staking.funder(), staking.paused(), staking.ended()]);
+    if (ended) throw new Error("Staking contract has been emergency stopped, rewards can no longer be scheduled");
+
+    // A multisig funder can still dry-run the pre-flight checks from any account
+    if (!args.dryRun) {
+      if (funder !== signer.address) throw new Error(`Signer ${signer.address} is not the staking funder (${funder})`);
+
+      const signerBalance = await distributionToken.balanceOf(signer.address);
+      if (signerBalance.lt(transfer)) {
+        const held = ethers.utils.formatUnits(signerBalance, decimals);
+        throw new Error(`Signer holds ${held} ${symbol}, cannot transfer ${transferAmount}`);
+      }
+    }
+
+    const state = await getFundingState(staking, distributionToken);
+    const plan = planFunding(state, reward, transfer);
+
+    const format = (amount: BigNumber) => `${ethers.utils.formatUnits(amount, decimals)} ${symbol}`;
+    printPlan(plan, staking.address, format);
+    if (paused) console.log("WARNING: contract is paused, users cannot stake or claim until it is unpaused");
+
+    if (plan.error) throw new Error(`Pre-flight check failed: notifyRewardAmount would revert with ${plan.error}`);
+    if (args.dryRun) return;
+
+    if (!transfer.isZero()) {
+      const balanceBefore = await distributionToken.balanceOf(staking.address);
+      const transferTx = await distributionToken.transfer(staking.address, transfer);
+      console.log(`Transferring ${transferAmount} ${symbol}: ${transferTx.hash}`);
+      await transferTx.wait();
+
+      // The contract is funded by balance, so a token taking a fee on transfer would leave it short
+      const received = (await distributionToken.balanceOf(staking.address)).sub(balanceBefore);
+      if (!received.eq(transfer)) {
+        throw new Error(
+          `Staking contract received ${format(received)} of ${format(transfer)} transferred: ` +
+            `STATE_AssetUsesFeeOnTransfer(${distributionToken.address}), not notifying`,
+        );
+      }
+    }
+
+    const notifyTx = await staking.notifyRewardAmount(reward);
+    console.log(`Calling notifyRewardAmount: ${notifyTx.hash}`);
+    await notifyTx.wait();
+
+    if (plan.startsImmediately) {
+      const [rewardRate, endTimestamp] = await Promise.all([staking.rewardRate(), staking.endTimestamp()]);
+      console.log(`Reward rate: ${rewardRate.toString()} per second`);
+      console.log(`Epoch ends: ${new Date(endTimestamp.toNumber() * 1000).toISOString()}`);
+    } else {
+      console.log(`Rewards held until first deposit: ${format(await staking.rewardsReady())}`);
+    }
+  });
+
+function printPlan(plan: FundingPlan, address: string, format: (amount: BigNumber) => string): void {
+  console.log(`Funding CellarStaking ${address}`);
+  console.log(`  reward:                 ${format(plan.reward)}`);
+  console.log(`  leftover from epoch:    ${format(plan.leftover)}`);
+  console.log(`  total scheduled:        ${format(plan.totalReward)}`);
+  console.log(`  epoch duration:         ${plan.epochDuration.toString()}s`);
+  console.log(`  reward rate:            ${plan.rewardRate.toString()} base units per second`);
+  console.log(`  remainder lost:         ${plan.remainder.toString()} base units`);
+  console.log(`  balance after transfer: ${format(plan.balanceAfterTransfer)}`);
+  console.log(`  required balance:       ${format(plan.pendingRewards)}`);
+  console.log(
+    `  starts:                 ${plan.startsImmediately ? "immediately" : "on first deposit (held in rewardsReady)"}`,
+  );
+
+  if (!plan.remainder.isZero()) {
+    console.log("WARNING: reward is not divisible by the epoch duration, the remainder will not be distributed");
+  }
+}
@@ -0,0 +1,133 @@
+import { BigNumber, constants } from "ethers";
+
+import type { CellarStaking } from "../../src/types/CellarStaking";
+import type { ERC20 } from "../../src/types/ERC20";
+import { ONE } from "./rewards";
+
+/**
+ * The contract state notifyRewardAmount reads when scheduling rewards.
+ */
+export interface FundingState {
+  timestamp: number;
+  remainingRewards: BigNumber;
+  nextEpochDuration: BigNumber;
+  nextEmissionCurve: string;
+  rewardsReady: BigNumber;
+  totalDeposits: BigNumber;
+  rewardBalance: BigNumber;
+  scheduledEpochs: number;
+}
+
+/**
+ * The outcome of a notifyRewardAmount call, computed off-chain.
+ * If 'error' is set, the call would revert with that custom error.
+ */
+export interface FundingPlan {
+  reward: BigNumber;
+  leftover: BigNumber;
+  totalReward: BigNumber;
+  rewardRate: BigNumber;
+  remainder: BigNumber;
+  epochDuration: BigNumber;
+  balanceAfterTransfer: BigNumber;
+  pendingRewards: BigNumber;
+  startsImmediately: boolean;
+  error?: string;
+}
+
+export async function getFundingState(staking: CellarStaking, distributionToken: ERC20): Promise<FundingState> {
+  const [
+    block,
+    remainingRewards,
+    nextEpochDuration,
+    nextEmissionCurve,
+    rewardsReady,
+    totalDeposits,
+    rewardBalance,
+    epochs,
+    stakingToken,
+  ] = await Promise.all([
+    staking.provider.getBlock("latest"),
+    staking.remainingRewards(),
+    staking.nextEpochDuration(),
+    staking.nextEmissionCurve(),
+    staking.rewardsReady(),
+    staking.totalDeposits(),
+    distributionToken.balanceOf(staking.address),
+    staking.getScheduledEpochs(),
+    staking.stakingToken(),
+  ]);
+
+  return {
+    timestamp: block.timestamp,
+    remainingRewards,
+    nextEpochDuration,
+    nextEmissionCurve,
+    rewardsReady,
+    totalDeposits,
+    // Deposits never fund rewards, if rewards are paid in the staking token
+    rewardBalance: stakingToken === distributionToken.address ? rewardBalance.sub(totalDeposits) : rewardBalance,
+    // Epochs which have started are activated before notifyRewardAmount checks the queue
+    scheduledEpochs: epochs.filter(e => e.startTimestamp.gt(block.timestamp)).length,
+  };
+}
+
+/**
+ * Mirror the checks and arithmetic of CellarStaking.notifyRewardAmount.
+ * The leftover of an active epoch is estimated at 'state.timestamp', so it
+ * will be slightly smaller when the transaction is actually mined. For curved
+ * schedules, 'rewardRate' is the average rate over the epoch.
+ *
+ * @param state         Current contract state.
+ * @param reward        The reward amount passed to notifyRewardAmount.
+ * @param transfer      Distribution tokens sent to the contract before notifying.
+ */
+export function planFunding(state: FundingState, reward: BigNumber, transfer: BigNumber): FundingPlan {
+  const { nextEpochDuration, rewardsReady, totalDeposits } = state;
+
+  // Leftover rewards of an unfinished epoch roll into the new schedule
+  const leftover = state.remainingRewards;
+  const totalReward = reward.add(leftover);
+
+  const balanceAfterTransfer = state.rewardBalance.add(transfer);
+  const pendingRewards = totalReward.add(rewardsReady);
+
+  const plan: FundingPlan = {
+    reward,
+    leftover,
+    totalReward,
+    rewardRate: BigNumber.from(0),
+    remainder: BigNumber.from(0),
+    epochDuration: nextEpochDuration,
+    balanceAfterTransfer,
+    pendingRewards,
+    startsImmediately: !totalDeposits.isZero(),
+  };
+
+  // Scheduled epochs own the timeline until they have all started
+  if (state.scheduledEpochs > 0) {
+    return { ...plan, error: "STATE_EpochsScheduled" };
+  }
+
+  if (nextEpochDuration.isZero() || totalReward.lt(nextEpochDuration)) {
+    return { ...plan, error: "USR_ZeroRewardsPerEpoch" };
+  }
+
+  if (balanceAfterTransfer.lt(pendingRewards)) {
+    return { ...plan, error: "STATE_RewardsNotFunded" };
+  }
+
+  // Same overflow guard as the contract applies before computing rewardPerToken
+  const proposedRewardRate = totalReward.div(nextEpochDuration);
+  if (proposedRewardRate.gte(constants.MaxUint256.div(ONE).div(nextEpochDuration))) {
+    return { ...plan, error: "USR_RewardTooLarge" };
+  }
+
+  return {
+    ...plan,
+    rewardRate: proposedRewardRate,
+    // Emission curves always emit the full amount
+    remainder:
+      state.nextEmissionCurve === constants.AddressZero ? totalReward.mod(nextEpochDuration) : BigNumber.from(0),
+  };
+}
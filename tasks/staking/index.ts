@@ -0,0 +1,5 @@
+import "./fund";
+import "./status";
+import "./positions";
+import "./indexer";
+import "./reconcile";
@@ -0,0 +1,536 @@
+import fs from "fs-extra";
+import { BigNumber, utils } from "ethers";
+import { task, types } from "hardhat/config";
+import { TaskArguments } from "hardhat/types";
+import { dirname, resolve } from "path";
+
+import type {
+  CancelUnbondEvent,
+  CellarStaking,
+  ClaimEvent,
+  CompoundEvent,
+  EmergencyClaimEvent,
+  EmergencyStopEvent,
+  EmergencyUnstakeEvent,
+  EpochDurationChangeEvent,
+  FundingEvent,
+  IncreaseStakeEvent,
+  MergeEvent,
+  OperatorSetEvent,
+  PartialUnstakeEvent,
+  RecoverEvent,
+  RelockEvent,
+  RewardTokenAddedEvent,
+  RewardTokenClaimEvent,
+  RewardTokenEpochDurationChangeEvent,
+  RewardTokenFundingEvent,
+  SplitEvent,
+  StakeEvent,
+  UnbondEvent,
+  UnstakeEvent,
+} from "../../src/types/CellarStaking";
+import type { TypedEvent } from "../../src/types/common";
+import { getStaking, loadRegistry } from "../deploy/registry";
+
+export type DepositStatus = "staked" | "unbonding" | "unstaked" | "merged" | "emergencyUnstaked";
+
+/**
+ * A deposit rebuilt from events. Token amounts are base-unit strings.
+ * 'amount' is what is still deposited, 'claimed' counts rewards paid
+ * out by both claims and unstakes, and 'compounded' counts rewards
+ * added to the deposit itself. 'rewardTokensClaimed' counts payouts
+ * of additional reward tokens, by token address.
+ */
+export interface IndexedDeposit {
+  depositId: number;
+  status: DepositStatus;
+  staked: string;
+  amount: string;
+  claimed: string;
+  compounded: string;
+  rewardTokensClaimed: { [token: string]: string };
+  stakeBlock: number;
+  stakeTxHash: string;
+  lastBlock: number;
+}
+
+export interface IndexedUser {
+  deposits: IndexedDeposit[];
+  emergencyClaimed: string;
+  operators: string[];
+}
+
+/**
+ * One reward epoch, as announced by a Funding event.
+ */
+export interface FundingRecord {
+  epoch: number;
+  rewardAmount: string;
+  rewardEnd: number;
+  blockNumber: number;
+  txHash: string;
+}
+
+export interface EpochDurationRecord {
+  duration: number;
+  blockNumber: number;
+  txHash: string;
+}
+
+/**
+ * An additional reward token, with the epochs announced by its
+ * RewardTokenFunding events.
+ */
+export interface RewardTokenRecord {
+  epochDuration: number;
+  addedBlock: number;
+  funding: FundingRecord[];
+  epochDurationChanges: EpochDurationRecord[];
+}
+
+export interface RecoverRecord {
+  token: string;
+  amount: string;
+  to: string;
+  blockNumber: number;
+  txHash: string;
+}
+
+export interface EmergencyStopRecord {
+  owner: string;
+  claimable: boolean;
+  blockNumber: number;
+  txHash: string;
+}
+
+/**
+ * Everything the indexer knows about a staking contract, up to and
+ * including 'lastBlock'.
+ */
+export interface IndexerStore {
+  network: string;
+  chainId: number;
+  staking: string;
+  fromBlock: number;
+  lastBlock: number;
+  totalDeposits: string;
+  users: { [user: string]: IndexedUser };
+  funding: FundingRecord[];
+  epochDurationChanges: EpochDurationRecord[];
+  rewardTokens: { [token: string]: RewardTokenRecord };
+  recovered: RecoverRecord[];
+  emergencyStop: EmergencyStopRecord | null;
+}
+
+export const INDEX_DIR = "deployments/index";
+
+export function indexStorePath(root: string, network: string, staking: string): string {
+  return resolve(root, INDEX_DIR, network, `${utils.getAddress(staking)}.json`);
+}
+
+export function createStore(network: string, chainId: number, staking: string, fromBlock: number): IndexerStore {
+  return {
+    network,
+    chainId,
+    staking: utils.getAddress(staking),
+    fromBlock,
+    lastBlock: fromBlock - 1,
+    totalDeposits: "0",
+    users: {},
+    funding: [],
+    epochDurationChanges: [],
+    rewardTokens: {},
+    recovered: [],
+    emergencyStop: null,
+  };
+}
+
+/**
+ * Load a store from disk, checking that it belongs to the expected contract and chain.
+ */
+export function loadStore(path: string, chainId: number, staking: string): IndexerStore {
+  const store: IndexerStore = fs.readJsonSync(path);
+
+  if (store.chainId !== chainId) {
+    throw new Error(`Index ${path} is for chain ${store.chainId}, but connected to chain ${chainId}`);
+  }
+  if (store.staking !== utils.getAddress(staking)) {
+    throw new Error(`Index ${path} is for CellarStaking ${store.staking}, not ${staking}`);
+  }
+
+  return store;
+}
+
+export function saveStore(path: string, store: IndexerStore): void {
+  fs.ensureDirSync(dirname(path));
+  fs.writeJsonSync(path, store, { spaces: 2 });
+}
+
+/**
+ * Fetch every staking event in a block range, in the order it was emitted.
+ */
+export async function fetchEvents(staking: CellarStaking, fromBlock: number, toBlock: number): Promise<TypedEvent[]> {
+  const { filters } = staking;
+
+  const results = await Promise.all(
+    [
+      filters.Stake(),
+      filters.Unbond(),
+      filters.Split(),
+      filters.CancelUnbond(),
+      filters.Unstake(),
+      filters.PartialUnstake(),
+      filters.Claim(),
+      filters.Compound(),
+      filters.Relock(),
+      filters.IncreaseStake(),
+      filters.Merge(),
+      filters.Funding(),
+      filters.EmergencyStop(),
+      filters.EmergencyUnstake(),
+      filters.EmergencyClaim(),
+      filters.EpochDurationChange(),
+      filters.RewardTokenAdded(),
+      filters.RewardTokenFunding(),
+      filters.RewardTokenEpochDurationChange(),
+      filters.RewardTokenClaim(),
+      filters.OperatorSet(),
+      filters.Recover(),
+    ].map(filter => staking.queryFilter(filter, fromBlock, toBlock)),
+  );
+
+  return results.flat().sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+}
+
+/**
+ * Apply a single event to the store. Events must be applied in emission
+ * order, starting from the contract's deployment.
+ */
+export function applyEvent(store: IndexerStore, event: TypedEvent): void {
+  const at = { blockNumber: event.blockNumber, txHash: event.transactionHash };
+
+  switch (event.event) {
+    case "Stake": {
+      const { user, depositId, amount } = (event as StakeEvent).args;
+      const deposits = getUser(store, user).deposits;
+
+      if (depositId.toNumber() !== deposits.length) {
+        throw new Error(`Stake of deposit ${depositId} for ${user} out of order: expected deposit ${deposits.length}`);
+      }
+
+      deposits.push(newDeposit(depositId, amount, at));
+      store.totalDeposits = add(store.totalDeposits, amount);
+      break;
+    }
+    case "Split": {
+      // Followed by an Unbond event for the new deposit
+      const { user, depositId, newDepositId, amount } = (event as SplitEvent).args;
+      const deposits = getUser(store, user).deposits;
+
+      if (newDepositId.toNumber() !== deposits.length) {
+        throw new Error(`Split into deposit ${newDepositId} for ${user} out of order: expected ${deposits.length}`);
+      }
+
+      updateDeposit(store, user, depositId, at, d => ({
+        ...d,
+        amount: BigNumber.from(d.amount).sub(amount).toString(),
+      }));
+      deposits.push(newDeposit(newDepositId, amount, at));
+      break;
+    }
+    case "Unbond": {
+      const { user, depositId } = (event as UnbondEvent).args;
+      updateDeposit(store, user, depositId, at, d => ({ ...d, status: "unbonding" }));
+      break;
+    }
+    case "CancelUnbond": {
+      const { user, depositId } = (event as CancelUnbondEvent).args;
+      updateDeposit(store, user, depositId, at, d => ({ ...d, status: "staked" }));
+      break;
+    }
+    case "Unstake": {
+      const { user, depositId, amount, reward } = (event as UnstakeEvent).args;
+      updateDeposit(store, user, depositId, at, d => ({
+        ...d,
+        status: "unstaked",
+        amount: BigNumber.from(d.amount).sub(amount).toString(),
+        claimed: add(d.claimed, reward),
+      }));
+      store.totalDeposits = BigNumber.from(store.totalDeposits).sub(amount).toString();
+      break;
+    }
+    case "PartialUnstake": {
+      const { user, depositId, amount, reward } = (event as PartialUnstakeEvent).args;
+      updateDeposit(store, user, depositId, at, d => ({
+        ...d,
+        amount: BigNumber.from(d.amount).sub(amount).toString(),
+        claimed: add(d.claimed, reward),
+      }));
+      store.totalDeposits = BigNumber.from(store.totalDeposits).sub(amount).toString();
+      break;
+    }
+    case "Claim": {
+      const { user, depositId, amount } = (event as ClaimEvent).args;
+      updateDeposit(store, user, depositId, at, d => ({ ...d, claimed: add(d.claimed, amount) }));
+      break;
+    }
+    case "Compound": {
+      const { user, depositId, amount } = (event as CompoundEvent).args;
+      updateDeposit(store, user, depositId, at, d => ({
+        ...d,
+        amount: add(d.amount, amount),
+        compounded: add(d.compounded, amount),
+      }));
+      store.totalDeposits = add(store.totalDeposits, amount);
+      break;
+    }
+    case "Relock": {
+      // Relocking cancels any in-progress unbonding
+      const { user, depositId } = (event as RelockEvent).args;
+      updateDeposit(store, user, depositId, at, d => ({ ...d, status: "staked" }));
+      break;
+    }
+    case "IncreaseStake": {
+      const { user, depositId, amount } = (event as IncreaseStakeEvent).args;
+      updateDeposit(store, user, depositId, at, d => ({
+        ...d,
+        staked: add(d.staked, amount),
+        amount: add(d.amount, amount),
+      }));
+      store.totalDeposits = add(store.totalDeposits, amount);
+      break;
+    }
+    case "Merge": {
+      // Tokens move between two of the user's deposits, so totals are unchanged
+      const { user, depositId, mergedDepositId, amount } = (event as MergeEvent).args;
+      updateDeposit(store, user, mergedDepositId, at, d => ({ ...d, status: "merged", amount: "0" }));
+      updateDeposit(store, user, depositId, at, d => ({ ...d, amount: add(d.amount, amount) }));
+      break;
+    }
+    case "EmergencyUnstake": {
+      const { user, depositId, amount } = (event as EmergencyUnstakeEvent).args;
+      updateDeposit(store, user, depositId, at, d => ({
+        ...d,
+        status: "emergencyUnstaked",
+        amount: BigNumber.from(d.amount).sub(amount).toString(),
+      }));
+      store.totalDeposits = BigNumber.from(store.totalDeposits).sub(amount).toString();
+      break;
+    }
+    case "EmergencyClaim": {
+      const { user, amount } = (event as EmergencyClaimEvent).args;
+      const u = getUser(store, user);
+      u.emergencyClaimed = add(u.emergencyClaimed, amount);
+      break;
+    }
+    case "Funding": {
+      const { rewardAmount, rewardEnd } = (event as FundingEvent).args;
+      store.funding.push({
+        epoch: store.funding.length,
+        rewardAmount: rewardAmount.toString(),
+        rewardEnd: rewardEnd.toNumber(),
+        ...at,
+      });
+      break;
+    }
+    case "EpochDurationChange": {
+      const { duration } = (event as EpochDurationChangeEvent).args;
+      store.epochDurationChanges.push({ duration: duration.toNumber(), ...at });
+      break;
+    }
+    case "EmergencyStop": {
+      const { owner, claimable } = (event as EmergencyStopEvent).args;
+      store.emergencyStop = { owner, claimable, ...at };
+      break;
+    }
+    case "RewardTokenAdded": {
+      const { token, epochDuration } = (event as RewardTokenAddedEvent).args;
+      store.rewardTokens[utils.getAddress(token)] = {
+        epochDuration: epochDuration.toNumber(),
+        addedBlock: at.blockNumber,
+        funding: [],
+        epochDurationChanges: [],
+      };
+      break;
+    }
+    case "RewardTokenFunding": {
+      const { token, rewardAmount, rewardEnd } = (event as RewardTokenFundingEvent).args;
+      const { funding } = getRewardToken(store, token, at);
+      funding.push({
+        epoch: funding.length,
+        rewardAmount: rewardAmount.toString(),
+        rewardEnd: rewardEnd.toNumber(),
+        ...at,
+      });
+      break;
+    }
+    case "RewardTokenEpochDurationChange": {
+      const { token, duration } = (event as RewardTokenEpochDurationChangeEvent).args;
+      const rewardToken = getRewardToken(store, token, at);
+      rewardToken.epochDuration = duration.toNumber();
+      rewardToken.epochDurationChanges.push({ duration: duration.toNumber(), ...at });
+      break;
+    }
+    case "RewardTokenClaim": {
+      const { user, depositId, token, amount } = (event as RewardTokenClaimEvent).args;
+      const address = utils.getAddress(token);
+      updateDeposit(store, user, depositId, at, d => ({
+        ...d,
+        rewardTokensClaimed: {
+          ...d.rewardTokensClaimed,
+          [address]: add(d.rewardTokensClaimed[address] ?? "0", amount),
+        },
+      }));
+      break;
+    }
+    case "OperatorSet": {
+      const { user, operator, approved } = (event as OperatorSetEvent).args;
+      const u = getUser(store, user);
+      const address = utils.getAddress(operator);
+
+      u.operators = u.operators.filter(o => o !== address);
+      if (approved) u.operators.push(address);
+      break;
+    }
+    case "Recover": {
+      const { token, amount, to } = (event as RecoverEvent).args;
+      store.recovered.push({ token: utils.getAddress(token), amount: amount.toString(), to, ...at });
+      break;
+    }
+    default:
+      throw new Error(`Unexpected event ${event.event} in tx ${event.transactionHash}`);
+  }
+}
+
+/**
+ * Index all events from the block after 'store.lastBlock' up to 'toBlock',
+ * in batches of 'batchSize' blocks. 'onBatch' is called after each batch,
+ * so progress can be saved as the indexer goes.
+ */
+export async function syncStore(
+  staking: CellarStaking,
+  store: IndexerStore,
+  toBlock: number,
+  batchSize = 2000,
+  onBatch?: (store: IndexerStore) => void,
+): Promise<IndexerStore> {
+  if (batchSize < 1) throw new Error("Batch size must be positive");
+
+  for (let from = store.lastBlock + 1; from <= toBlock; from += batchSize) {
+    const to = Math.min(from + batchSize - 1, toBlock);
+    const events = await fetchEvents(staking, from, to);
+
+    for (const event of events) applyEvent(store, event);
+    store.lastBlock = to;
+
+    if (onBatch) onBatch(store);
+  }
+
+  return store;
+}
+
+task(
+  "staking:index",
+  "Backfills CellarStaking events into a local JSON index, optionally following new blocks. " +
+    "Lock tier, scheduled epoch, emission curve, funder and guardian changes are not indexed",
+)
+  .addParam("staking", "Staking contract address, or cellar name from the deployment registry")
+  .addOptionalParam("out", "Path of the index file (default: deployments/index/<network>/<address>.json)")
+  .addOptionalParam(
+    "fromBlock",
+    "First block to index (default: deployment block from the registry)",
+    undefined,
+    types.int,
+  )
+  .addOptionalParam("batchSize", "Blocks fetched per log query", 2000, types.int)
+  .addOptionalParam("confirmations", "Blocks to stay behind the chain head", 0, types.int)
+  .addOptionalParam("interval", "Seconds between polls when following", 15, types.int)
+  .addFlag("follow", "Keep polling for new blocks after the backfill")
+  .setAction(async function (args: TaskArguments, hre) {
+    const staking = await getStaking(hre, args.staking);
+    const { chainId } = await hre.ethers.provider.getNetwork();
+    const path = args.out ?? indexStorePath(hre.config.paths.root, hre.network.name, staking.address);
+
+    let store: IndexerStore;
+    if (fs.existsSync(path)) {
+      store = loadStore(path, chainId, staking.address);
+      console.log(`Resuming ${path} after block ${store.lastBlock}`);
+    } else {
+      const registry = loadRegistry(hre.config.paths.root, hre.network.name, chainId);
+      const entry = Object.values(registry.contracts).find(c => c.address === staking.address);
+      const fromBlock = args.fromBlock ?? entry?.blockNumber ?? 0;
+
+      store = createStore(hre.network.name, chainId, staking.address, fromBlock);
+      console.log(`Indexing CellarStaking ${staking.address} from block ${fromBlock} into ${path}`);
+    }
+
+    const save = (s: IndexerStore) => saveStore(path, s);
+
+    for (;;) {
+      const head = (await hre.ethers.provider.getBlockNumber()) - args.confirmations;
+
+      if (head > store.lastBlock) {
+        await syncStore(staking, store, head, args.batchSize, save);
+        console.log(
+          `Indexed to block ${store.lastBlock}: ${Object.keys(store.users).length} users, ` +
+            `${store.funding.length} epochs`,
+        );
+      }
+
+      if (!args.follow) break;
+      await new Promise(r => setTimeout(r, args.interval * 1000));
+    }
+  });
+
+// ============================================ HELPERS ============================================
+
+function getUser(store: IndexerStore, user: string): IndexedUser {
+  const address = utils.getAddress(user);
+  store.users[address] ??= { deposits: [], emergencyClaimed: "0", operators: [] };
+
+  return store.users[address];
+}
+
+function getRewardToken(store: IndexerStore, token: string, at: { blockNumber: number }): RewardTokenRecord {
+  const rewardToken = store.rewardTokens[utils.getAddress(token)];
+  if (!rewardToken) throw new Error(`Event for unknown reward token ${token} at block ${at.blockNumber}`);
+
+  return rewardToken;
+}
+
+function newDeposit(
+  depositId: BigNumber,
+  amount: BigNumber,
+  at: { blockNumber: number; txHash: string },
+): IndexedDeposit {
+  return {
+    depositId: depositId.toNumber(),
+    status: "staked",
+    staked: amount.toString(),
+    amount: amount.toString(),
+    claimed: "0",
+    compounded: "0",
+    rewardTokensClaimed: {},
+    stakeBlock: at.blockNumber,
+    stakeTxHash: at.txHash,
+    lastBlock: at.blockNumber,
+  };
+}
+
+function updateDeposit(
+  store: IndexerStore,
+  user: string,
+  depositId: BigNumber,
+  at: { blockNumber: number },
+  update: (d: IndexedDeposit) => IndexedDeposit,
+): void {
+  const deposits = getUser(store, user).deposits;
+  const d = deposits[depositId.toNumber()];
+  if (!d) throw new Error(`Event for unknown deposit ${depositId} of ${user} at block ${at.blockNumber}`);
+
+  deposits[depositId.toNumber()] = { ...update(d), lastBlock: at.blockNumber };
+}
+
+function add(a: string, b: BigNumber): string {
+  return b.add(a).toString();
+}
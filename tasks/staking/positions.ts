@@ -0,0 +1,130 @@
+import { BigNumber, utils } from "ethers";
+import { task } from "hardhat/config";
+import { TaskArguments } from "hardhat/types";
+
+import type { CellarStaking } from "../../src/types/CellarStaking";
+import { getStaking } from "../deploy/registry";
+
+export type PositionState = "empty" | "locked" | "unbonding" | "withdrawable";
+
+/**
+ * A decoded UserStake. Token amounts are base-unit strings.
+ */
+export interface Position {
+  depositId: number;
+  state: PositionState;
+  amount: string;
+  amountWithBoost: string;
+  lock: number;
+  lockRetired: boolean;
+  boost: string;
+  lockDuration: number;
+  unbondTimestamp: number;
+  withdrawableAt: number | null;
+  rewardPerTokenPaid: string;
+  rewards: string;
+  pending: string;
+  claimable: string;
+}
+
+export async function getPositions(staking: CellarStaking, user: string): Promise<Position[]> {
+  const block = await staking.provider.getBlock("latest");
+  const overrides = { blockTag: block.number };
+
+  const [stakes, lockTiers] = await Promise.all([
+    staking.getUserStakes(user, overrides),
+    staking.getLockTiers(overrides),
+  ]);
+
+  // What the next claim would pay, including after an emergency stop
+  const earned = await Promise.all(stakes.map((_, depositId) => staking.earned(user, depositId, overrides)));
+
+  return stakes.map((s, depositId) => {
+    // Deposits keep the terms of their tier, even after it is retired
+    const { boost, lockDuration, active } = lockTiers[s.lock];
+
+    const claimable = earned[depositId];
+    // Stored rewards are forfeited if the contract was stopped without claims
+    const pending = claimable.gt(s.rewards) ? claimable.sub(s.rewards) : BigNumber.from(0);
+
+    let state: PositionState;
+    if (s.amount.isZero()) state = "empty";
+    else if (s.unbondTimestamp === 0) state = "locked";
+    else if (block.timestamp < s.unbondTimestamp) state = "unbonding";
+    else state = "withdrawable";
+
+    return {
+      depositId,
+      state,
+      amount: s.amount.toString(),
+      amountWithBoost: s.amountWithBoost.toString(),
+      lock: s.lock,
+      lockRetired: !active,
+      boost: boost.toString(),
+      lockDuration: lockDuration.toNumber(),
+      unbondTimestamp: s.unbondTimestamp,
+      withdrawableAt: s.unbondTimestamp === 0 ? null : s.unbondTimestamp,
+      rewardPerTokenPaid: s.rewardPerTokenPaid.toString(),
+      rewards: s.rewards.toString(),
+      pending: pending.toString(),
+      claimable: claimable.toString(),
+    };
+  });
+}
+
+task("staking:positions", "Decodes and prints every deposit a user holds in a CellarStaking contract")
+  .addParam("staking", "Staking contract address, or cellar name from the deployment registry")
+  .addParam("user", "The staker's address")
+  .addFlag("json", "Print the positions as JSON")
+  .setAction(async function (args: TaskArguments, hre) {
+    const staking = await getStaking(hre, args.staking);
+    const positions = await getPositions(staking, args.user);
+
+    if (args.json) {
+      console.log(JSON.stringify(positions, null, 2));
+      return;
+    }
+
+    const { ERC20__factory } = await import("../../src/types/factories/ERC20__factory");
+    const [stakingDecimals, distributionDecimals] = await Promise.all([
+      staking.stakingToken().then(token => ERC20__factory.connect(token, staking.provider).decimals()),
+      staking.distributionToken().then(token => ERC20__factory.connect(token, staking.provider).decimals()),
+    ]);
+
+    console.log(`${positions.length} deposits for ${args.user} in CellarStaking ${staking.address}`);
+
+    for (const p of positions) {
+      console.log();
+      printPosition(p, stakingDecimals, distributionDecimals);
+    }
+
+    const total = positions.reduce((acc, p) => acc.add(p.claimable), BigNumber.from(0));
+    console.log();
+    console.log(`Total claimable rewards: ${utils.formatUnits(total, distributionDecimals)}`);
+  });
+
+function printPosition(p: Position, stakingDecimals: number, distributionDecimals: number): void {
+  const date = (timestamp: number) => new Date(timestamp * 1000).toISOString();
+  const stake = (amount: string) => utils.formatUnits(amount, stakingDecimals);
+  const reward = (amount: string) => utils.formatUnits(amount, distributionDecimals);
+
+  console.log(`Deposit ${p.depositId}: ${p.state}`);
+  if (p.state === "empty") return;
+
+  console.log(`  amount:            ${stake(p.amount)}`);
+  console.log(`  amount with boost: ${stake(p.amountWithBoost)}`);
+  const tier = `tier ${p.lock}${p.lockRetired ? " (retired)" : ""}`;
+  console.log(`  lock:              ${tier}, ${utils.formatUnits(p.boost)} boost, ${p.lockDuration}s unbonding`);
+
+  if (p.state === "locked") {
+    console.log(`  withdrawable:      ${p.lockDuration}s after calling unbond(${p.depositId})`);
+  } else if (p.state === "unbonding") {
+    console.log(`  withdrawable:      at ${date(p.unbondTimestamp)} (boost removed while unbonding)`);
+  } else {
+    console.log(`  withdrawable:      now, since ${date(p.unbondTimestamp)}`);
+  }
+
+  console.log(`  stored rewards:    ${reward(p.rewards)}`);
+  console.log(`  pending rewards:   ${reward(p.pending)}`);
+  console.log(`  claimable rewards: ${reward(p.claimable)}`);
+}
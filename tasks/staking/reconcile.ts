@@ -0,0 +1,313 @@
+import fs from "fs-extra";
+import { BigNumber, utils } from "ethers";
+import { task } from "hardhat/config";
+import { TaskArguments } from "hardhat/types";
+
+import type { CellarStaking, UserStakeStructOutput } from "../../src/types/CellarStaking";
+import { getStaking, loadRegistry } from "../deploy/registry";
+import { createStore, IndexerStore, indexStorePath, loadStore, saveStore, syncStore } from "./indexer";
+import { ONE } from "./rewards";
+
+/**
+ * A single place where contract storage, token balances or the
+ * event index disagree. Token amounts are base-unit strings.
+ */
+export interface Drift {
+  check: string;
+  message: string;
+  user?: string;
+  depositId?: number;
+  expected?: string;
+  actual?: string;
+}
+
+export interface ReconciliationReport {
+  address: string;
+  blockNumber: number;
+  timestamp: number;
+  users: number;
+  deposits: number;
+  totalDeposits: string;
+  totalDepositsWithBoost: string;
+  sumDeposits: string;
+  sumDepositsWithBoost: string;
+  stakingBalance: string;
+  distributionBalance: string;
+  unclaimedRewards: string;
+  remainingSchedule: string;
+  rewardsReady: string;
+  scheduledRewards: string;
+  requiredRewards: string;
+  drift: Drift[];
+}
+
+/**
+ * Walk every given staker's deposits at a block and check that the
+ * contract's books balance:
+ *
+ * - deposits sum to totalDeposits and totalDepositsWithBoost
+ * - each deposit's boosted amount matches its lock and unbonding state
+ * - the staking token balance covers all deposits
+ * - the distribution token balance covers accrued-but-unclaimed rewards,
+ *   the remaining schedule, rewardsReady and scheduled epochs
+ *
+ * If an event index is given, each indexed deposit is also checked
+ * against storage. The sum checks are only meaningful if 'users'
+ * contains every staker.
+ */
+export async function reconcile(
+  staking: CellarStaking,
+  users: string[],
+  blockNumber: number,
+  store?: IndexerStore,
+): Promise<ReconciliationReport> {
+  const overrides = { blockTag: blockNumber };
+  const drift: Drift[] = [];
+
+  const [
+    block,
+    stakingToken,
+    distributionToken,
+    totalDeposits,
+    totalDepositsWithBoost,
+    remainingRewards,
+    rewardsReady,
+    ended,
+    lockTiers,
+    scheduledRewards,
+  ] = await Promise.all([
+    staking.provider.getBlock(blockNumber),
+    staking.stakingToken(overrides),
+    staking.distributionToken(overrides),
+    staking.totalDeposits(overrides),
+    staking.totalDepositsWithBoost(overrides),
+    staking.remainingRewards(overrides),
+    staking.rewardsReady(overrides),
+    staking.ended(overrides),
+    staking.getLockTiers(overrides),
+    staking.scheduledRewards(overrides),
+  ]);
+
+  const { ERC20__factory } = await import("../../src/types/factories/ERC20__factory");
+  const [stakingBalance, distributionBalance] = await Promise.all([
+    ERC20__factory.connect(stakingToken, staking.provider).balanceOf(staking.address, overrides),
+    ERC20__factory.connect(distributionToken, staking.provider).balanceOf(staking.address, overrides),
+  ]);
+
+  let sumDeposits = BigNumber.from(0);
+  let sumDepositsWithBoost = BigNumber.from(0);
+  let unclaimedRewards = BigNumber.from(0);
+  let deposits = 0;
+
+  for (const user of users) {
+    const [stakes, earned] = await Promise.all([
+      staking.getUserStakes(user, overrides),
+      staking.earnedAll(user, overrides),
+    ]);
+
+    deposits += stakes.length;
+    unclaimedRewards = unclaimedRewards.add(earned);
+
+    stakes.forEach((s, depositId) => {
+      sumDeposits = sumDeposits.add(s.amount);
+      sumDepositsWithBoost = sumDepositsWithBoost.add(s.amountWithBoost);
+
+      // Unbonding deposits lose their boost, empty deposits hold nothing.
+      // Deposits in retired tiers keep the tier's boost.
+      let expected: BigNumber;
+      if (s.amount.isZero()) expected = BigNumber.from(0);
+      else if (s.unbondTimestamp > 0) expected = s.amount;
+      else expected = s.amount.add(s.amount.mul(lockTiers[s.lock].boost).div(ONE));
+
+      if (!s.amountWithBoost.eq(expected)) {
+        drift.push({
+          check: "boost",
+          message: "amountWithBoost does not match the deposit's lock and unbonding state",
+          user,
+          depositId,
+          expected: expected.toString(),
+          actual: s.amountWithBoost.toString(),
+        });
+      }
+    });
+
+    if (store) drift.push(...compareIndex(store, user, stakes));
+  }
+
+  if (!sumDeposits.eq(totalDeposits)) {
+    drift.push({
+      check: "totalDeposits",
+      message: "Sum of deposit amounts does not match totalDeposits",
+      expected: totalDeposits.toString(),
+      actual: sumDeposits.toString(),
+    });
+  }
+
+  if (!sumDepositsWithBoost.eq(totalDepositsWithBoost)) {
+    drift.push({
+      check: "totalDepositsWithBoost",
+      message: "Sum of boosted deposit amounts does not match totalDepositsWithBoost",
+      expected: totalDepositsWithBoost.toString(),
+      actual: sumDepositsWithBoost.toString(),
+    });
+  }
+
+  // After an emergency stop the unemitted schedule is returned to the owner
+  const remainingSchedule = ended ? BigNumber.from(0) : remainingRewards;
+  const requiredRewards = unclaimedRewards.add(remainingSchedule).add(rewardsReady).add(scheduledRewards);
+
+  // A contract that pays rewards in its own staking token needs one balance to cover both
+  const sameToken = stakingToken.toLowerCase() === distributionToken.toLowerCase();
+  const requiredStaking = sameToken ? totalDeposits.add(requiredRewards) : totalDeposits;
+
+  if (stakingBalance.lt(requiredStaking)) {
+    drift.push({
+      check: "stakingBalance",
+      message: sameToken
+        ? "Token balance does not cover deposits plus reward obligations"
+        : "Staking token balance does not cover totalDeposits",
+      expected: requiredStaking.toString(),
+      actual: stakingBalance.toString(),
+    });
+  }
+
+  if (!sameToken && distributionBalance.lt(requiredRewards)) {
+    drift.push({
+      check: "distributionBalance",
+      message:
+        "Distribution token balance does not cover unclaimed rewards, remaining schedule, rewardsReady and scheduled epochs",
+      expected: requiredRewards.toString(),
+      actual: distributionBalance.toString(),
+    });
+  }
+
+  return {
+    address: staking.address,
+    blockNumber,
+    timestamp: block.timestamp,
+    users: users.length,
+    deposits,
+    totalDeposits: totalDeposits.toString(),
+    totalDepositsWithBoost: totalDepositsWithBoost.toString(),
+    sumDeposits: sumDeposits.toString(),
+    sumDepositsWithBoost: sumDepositsWithBoost.toString(),
+    stakingBalance: stakingBalance.toString(),
+    distributionBalance: distributionBalance.toString(),
+    unclaimedRewards: unclaimedRewards.toString(),
+    remainingSchedule: remainingSchedule.toString(),
+    rewardsReady: rewardsReady.toString(),
+    scheduledRewards: scheduledRewards.toString(),
+    requiredRewards: requiredRewards.toString(),
+    drift,
+  };
+}
+
+task("staking:reconcile", "Checks that a CellarStaking contract's deposits and token balances balance")
+  .addParam("staking", "Staking contract address, or cellar name from the deployment registry")
+  .addOptionalParam("index", "Path of the event index (default: deployments/index/<network>/<address>.json)")
+  .addOptionalParam("users", "Comma-separated stakers to check in addition to those in the index")
+  .addFlag("json", "Print the report as JSON")
+  .setAction(async function (args: TaskArguments, hre) {
+    const staking = await getStaking(hre, args.staking);
+    const { chainId } = await hre.ethers.provider.getNetwork();
+    const blockNumber = await hre.ethers.provider.getBlockNumber();
+    const path = args.index ?? indexStorePath(hre.config.paths.root, hre.network.name, staking.address);
+
+    // Bring the index up to the block being reconciled, so it knows every staker
+    let store: IndexerStore;
+    if (fs.existsSync(path)) {
+      store = loadStore(path, chainId, staking.address);
+    } else {
+      const registry = loadRegistry(hre.config.paths.root, hre.network.name, chainId);
+      const entry = Object.values(registry.contracts).find(c => c.address === staking.address);
+      store = createStore(hre.network.name, chainId, staking.address, entry?.blockNumber ?? 0);
+    }
+    await syncStore(staking, store, blockNumber);
+    saveStore(path, store);
+
+    const extra: string[] = args.users ? args.users.split(",").map((u: string) => utils.getAddress(u.trim())) : [];
+    const users = [...new Set([...Object.keys(store.users), ...extra])];
+
+    const report = await reconcile(staking, users, blockNumber, store);
+
+    if (args.json) {
+      console.log(JSON.stringify(report, null, 2));
+    } else {
+      printReport(report);
+    }
+
+    if (report.drift.length > 0) process.exitCode = 1;
+  });
+
+// ============================================ HELPERS ============================================
+
+function compareIndex(store: IndexerStore, user: string, stakes: UserStakeStructOutput[]): Drift[] {
+  const drift: Drift[] = [];
+  const indexed = store.users[utils.getAddress(user)]?.deposits ?? [];
+
+  if (indexed.length !== stakes.length) {
+    drift.push({
+      check: "index",
+      message: "Number of indexed deposits does not match storage",
+      user,
+      expected: stakes.length.toString(),
+      actual: indexed.length.toString(),
+    });
+  }
+
+  stakes.forEach((s, depositId) => {
+    const d = indexed[depositId];
+    if (!d) return;
+
+    if (!s.amount.eq(d.amount)) {
+      drift.push({
+        check: "index",
+        message: "Indexed deposit amount does not match storage",
+        user,
+        depositId,
+        expected: s.amount.toString(),
+        actual: d.amount,
+      });
+    }
+
+    const unbonding = !s.amount.isZero() && s.unbondTimestamp > 0;
+    if (unbonding !== (d.status === "unbonding")) {
+      drift.push({
+        check: "index",
+        message: `Indexed deposit is ${d.status}, but storage ${unbonding ? "is" : "is not"} unbonding`,
+        user,
+        depositId,
+      });
+    }
+  });
+
+  return drift;
+}
+
+function printReport(r: ReconciliationReport): void {
+  console.log(`Reconciliation of CellarStaking ${r.address} at block ${r.blockNumber}`);
+  console.log(`  users / deposits:          ${r.users} / ${r.deposits}`);
+  console.log(`  totalDeposits:             ${r.totalDeposits} (sum ${r.sumDeposits})`);
+  console.log(`  totalDepositsWithBoost:    ${r.totalDepositsWithBoost} (sum ${r.sumDepositsWithBoost})`);
+  console.log(`  staking token balance:     ${r.stakingBalance}`);
+  console.log(`  distribution balance:      ${r.distributionBalance}`);
+  console.log(`  unclaimed rewards:         ${r.unclaimedRewards}`);
+  console.log(`  remaining schedule:        ${r.remainingSchedule}`);
+  console.log(`  rewards ready:             ${r.rewardsReady}`);
+  console.log(`  scheduled rewards:         ${r.scheduledRewards}`);
+  console.log(`  required rewards:          ${r.requiredRewards}`);
+  console.log();
+
+  if (r.drift.length === 0) {
+    console.log("OK: no drift found");
+    return;
+  }
+
+  console.log(`DRIFT: ${r.drift.length} problems found`);
+  for (const d of r.drift) {
+    const where = [d.user, d.depositId === undefined ? undefined : `deposit ${d.depositId}`].filter(Boolean).join(" ");
+    const values = d.expected === undefined ? "" : ` (expected ${d.expected}, actual ${d.actual})`;
+
+    console.log(`  [${d.check}]${where ? ` ${where}:` : ""} ${d.message}${values}`);
+  }
+}
@@ -0,0 +1,249 @@
+import { BigNumber, BigNumberish, constants } from "ethers";
+
+import type { CellarStaking, ScheduledEpochStructOutput } from "../../src/types/CellarStaking";
+import { EmissionCurveModel, loadEmissionCurve } from "./curves";
+
+/**
+ * Off-chain mirror of CellarStaking reward accounting.
+ *
+ * Every function reproduces the corresponding contract function exactly,
+ * including the order of integer divisions and the uint112 truncation
+ * applied when per-stake values are written to storage, so results match
+ * what the contract would pay out at the given timestamp to the wei.
+ */
+
+export const ONE = constants.WeiPerEther;
+
+const UINT112_MAX = BigNumber.from(2).pow(112).sub(1);
+
+/**
+ * Global contract state needed to compute rewardPerToken.
+ * 'scheduledEpochs' holds the epochs which have not been activated, and
+ * 'emissionCurves' the model of every curve they or the current epoch use.
+ * Once 'ended', nothing more is emitted, and nothing can be claimed unless
+ * the contract was stopped with rewards 'claimable'.
+ */
+export interface RewardState {
+  totalDeposits: BigNumber;
+  totalDepositsWithBoost: BigNumber;
+  rewardPerTokenStored: BigNumber;
+  lastAccountingTimestamp: BigNumber;
+  endTimestamp: BigNumber;
+  currentEpochDuration: BigNumber;
+  epochRewards: BigNumber;
+  currentEmissionCurve: string;
+  scheduledEpochs: ScheduledEpochStructOutput[];
+  emissionCurves: Record<string, EmissionCurveModel>;
+  ended: boolean;
+  claimable: boolean;
+}
+
+/**
+ * The reward-relevant fields of a UserStake.
+ */
+export interface StakeRewardState {
+  amount: BigNumber;
+  amountWithBoost: BigNumber;
+  rewardPerTokenPaid: BigNumber;
+  rewards: BigNumber;
+}
+
+export interface DepositRewards {
+  depositId: number;
+  rewards: BigNumber;
+}
+
+export interface UserRewards {
+  deposits: DepositRewards[];
+  total: BigNumber;
+}
+
+/**
+ * Read the global reward state of a staking contract at a given block.
+ */
+export async function getRewardState(
+  staking: CellarStaking,
+  blockTag: number | string = "latest",
+): Promise<RewardState> {
+  const overrides = { blockTag };
+
+  const [
+    totalDeposits,
+    totalDepositsWithBoost,
+    rewardPerTokenStored,
+    endTimestamp,
+    currentEpochDuration,
+    epochRewards,
+    currentEmissionCurve,
+    lastAccountingTimestamp,
+    scheduledEpochs,
+    ended,
+    claimable,
+  ] = await Promise.all([
+    staking.totalDeposits(overrides),
+    staking.totalDepositsWithBoost(overrides),
+    staking.rewardPerTokenStored(overrides),
+    staking.endTimestamp(overrides),
+    staking.currentEpochDuration(overrides),
+    staking.epochRewards(overrides),
+    staking.currentEmissionCurve(overrides),
+    staking.lastAccountingTimestamp(overrides),
+    staking.getScheduledEpochs(overrides),
+    staking.ended(overrides),
+    staking.claimable(overrides),
+  ]);
+
+  const emissionCurves: Record<string, EmissionCurveModel> = {};
+  for (const curve of [currentEmissionCurve, ...scheduledEpochs.map(e => e.curve)]) {
+    const model = await loadEmissionCurve(staking.provider, curve);
+    if (model) emissionCurves[curve] = model;
+  }
+
+  return {
+    totalDeposits,
+    totalDepositsWithBoost,
+    rewardPerTokenStored,
+    lastAccountingTimestamp,
+    endTimestamp,
+    currentEpochDuration,
+    epochRewards,
+    currentEmissionCurve,
+    scheduledEpochs,
+    emissionCurves,
+    ended,
+    claimable,
+  };
+}
+
+/**
+ * Mirrors latestRewardsTimestamp().
+ */
+export function latestRewardsTimestamp(state: RewardState, timestamp: BigNumberish): BigNumber {
+  const now = BigNumber.from(timestamp);
+
+  return now.lt(state.endTimestamp) ? now : state.endTimestamp;
+}
+
+/**
+ * Mirrors rewardPerToken(), evaluated as if block.timestamp were 'timestamp'.
+ * Scheduled epochs which have started by then are activated in order, as
+ * the contract's next reward update would.
+ */
+export function rewardPerToken(state: RewardState, timestamp: BigNumberish): BigNumber {
+  let current = state;
+
+  for (const epoch of state.scheduledEpochs) {
+    if (epoch.startTimestamp.gt(timestamp)) break;
+
+    current = {
+      ...current,
+      rewardPerTokenStored: accrue(current, timestamp),
+      endTimestamp: epoch.startTimestamp.add(epoch.duration),
+      currentEpochDuration: epoch.duration,
+      epochRewards: epoch.amount,
+      currentEmissionCurve: epoch.curve,
+      lastAccountingTimestamp: epoch.startTimestamp,
+    };
+  }
+
+  return accrue(current, timestamp);
+}
+
+/**
+ * Mirrors _claimableRewardPerToken(): nothing accrues once the contract has ended.
+ */
+export function claimableRewardPerToken(state: RewardState, timestamp: BigNumberish): BigNumber {
+  if (state.ended) return state.rewardPerTokenStored;
+
+  return rewardPerToken(state, timestamp);
+}
+
+/**
+ * Mirrors _emitted() for the state's current epoch.
+ */
+export function emitted(state: RewardState, timestamp: BigNumberish): BigNumber {
+  const start = state.endTimestamp.sub(state.currentEpochDuration);
+  if (start.gte(timestamp)) return BigNumber.from(0);
+
+  const elapsed = BigNumber.from(timestamp).sub(start);
+  if (state.currentEmissionCurve === constants.AddressZero) {
+    return elapsed.mul(state.epochRewards.div(state.currentEpochDuration));
+  }
+
+  const curve = state.emissionCurves[state.currentEmissionCurve];
+  return curve.emitted(state.epochRewards, state.currentEpochDuration, elapsed);
+}
+
+/**
+ * Mirrors _epochRewardPerToken(): accrues over the state's current epoch only.
+ */
+function accrue(state: RewardState, timestamp: BigNumberish): BigNumber {
+  const latestTimestamp = latestRewardsTimestamp(state, timestamp);
+
+  if (state.totalDeposits.isZero()) return state.rewardPerTokenStored;
+
+  const rewardsForTime = emitted(state, latestTimestamp).sub(emitted(state, state.lastAccountingTimestamp));
+  const newRewardsPerToken = rewardsForTime.mul(ONE).div(state.totalDepositsWithBoost);
+
+  return state.rewardPerTokenStored.add(newRewardsPerToken);
+}
+
+/**
+ * Mirrors _earned().
+ */
+export function earned(stake: StakeRewardState, rewardPerTokenStored: BigNumber): BigNumber {
+  const rewardPerTokenAcc = rewardPerTokenStored.sub(stake.rewardPerTokenPaid);
+
+  return stake.amountWithBoost.mul(rewardPerTokenAcc).div(ONE);
+}
+
+/**
+ * Mirrors _updateRewardForStake(), returning the updated stake.
+ */
+export function updateRewardForStake<T extends StakeRewardState>(stake: T, rewardPerTokenStored: BigNumber): T {
+  if (stake.amount.isZero()) return stake;
+
+  // uint112 additions are checked in the contract, but the cast of 'earned' is not
+  const rewards = stake.rewards.add(earned(stake, rewardPerTokenStored).and(UINT112_MAX));
+  if (rewards.gt(UINT112_MAX)) throw new Error("Arithmetic overflow in uint112 rewards");
+
+  return { ...stake, rewards, rewardPerTokenPaid: rewardPerTokenStored.and(UINT112_MAX) };
+}
+
+/**
+ * Rewards each stake could claim at 'timestamp', if claimed in a block
+ * with that timestamp and no other transaction touched the contract first.
+ * Mirrors earned(): after an emergency stop, rewards no longer grow, and are
+ * zero unless they were left claimable.
+ */
+export function calculateRewards(state: RewardState, stakes: StakeRewardState[], timestamp: BigNumberish): UserRewards {
+  const rewardPerTokenStored = claimableRewardPerToken(state, timestamp);
+  const forfeited = state.ended && !state.claimable;
+
+  const deposits = stakes.map((s, depositId) => ({
+    depositId,
+    rewards: forfeited ? BigNumber.from(0) : updateRewardForStake(s, rewardPerTokenStored).rewards,
+  }));
+
+  const total = deposits.reduce((acc, d) => acc.add(d.rewards), BigNumber.from(0));
+
+  return { deposits, total };
+}
+
+/**
+ * Read contract state and compute a user's claimable rewards at 'timestamp'
+ * (default: the latest block's timestamp).
+ */
+export async function getClaimableRewards(
+  staking: CellarStaking,
+  user: string,
+  timestamp?: BigNumberish,
+): Promise<UserRewards> {
+  const block = await staking.provider.getBlock("latest");
+  const [state, stakes] = await Promise.all([
+    getRewardState(staking, block.number),
+    staking.getUserStakes(user, { blockTag: block.number }),
+  ]);
+
+  return calculateRewards(state, stakes, timestamp ?? block.timestamp);
+}
@@ -0,0 +1,295 @@
+import { BigNumber, constants, utils } from "ethers";
+import { task } from "hardhat/config";
+import { TaskArguments } from "hardhat/types";
+
+import type { CellarStaking } from "../../src/types/CellarStaking";
+import { getStaking } from "../deploy/registry";
+
+/**
+ * An epoch queued with scheduleEpoch which has not been activated.
+ */
+export interface ScheduledEpochStatus {
+  epochId: number;
+  startTimestamp: number;
+  endTimestamp: number;
+  amount: string;
+  rewardRate: string;
+  emissionCurve: string;
+}
+
+/**
+ * Snapshot of a staking program's state. Token amounts are base-unit strings.
+ */
+export interface StakingStatus {
+  address: string;
+  blockNumber: number;
+  timestamp: number;
+  owner: string;
+  pendingOwner: string;
+  funder: string;
+  guardian: string;
+  stakingToken: string;
+  stakingDecimals: number;
+  distributionToken: string;
+  distributionDecimals: number;
+  distributionSymbol: string;
+  currentEpochDuration: number;
+  nextEpochDuration: number;
+  currentEmissionCurve: string;
+  nextEmissionCurve: string;
+  epochRewards: string;
+  rewardsReady: string;
+  scheduledRewards: string;
+  scheduledEpochs: ScheduledEpochStatus[];
+  endTimestamp: number;
+  timeRemaining: number;
+  rewardRate: string;
+  rewardPerTokenStored: string;
+  rewardPerToken: string;
+  totalDeposits: string;
+  totalDepositsWithBoost: string;
+  minimumDeposit: string;
+  paused: boolean;
+  ended: boolean;
+  claimable: boolean;
+  rewardBalance: string;
+  remainingSchedule: string;
+  emittedThisEpoch: string;
+  obligations: string;
+  surplus: string;
+  unpaidRewards: string;
+  recoverable: string;
+}
+
+export async function getStakingStatus(staking: CellarStaking): Promise<StakingStatus> {
+  const block = await staking.provider.getBlock("latest");
+  const overrides = { blockTag: block.number };
+
+  const [
+    stakingToken,
+    distributionTokenAddress,
+    currentEpochDuration,
+    nextEpochDuration,
+    rewardsReady,
+    endTimestamp,
+    rewardRate,
+    rewardPerTokenStored,
+    [rewardPerToken],
+    totalDeposits,
+    totalDepositsWithBoost,
+    minimumDeposit,
+    paused,
+    ended,
+    claimable,
+    nextScheduledEpoch,
+    scheduledRewards,
+    scheduledEpochs,
+    currentEmissionCurve,
+    nextEmissionCurve,
+    epochRewards,
+    remainingRewards,
+    unpaidRewards,
+    owner,
+    pendingOwner,
+    funder,
+    guardian,
+  ] = await Promise.all([
+    staking.stakingToken(overrides),
+    staking.distributionToken(overrides),
+    staking.currentEpochDuration(overrides),
+    staking.nextEpochDuration(overrides),
+    staking.rewardsReady(overrides),
+    staking.endTimestamp(overrides),
+    staking.rewardRate(overrides),
+    staking.rewardPerTokenStored(overrides),
+    staking.rewardPerToken(overrides),
+    staking.totalDeposits(overrides),
+    staking.totalDepositsWithBoost(overrides),
+    staking.minimumDeposit(overrides),
+    staking.paused(overrides),
+    staking.ended(overrides),
+    staking.claimable(overrides),
+    staking.nextScheduledEpoch(overrides),
+    staking.scheduledRewards(overrides),
+    staking.getScheduledEpochs(overrides),
+    staking.currentEmissionCurve(overrides),
+    staking.nextEmissionCurve(overrides),
+    staking.epochRewards(overrides),
+    staking.remainingRewards(overrides),
+    staking.unpaidRewards(overrides),
+    staking.owner(overrides),
+    staking.pendingOwner(overrides),
+    staking.funder(overrides),
+    staking.guardian(overrides),
+  ]);
+
+  const { ERC20__factory } = await import("../../src/types/factories/ERC20__factory");
+  const distributionToken = ERC20__factory.connect(distributionTokenAddress, staking.provider);
+  const [rewardBalance, distributionDecimals, distributionSymbol, stakingDecimals] = await Promise.all([
+    distributionToken.balanceOf(staking.address, overrides),
+    distributionToken.decimals(overrides),
+    distributionToken.symbol(overrides),
+    ERC20__factory.connect(stakingToken, staking.provider).decimals(overrides),
+  ]);
+
+  const timeRemaining = Math.max(endTimestamp.toNumber() - block.timestamp, 0);
+  const elapsed = Math.min(currentEpochDuration.toNumber() - timeRemaining, currentEpochDuration.toNumber());
+
+  // Rewards emitted so far this epoch are an upper bound on what stakers are still owed
+  // from it. Unclaimed rewards from earlier epochs are not visible without walking stakes.
+  // After an emergency stop, the unemitted schedule has already been returned to the owner.
+  // Flat epochs lose the remainder of dividing by their duration, curved epochs emit it all
+  const remainingSchedule = ended ? BigNumber.from(0) : remainingRewards;
+  const emittedThisEpoch =
+    currentEmissionCurve === constants.AddressZero
+      ? rewardRate.mul(Math.max(elapsed, 0))
+      : epochRewards.sub(remainingRewards);
+  const owedThisEpoch = ended && !claimable ? BigNumber.from(0) : emittedThisEpoch;
+  const obligations = remainingSchedule.add(owedThisEpoch).add(rewardsReady).add(scheduledRewards);
+
+  // What recoverERC20 would release, given the obligations the contract tracks itself
+  const protectedRewards = unpaidRewards.add(rewardsReady).add(scheduledRewards);
+  const recoverable = rewardBalance.gt(protectedRewards) ? rewardBalance.sub(protectedRewards) : BigNumber.from(0);
+
+  return {
+    address: staking.address,
+    blockNumber: block.number,
+    timestamp: block.timestamp,
+    owner,
+    pendingOwner,
+    funder,
+    guardian,
+    stakingToken,
+    stakingDecimals,
+    distributionToken: distributionTokenAddress,
+    distributionDecimals,
+    distributionSymbol,
+    currentEpochDuration: currentEpochDuration.toNumber(),
+    nextEpochDuration: nextEpochDuration.toNumber(),
+    currentEmissionCurve,
+    nextEmissionCurve,
+    epochRewards: epochRewards.toString(),
+    rewardsReady: rewardsReady.toString(),
+    scheduledRewards: scheduledRewards.toString(),
+    scheduledEpochs: scheduledEpochs.map((e, i) => ({
+      epochId: nextScheduledEpoch.toNumber() + i,
+      startTimestamp: e.startTimestamp.toNumber(),
+      endTimestamp: e.startTimestamp.add(e.duration).toNumber(),
+      amount: e.amount.toString(),
+      rewardRate: e.amount.div(e.duration).toString(),
+      emissionCurve: e.curve,
+    })),
+    endTimestamp: endTimestamp.toNumber(),
+    timeRemaining,
+    rewardRate: rewardRate.toString(),
+    rewardPerTokenStored: rewardPerTokenStored.toString(),
+    rewardPerToken: rewardPerToken.toString(),
+    totalDeposits: totalDeposits.toString(),
+    totalDepositsWithBoost: totalDepositsWithBoost.toString(),
+    minimumDeposit: minimumDeposit.toString(),
+    paused,
+    ended,
+    claimable,
+    rewardBalance: rewardBalance.toString(),
+    remainingSchedule: remainingSchedule.toString(),
+    emittedThisEpoch: emittedThisEpoch.toString(),
+    obligations: obligations.toString(),
+    surplus: rewardBalance.sub(obligations).toString(),
+    unpaidRewards: unpaidRewards.toString(),
+    recoverable: recoverable.toString(),
+  };
+}
+
+task("staking:status", "Prints a health report for a CellarStaking program")
+  .addParam("staking", "Staking contract address, or cellar name from the deployment registry")
+  .addFlag("json", "Print the report as JSON")
+  .setAction(async function (args: TaskArguments, hre) {
+    const staking = await getStaking(hre, args.staking);
+    const status = await getStakingStatus(staking);
+
+    if (args.json) {
+      console.log(JSON.stringify(status, null, 2));
+      return;
+    }
+
+    printStatus(status);
+  });
+
+function printStatus(s: StakingStatus): void {
+  const dist = (amount: string) => `${utils.formatUnits(amount, s.distributionDecimals)} ${s.distributionSymbol}`;
+  const date = (timestamp: number) => (timestamp === 0 ? "never" : new Date(timestamp * 1000).toISOString());
+  const stake = (amount: string) => utils.formatUnits(amount, s.stakingDecimals);
+  const boostRatio = BigNumber.from(s.totalDeposits).isZero()
+    ? "n/a"
+    : utils.formatUnits(BigNumber.from(s.totalDepositsWithBoost).mul(utils.parseUnits("1")).div(s.totalDeposits));
+
+  console.log(`CellarStaking ${s.address} at block ${s.blockNumber} (${date(s.timestamp)})`);
+  console.log();
+  console.log("Status");
+  console.log(`  paused:                    ${s.paused}`);
+  console.log(`  ended:                     ${s.ended}`);
+  console.log(`  claimable:                 ${s.claimable}`);
+  console.log();
+  console.log("Roles");
+  console.log(`  owner:                     ${s.owner}`);
+  if (s.pendingOwner !== constants.AddressZero) {
+    console.log(`  pending owner:             ${s.pendingOwner} (must call acceptOwnership)`);
+  }
+  console.log(`  funder:                    ${s.funder}`);
+  console.log(`  guardian:                  ${s.guardian}`);
+  console.log();
+  console.log("Schedule");
+  console.log(`  current epoch duration:    ${formatDuration(s.currentEpochDuration)}`);
+  console.log(`  next epoch duration:       ${formatDuration(s.nextEpochDuration)}`);
+  console.log(`  end timestamp:             ${date(s.endTimestamp)}`);
+  console.log(`  time remaining:            ${formatDuration(s.timeRemaining)}`);
+  console.log(`  reward rate:               ${dist(s.rewardRate)} per second${curved(s.currentEmissionCurve)}`);
+  console.log(`  epoch rewards:             ${dist(s.epochRewards)}`);
+  console.log(`  emission curve:            ${formatCurve(s.currentEmissionCurve)}`);
+  console.log(`  next emission curve:       ${formatCurve(s.nextEmissionCurve)}`);
+  console.log(`  rewards ready:             ${dist(s.rewardsReady)}`);
+  console.log();
+  console.log(`Scheduled epochs (${dist(s.scheduledRewards)} queued)`);
+  if (s.scheduledEpochs.length === 0) console.log("  none");
+  for (const e of s.scheduledEpochs) {
+    const active = e.startTimestamp <= s.timestamp ? " (started, activates on next update)" : "";
+    console.log(`  epoch ${e.epochId}: ${date(e.startTimestamp)} to ${date(e.endTimestamp)}${active}`);
+    console.log(`    ${dist(e.amount)} at ${dist(e.rewardRate)} per second${curved(e.emissionCurve)}`);
+  }
+  console.log();
+  console.log("Accounting");
+  console.log(`  rewardPerTokenStored:      ${s.rewardPerTokenStored}`);
+  console.log(`  rewardPerToken():          ${s.rewardPerToken}`);
+  console.log(`  total deposits:            ${stake(s.totalDeposits)}`);
+  console.log(`  total deposits with boost: ${stake(s.totalDepositsWithBoost)} (x${boostRatio})`);
+  console.log(`  minimum deposit:           ${stake(s.minimumDeposit)}`);
+  console.log();
+  console.log("Solvency");
+  console.log(`  reward balance:            ${dist(s.rewardBalance)}`);
+  console.log(`  remaining schedule:        ${dist(s.remainingSchedule)}`);
+  console.log(`  emitted this epoch:        ${dist(s.emittedThisEpoch)}`);
+  console.log(`  estimated obligations:     ${dist(s.obligations)}`);
+  console.log(`  surplus:                   ${dist(s.surplus)}`);
+  console.log(`  unpaid rewards:            ${dist(s.unpaidRewards)}`);
+  console.log(`  recoverable:               ${dist(s.recoverable)}`);
+
+  if (BigNumber.from(s.surplus).isNegative()) {
+    console.log("WARNING: reward balance does not cover the current schedule");
+  }
+}
+
+function formatCurve(curve: string): string {
+  return curve === constants.AddressZero ? "flat" : curve;
+}
+
+function curved(curve: string): string {
+  return curve === constants.AddressZero ? "" : " on average";
+}
+
+function formatDuration(seconds: number): string {
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+
+  return `${days}d ${hours}h ${minutes}m (${seconds}s)`;
+}
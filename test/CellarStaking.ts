@@ -7,7 +7,13 @@ import { expect } from "chai";
 const { loadFixture } = waffle;
 
 import type { CellarStaking } from "../src/types/CellarStaking";
+import type { CellarStakingPositions } from "../src/types/CellarStakingPositions";
+import type { LinearDecayCurve } from "../src/types/LinearDecayCurve";
+import type { StepDecayCurve } from "../src/types/StepDecayCurve";
 import type { MockERC20 } from "../src/types/MockERC20";
+import type { MockERC20Permit } from "../src/types/MockERC20Permit";
+import type { MockFeeOnTransferERC20 } from "../src/types/MockFeeOnTransferERC20";
+import type { MockRebasingERC20 } from "../src/types/MockRebasingERC20";
 import { Block } from "@ethersproject/providers";
 import {
   ether,
@@ -17,6 +23,7 @@ import {
   rand,
   shuffle,
   setNextBlockTimestamp,
+  signPermit,
   expectRoundedEqual,
   claimWithRoundedRewardCheck,
   setupAdvancedScenario1,
@@ -25,7 +32,18 @@ import {
   fundAndApprove,
   setupAdvancedScenario3,
   setupAdvancedScenario4,
+  setupAdvancedScenario5,
+  ScenarioInfo,
 } from "./utils";
+import { calculateRewards, getRewardState, rewardPerToken } from "../tasks/staking/rewards";
+import { EmissionCurveModel, linearDecayCurve, stepDecayCurve } from "../tasks/staking/curves";
+import { createStore, IndexerStore, syncStore } from "../tasks/staking/indexer";
+import { reconcile } from "../tasks/staking/reconcile";
+import { FundingState, getFundingState, planFunding } from "../tasks/staking/funding";
+import { buildSafeBatch } from "../tasks/safe/transactions";
+import type { DeploymentRegistry, RegistryEntry } from "../tasks/deploy/registry";
+import { DeploymentManifest, validateManifest } from "../tasks/deploy/manifest";
+import { getPositions } from "../tasks/staking/positions";
 
 const oneDaySec = 60 * 60 * 24;
 const oneWeekSec = oneDaySec * 7;
@@ -35,7 +53,7 @@ describe("CellarStaking", () => {
   let ctx: TestContext;
   const initialTokenAmount = ether("20000000"); // 20M
 
-  // Lock enum
+  // Lock tiers
   const lockDay = 0;
   const lockWeek = 1;
   const lockTwoWeeks = 2;
@@ -59,12 +77,8 @@ describe("CellarStaking", () => {
       tokenStake.address,
       tokenDist.address,
       oneMonthSec,
-      ether("0.1"),
-      ether("0.4"),
-      ether("1"),
-      oneDaySec,
-      oneWeekSec,
-      oneWeekSec * 2
+      [ether("0.1"), ether("0.4"), ether("1")],
+      [oneDaySec, oneWeekSec, oneWeekSec * 2],
     ];
 
     const staking = <CellarStaking>await deploy("CellarStaking", admin, params);
@@ -136,9 +150,7 @@ describe("CellarStaking", () => {
 
       it("should revert for an invalid lock value", async () => {
         const { stakingUser } = ctx;
-        await expect(stakingUser.stake(ether("1"), 99)).to.be.revertedWith(
-          "function was called with incorrect parameter",
-        );
+        await expect(stakingUser.stake(ether("1"), 99)).to.be.revertedWith("USR_InvalidLockValue(99)");
       });
 
       it("should allow one user to stake with 100% proportional share", async () => {
@@ -147,7 +159,7 @@ describe("CellarStaking", () => {
 
         await expect(stakingUser.stake(stakeAmount, lockDay))
           .to.emit(stakingUser, "Stake")
-          .withArgs(user.address, 0, stakeAmount);
+          .withArgs(user.address, 0, stakeAmount, user.address);
 
         const stake = await stakingUser.stakes(user.address, 0);
         const totalDeposits = await stakingUser.totalDeposits();
@@ -172,21 +184,21 @@ describe("CellarStaking", () => {
         await expect(stakingUser.stake(stakeAmount, lockTwoWeeks)).to.not.be.reverted;
 
         let stake = await stakingUser.stakes(user.address, 0);
-        let boostMultiplier = stakeAmount.mul(await stakingUser.SHORT_BOOST()).div(ether("1"));
+        let boostMultiplier = stakeAmount.mul((await stakingUser.lockTiers(lockDay)).boost).div(ether("1"));
         let expectedAmountWithBoost = stakeAmount.add(boostMultiplier);
 
         expect(stake.amount).to.equal(stakeAmount);
         expect(stake.amountWithBoost).to.equal(expectedAmountWithBoost);
 
         stake = await stakingUser.stakes(user.address, 1);
-        boostMultiplier = stakeAmount.mul(await stakingUser.MEDIUM_BOOST()).div(ether("1"));
+        boostMultiplier = stakeAmount.mul((await stakingUser.lockTiers(lockWeek)).boost).div(ether("1"));
         expectedAmountWithBoost = stakeAmount.add(boostMultiplier);
 
         expect(stake.amount).to.equal(stakeAmount);
         expect(stake.amountWithBoost).to.equal(expectedAmountWithBoost);
 
         stake = await stakingUser.stakes(user.address, 2);
-        boostMultiplier = stakeAmount.mul(await stakingUser.LONG_BOOST()).div(ether("1"));
+        boostMultiplier = stakeAmount.mul((await stakingUser.lockTiers(lockTwoWeeks)).boost).div(ether("1"));
         expectedAmountWithBoost = stakeAmount.add(boostMultiplier);
 
         expect(stake.amount).to.equal(stakeAmount);
@@ -440,35 +452,37 @@ describe("CellarStaking", () => {
 
       it("should revert if passed an out of bounds deposit ID", async () => {
         const { stakingUser } = ctx;
-        await expect(stakingUser.unbond(2)).to.be.reverted;
+        await expect(stakingUser["unbond(uint256)"](2)).to.be.reverted;
       });
 
       it("should revert if the specified deposit is already unbonding", async () => {
         const { stakingUser } = ctx;
-        await expect(stakingUser.unbond(0)).to.not.be.reverted;
+        await expect(stakingUser["unbond(uint256)"](0)).to.not.be.reverted;
 
-        await expect(stakingUser.unbond(0)).to.be.revertedWith("USR_AlreadyUnbonding");
+        await expect(stakingUser["unbond(uint256)"](0)).to.be.revertedWith("USR_AlreadyUnbonding");
       });
 
       it("should not allow a user to unbond if the contract is paused", async () => {
         const { staking, stakingUser } = ctx;
 
         await staking.setPaused(true);
-        await expect(stakingUser.unbond(0)).to.be.revertedWith("STATE_ContractPaused");
+        await expect(stakingUser["unbond(uint256)"](0)).to.be.revertedWith("STATE_ContractPaused");
       });
 
       it("should unbond a stake and remove any boosts", async () => {
         const { stakingUser, user } = ctx;
 
         const stake = await stakingUser.stakes(user.address, 0);
-        const boostMultiplier = stakeAmount.mul(await stakingUser.SHORT_BOOST()).div(ether("1"));
+        const boostMultiplier = stakeAmount.mul((await stakingUser.lockTiers(lockDay)).boost).div(ether("1"));
         const expectedAmountWithBoost = stakeAmount.add(boostMultiplier);
         expect(stake.amount).to.equal(stakeAmount);
         expect(stake.amountWithBoost).to.equal(expectedAmountWithBoost);
         expect(stake.unbondTimestamp).to.equal(0);
         expect(stake.lock).to.equal(lockDay);
 
-        await expect(stakingUser.unbond(0)).to.emit(stakingUser, "Unbond").withArgs(user.address, 0, stakeAmount);
+        await expect(stakingUser["unbond(uint256)"](0))
+          .to.emit(stakingUser, "Unbond")
+          .withArgs(user.address, 0, stakeAmount);
 
         // Check updated stake
         const updatedStake = await stakingUser.stakes(user.address, 0);
@@ -481,6 +495,103 @@ describe("CellarStaking", () => {
       });
     });
 
+    describe("unbond, partial amount", () => {
+      const rewardPerEpoch = ether(oneWeekSec.toString());
+      const stakeAmount = ether("1000");
+
+      beforeEach(async () => {
+        await ctx.staking.setRewardsDuration(oneWeekSec);
+
+        await ctx.staking.notifyRewardAmount(rewardPerEpoch);
+        await ctx.stakingUser.stake(stakeAmount, lockTwoWeeks);
+      });
+
+      it("should revert if the amount is zero", async () => {
+        const { stakingUser } = ctx;
+        await expect(stakingUser["unbond(uint256,uint256)"](0, 0)).to.be.revertedWith("USR_ZeroAssets");
+      });
+
+      it("should revert if the amount is larger than the deposit", async () => {
+        const { stakingUser } = ctx;
+        await expect(stakingUser["unbond(uint256,uint256)"](0, stakeAmount.add(1))).to.be.revertedWith(
+          "USR_InsufficientDeposit",
+        );
+      });
+
+      it("should revert if the specified deposit is already unbonding", async () => {
+        const { stakingUser } = ctx;
+        await stakingUser["unbond(uint256)"](0);
+
+        await expect(stakingUser["unbond(uint256,uint256)"](0, stakeAmount.div(2))).to.be.revertedWith(
+          "USR_AlreadyUnbonding",
+        );
+      });
+
+      it("should unbond the whole deposit if passed the full amount", async () => {
+        const { stakingUser, user } = ctx;
+
+        await expect(stakingUser["unbond(uint256,uint256)"](0, stakeAmount))
+          .to.emit(stakingUser, "Unbond")
+          .withArgs(user.address, 0, stakeAmount)
+          .and.not.to.emit(stakingUser, "Split");
+
+        const stakes = await stakingUser.getUserStakes(user.address);
+        expect(stakes.length).to.equal(1);
+        expect(stakes[0].amountWithBoost).to.equal(stakeAmount);
+      });
+
+      it("should split off the unbonded amount into a new deposit without boost", async () => {
+        const { stakingUser, user } = ctx;
+        const unbondAmount = ether("400");
+        const remainingAmount = stakeAmount.sub(unbondAmount);
+
+        await expect(stakingUser["unbond(uint256,uint256)"](0, unbondAmount))
+          .to.emit(stakingUser, "Split")
+          .withArgs(user.address, 0, 1, unbondAmount)
+          .and.to.emit(stakingUser, "Unbond")
+          .withArgs(user.address, 1, unbondAmount);
+
+        const latestBlock = await ethers.provider.getBlock("latest");
+        const [locked, unbonding] = await stakingUser.getUserStakes(user.address);
+        const boost = (await stakingUser.lockTiers(lockTwoWeeks)).boost;
+
+        expect(locked.amount).to.equal(remainingAmount);
+        expect(locked.amountWithBoost).to.equal(remainingAmount.add(remainingAmount.mul(boost).div(ether("1"))));
+        expect(locked.unbondTimestamp).to.equal(0);
+
+        expect(unbonding.amount).to.equal(unbondAmount);
+        expect(unbonding.amountWithBoost).to.equal(unbondAmount);
+        expect(unbonding.unbondTimestamp).to.equal(latestBlock.timestamp + oneWeekSec * 2);
+        expect(unbonding.lock).to.equal(lockTwoWeeks);
+        expect(unbonding.rewards).to.equal(0);
+
+        expect(await stakingUser.totalDeposits()).to.equal(stakeAmount);
+        expect(await stakingUser.totalDepositsWithBoost()).to.equal(
+          locked.amountWithBoost.add(unbonding.amountWithBoost),
+        );
+      });
+
+      it("should keep earning rewards on both parts of a split deposit", async () => {
+        const { connectUser, signers, staking, stakingUser, user } = ctx;
+        const otherUser = signers[2];
+        const stakingOther = await connectUser(otherUser);
+
+        const latestBlock = await ethers.provider.getBlock("latest");
+        await stakingOther.stake(stakeAmount, lockTwoWeeks);
+
+        // At the halfway point, unbond half of the first deposit:
+        // first half 50/50, second half 1500/2000 boosted shares
+        await setNextBlockTimestamp(latestBlock.timestamp + oneWeekSec / 2);
+        await stakingUser["unbond(uint256,uint256)"](0, stakeAmount.div(2));
+
+        await increaseTime(oneWeekSec);
+
+        const userReward = rewardPerEpoch.div(4).add(rewardPerEpoch.div(2).mul(3).div(7));
+        await claimWithRoundedRewardCheck(staking, user, userReward);
+        await claimWithRoundedRewardCheck(staking, otherUser, rewardPerEpoch.sub(userReward));
+      });
+    });
+
     describe("unbondAll", () => {
       const rewardPerEpoch = ether(oneWeekSec.toString());
       const stakeAmount = ether("1000");
@@ -514,7 +625,7 @@ describe("CellarStaking", () => {
         await stakingUser.stake(stakeAmount.mul(3), lockTwoWeeks);
 
         // Unbond one stake
-        await expect(stakingUser.unbond(1))
+        await expect(stakingUser["unbond(uint256)"](1))
           .to.emit(stakingUser, "Unbond")
           .withArgs(user.address, 1, stakeAmount.mul(2));
 
@@ -575,7 +686,7 @@ describe("CellarStaking", () => {
       it("should not allow a user to cancel unbonding if the contract is paused", async () => {
         const { staking, stakingUser } = ctx;
 
-        await expect(stakingUser.unbond(0)).to.not.be.reverted;
+        await expect(stakingUser["unbond(uint256)"](0)).to.not.be.reverted;
 
         await staking.setPaused(true);
         await expect(stakingUser.cancelUnbonding(0)).to.be.revertedWith("STATE_ContractPaused");
@@ -585,14 +696,14 @@ describe("CellarStaking", () => {
         const { stakingUser, user } = ctx;
 
         const stake = await stakingUser.stakes(user.address, 0);
-        const boostMultiplier = stakeAmount.mul(await stakingUser.SHORT_BOOST()).div(ether("1"));
+        const boostMultiplier = stakeAmount.mul((await stakingUser.lockTiers(lockDay)).boost).div(ether("1"));
         const expectedAmountWithBoost = stakeAmount.add(boostMultiplier);
         expect(stake.amount).to.equal(stakeAmount);
         expect(stake.amountWithBoost).to.equal(expectedAmountWithBoost);
         expect(stake.unbondTimestamp).to.equal(0);
         expect(stake.lock).to.equal(lockDay);
 
-        await expect(stakingUser.unbond(0)).to.not.be.reverted;
+        await expect(stakingUser["unbond(uint256)"](0)).to.not.be.reverted;
 
         // Check updated stake
         const updatedStake = await stakingUser.stakes(user.address, 0);
@@ -632,8 +743,8 @@ describe("CellarStaking", () => {
         await stakingUser.stake(stakeAmount, lockTwoWeeks);
 
         // Unbond two stakes
-        await expect(stakingUser.unbond(1)).to.not.be.reverted;
-        await expect(stakingUser.unbond(2)).to.not.be.reverted;
+        await expect(stakingUser["unbond(uint256)"](1)).to.not.be.reverted;
+        await expect(stakingUser["unbond(uint256)"](2)).to.not.be.reverted;
 
         await staking.setPaused(true);
         await expect(stakingUser.cancelUnbondingAll()).to.be.revertedWith("STATE_ContractPaused");
@@ -652,8 +763,8 @@ describe("CellarStaking", () => {
         await stakingUser.stake(stakeAmount, lockTwoWeeks);
 
         // Unbond two stakes
-        await expect(stakingUser.unbond(1)).to.not.be.reverted;
-        await expect(stakingUser.unbond(2)).to.not.be.reverted;
+        await expect(stakingUser["unbond(uint256)"](1)).to.not.be.reverted;
+        await expect(stakingUser["unbond(uint256)"](2)).to.not.be.reverted;
 
         const tx = await stakingUser.cancelUnbondingAll();
         const receipt = await tx.wait();
@@ -663,7 +774,7 @@ describe("CellarStaking", () => {
 
         // Check all stakes match original
         let stake = await stakingUser.stakes(user.address, 0);
-        let boostMultiplier = stakeAmount.mul(await stakingUser.SHORT_BOOST()).div(ether("1"));
+        let boostMultiplier = stakeAmount.mul((await stakingUser.lockTiers(lockDay)).boost).div(ether("1"));
         let expectedAmountWithBoost = stakeAmount.add(boostMultiplier);
 
         expect(stake.amount).to.equal(stakeAmount);
@@ -672,7 +783,7 @@ describe("CellarStaking", () => {
         expect(stake.lock).to.equal(lockDay);
 
         stake = await stakingUser.stakes(user.address, 1);
-        boostMultiplier = stakeAmount.mul(await stakingUser.MEDIUM_BOOST()).div(ether("1"));
+        boostMultiplier = stakeAmount.mul((await stakingUser.lockTiers(lockWeek)).boost).div(ether("1"));
         expectedAmountWithBoost = stakeAmount.add(boostMultiplier);
 
         expect(stake.amount).to.equal(stakeAmount);
@@ -681,7 +792,7 @@ describe("CellarStaking", () => {
         expect(stake.lock).to.equal(lockWeek);
 
         stake = await stakingUser.stakes(user.address, 2);
-        boostMultiplier = stakeAmount.mul(await stakingUser.LONG_BOOST()).div(ether("1"));
+        boostMultiplier = stakeAmount.mul((await stakingUser.lockTiers(lockTwoWeeks)).boost).div(ether("1"));
         expectedAmountWithBoost = stakeAmount.add(boostMultiplier);
 
         expect(stake.amount).to.equal(stakeAmount);
@@ -704,21 +815,21 @@ describe("CellarStaking", () => {
 
       it("should revert if passed an out of bounds deposit id", async () => {
         const { stakingUser } = ctx;
-        await expect(stakingUser.unstake(2)).to.be.reverted;
+        await expect(stakingUser["unstake(uint256)"](2)).to.be.reverted;
       });
 
       it("should not allow unstaking a stake that is still locked", async () => {
         const { stakingUser } = ctx;
-        await expect(stakingUser.unstake(0)).to.be.revertedWith("USR_StakeLocked");
+        await expect(stakingUser["unstake(uint256)"](0)).to.be.revertedWith("USR_StakeLocked");
       });
 
       it("should not allow a user to unstake if the contract is paused", async () => {
         const { staking, stakingUser } = ctx;
 
-        await expect(stakingUser.unbond(0)).to.not.be.reverted;
+        await expect(stakingUser["unbond(uint256)"](0)).to.not.be.reverted;
 
         await staking.setPaused(true);
-        await expect(stakingUser.unstake(0)).to.be.revertedWith("STATE_ContractPaused");
+        await expect(stakingUser["unstake(uint256)"](0)).to.be.revertedWith("STATE_ContractPaused");
       });
 
       it("should not allow unstaking if the unbonding period has not expired", async () => {
@@ -727,7 +838,9 @@ describe("CellarStaking", () => {
         await increaseTime(oneWeekSec);
 
         // Unbond one stake
-        await expect(stakingUser.unbond(0)).to.emit(stakingUser, "Unbond").withArgs(user.address, 0, stakeAmount);
+        await expect(stakingUser["unbond(uint256)"](0))
+          .to.emit(stakingUser, "Unbond")
+          .withArgs(user.address, 0, stakeAmount);
 
         // Check updated stake
         const updatedStake = await stakingUser.stakes(user.address, 0);
@@ -740,21 +853,21 @@ describe("CellarStaking", () => {
 
         // try to very soon after unstake
         await increaseTime(1000);
-        await expect(stakingUser.unstake(0)).to.be.revertedWith("USR_StakeLocked");
+        await expect(stakingUser["unstake(uint256)"](0)).to.be.revertedWith("USR_StakeLocked");
       });
 
       it("should require a non-zero amount to unstake", async () => {
         const { stakingUser, user, tokenDist } = ctx;
 
         await increaseTime(oneWeekSec);
-        await stakingUser.unbond(0);
+        await stakingUser["unbond(uint256)"](0);
 
         const prevBal = await tokenDist.balanceOf(user.address);
 
         const stake = await stakingUser.stakes(user.address, 0);
         await setNextBlockTimestamp(stake.unbondTimestamp + 1);
 
-        const tx = await stakingUser.unstake(0);
+        const tx = await stakingUser["unstake(uint256)"](0);
         const receipt = await tx.wait();
 
         const unstakeEvent = receipt.events?.find(e => e.event === "Unstake");
@@ -774,14 +887,14 @@ describe("CellarStaking", () => {
         const { stakingUser, user, tokenStake } = ctx;
 
         await increaseTime(oneWeekSec);
-        await stakingUser.unbond(0);
+        await stakingUser["unbond(uint256)"](0);
 
         const prevBal = await tokenStake.balanceOf(user.address);
 
         const stake = await stakingUser.stakes(user.address, 0);
         await setNextBlockTimestamp(stake.unbondTimestamp + 1);
 
-        await stakingUser.unstake(0);
+        await stakingUser["unstake(uint256)"](0);
 
         // previous bal + staked amount should equal current balance
         const bal = await tokenStake.balanceOf(user.address);
@@ -792,14 +905,14 @@ describe("CellarStaking", () => {
         const { stakingUser, user, tokenStake, tokenDist } = ctx;
 
         await increaseTime(oneWeekSec);
-        await stakingUser.unbond(0);
+        await stakingUser["unbond(uint256)"](0);
 
         const prevBal = await tokenStake.balanceOf(user.address);
 
         const stake = await stakingUser.stakes(user.address, 0);
         await setNextBlockTimestamp(stake.unbondTimestamp + 1);
 
-        await stakingUser.unstake(0);
+        await stakingUser["unstake(uint256)"](0);
 
         // previous bal + staked amount should equal current balance
         const bal = await tokenStake.balanceOf(user.address);
@@ -810,6 +923,94 @@ describe("CellarStaking", () => {
       });
     });
 
+    describe("unstake, partial amount", () => {
+      const rewardPerEpoch = ether(oneWeekSec.toString());
+      const stakeAmount = ether("1000");
+      const unstakeAmount = ether("400");
+      let startTimestamp: number;
+
+      beforeEach(async () => {
+        await ctx.staking.setRewardsDuration(oneWeekSec);
+
+        await ctx.staking.notifyRewardAmount(rewardPerEpoch);
+        await ctx.stakingUser.stake(stakeAmount, lockDay);
+        startTimestamp = (await ethers.provider.getBlock("latest")).timestamp;
+
+        await ctx.stakingUser["unbond(uint256)"](0);
+      });
+
+      it("should not allow unstaking if the unbonding period has not expired", async () => {
+        const { stakingUser } = ctx;
+        await expect(stakingUser["unstake(uint256,uint256)"](0, unstakeAmount)).to.be.revertedWith("USR_StakeLocked");
+      });
+
+      it("should revert if the amount is zero or larger than the deposit", async () => {
+        const { stakingUser } = ctx;
+
+        await increaseTime(oneDaySec);
+        await expect(stakingUser["unstake(uint256,uint256)"](0, 0)).to.be.revertedWith("USR_ZeroAssets");
+        await expect(stakingUser["unstake(uint256,uint256)"](0, stakeAmount.add(1))).to.be.revertedWith(
+          "USR_InsufficientDeposit",
+        );
+      });
+
+      it("should unstake the whole deposit if passed the full amount", async () => {
+        const { stakingUser, user } = ctx;
+
+        await increaseTime(oneDaySec);
+        await expect(stakingUser["unstake(uint256,uint256)"](0, stakeAmount))
+          .to.emit(stakingUser, "Unstake")
+          .and.not.to.emit(stakingUser, "PartialUnstake");
+
+        const stake = await stakingUser.stakes(user.address, 0);
+        expect(stake.amount).to.equal(0);
+        expect(stake.amountWithBoost).to.equal(0);
+      });
+
+      it("should unstake part of a deposit, distributing accumulated rewards", async () => {
+        const { stakingUser, user, tokenStake } = ctx;
+
+        await increaseTime(oneDaySec);
+        const prevBal = await tokenStake.balanceOf(user.address);
+
+        const tx = await stakingUser["unstake(uint256,uint256)"](0, unstakeAmount);
+        const receipt = await tx.wait();
+
+        const unstakeEvent = receipt.events?.find(e => e.event === "PartialUnstake");
+        expect(unstakeEvent?.args?.user).to.equal(user.address);
+        expect(unstakeEvent?.args?.depositId).to.equal(0);
+        expect(unstakeEvent?.args?.amount).to.equal(unstakeAmount);
+
+        // Single staker takes all rewards emitted so far
+        const latestBlock = await ethers.provider.getBlock("latest");
+        const elapsed = latestBlock.timestamp - startTimestamp;
+        expectRoundedEqual(unstakeEvent?.args?.reward, rewardPerEpoch.mul(elapsed).div(oneWeekSec));
+
+        expect(await tokenStake.balanceOf(user.address)).to.equal(prevBal.add(unstakeAmount));
+
+        const stake = await stakingUser.stakes(user.address, 0);
+        expect(stake.amount).to.equal(stakeAmount.sub(unstakeAmount));
+        expect(stake.amountWithBoost).to.equal(stakeAmount.sub(unstakeAmount));
+        expect(stake.rewards).to.equal(0);
+
+        expect(await stakingUser.totalDeposits()).to.equal(stakeAmount.sub(unstakeAmount));
+        expect(await stakingUser.totalDepositsWithBoost()).to.equal(stakeAmount.sub(unstakeAmount));
+      });
+
+      it("should keep earning rewards on the remainder until it is unstaked", async () => {
+        const { stakingUser, user, tokenDist } = ctx;
+
+        await increaseTime(oneDaySec);
+        await stakingUser["unstake(uint256,uint256)"](0, unstakeAmount);
+
+        await increaseTime(oneWeekSec);
+        await stakingUser["unstake(uint256,uint256)"](0, stakeAmount.sub(unstakeAmount));
+
+        // Single staker takes all rewards
+        expectRoundedEqual(await tokenDist.balanceOf(user.address), rewardPerEpoch);
+      });
+    });
+
     describe("unstakeAll", () => {
       const rewardPerEpoch = ether(String(2_000_000)); // 2M
       const stakeAmount = ether("50000");
@@ -830,8 +1031,8 @@ describe("CellarStaking", () => {
         await stakingUser.stake(stakeAmount, lockTwoWeeks);
 
         // Unbond two stakes
-        await expect(stakingUser.unbond(1)).to.not.be.reverted;
-        await expect(stakingUser.unbond(2)).to.not.be.reverted;
+        await expect(stakingUser["unbond(uint256)"](1)).to.not.be.reverted;
+        await expect(stakingUser["unbond(uint256)"](2)).to.not.be.reverted;
 
         // End rewards
         await increaseTime(oneWeekSec * 3);
@@ -1157,612 +1358,2930 @@ describe("CellarStaking", () => {
       });
     });
 
-    describe("emergencyUnstake", () => {
+    describe("compound", () => {
       const rewardPerEpoch = ether(oneWeekSec.toString());
+      const stakeAmount = ether("1000");
+
+      let compounding: CellarStaking;
 
       beforeEach(async () => {
-        await ctx.staking.setRewardsDuration(oneWeekSec);
-        await ctx.staking.notifyRewardAmount(rewardPerEpoch);
+        const { admin, tokenStake, user } = ctx;
+
+        // Pays rewards in the staking token
+        const params = [
+          admin.address,
+          tokenStake.address,
+          tokenStake.address,
+          oneWeekSec,
+          [ether("0.1"), ether("0.4"), ether("1")],
+          [oneDaySec, oneWeekSec, oneWeekSec * 2],
+        ];
+        compounding = (<CellarStaking>await deploy("CellarStaking", admin, params)).connect(user);
+
+        await tokenStake.mint(compounding.address, rewardPerEpoch);
+        await tokenStake.connect(user).approve(compounding.address, initialTokenAmount);
+        await compounding.connect(admin).notifyRewardAmount(rewardPerEpoch);
       });
 
-      it("should revert if the staking program has not been ended", async () => {
-        const { stakingUser } = ctx;
+      it("should revert if the staking and distribution tokens differ", async () => {
+        const { staking, stakingUser, tokenDist, tokenStake } = ctx;
 
-        await expect(stakingUser.emergencyUnstake()).to.be.revertedWith("STATE_NoEmergencyUnstake");
-      });
+        await staking.notifyRewardAmount(rewardPerEpoch);
+        await stakingUser.stake(stakeAmount, lockDay);
+        await increaseTime(oneDaySec);
 
-      it("should return all staked tokens, across multiple stakes, regardless of lock status", async () => {
-        const { connectUser, signers, staking, stakingUser, tokenStake, user } = ctx;
-        await stakingUser.stake(initialTokenAmount, lockDay);
-        expect(await tokenStake.balanceOf(user.address)).to.equal(0);
+        await expect(stakingUser.compound(0)).to.be.revertedWith(
+          `STATE_CompoundingUnsupported("${tokenStake.address}", "${tokenDist.address}")`,
+        );
+      });
 
-        const user2 = signers[2];
-        const stakingUser2 = await connectUser(user2);
-        await stakingUser2.stake(initialTokenAmount, lockWeek);
-        expect(await tokenStake.balanceOf(user2.address)).to.equal(0);
+      it("should revert if the deposit does not exist", async () => {
+        await expect(compounding.compound(0)).to.be.revertedWith("USR_NoDeposit(0)");
+      });
 
-        const user3 = signers[3];
-        const stakingUser3 = await connectUser(user3);
-        await stakingUser3.stake(initialTokenAmount, lockTwoWeeks);
-        expect(await tokenStake.balanceOf(user3.address)).to.equal(0);
+      it("should revert if the deposit is unbonding", async () => {
+        await compounding.stake(stakeAmount, lockWeek);
+        await compounding["unbond(uint256)"](0);
 
-        await expect(staking.emergencyStop(false))
-          .to.emit(staking, "EmergencyStop")
-          .withArgs(signers[0].address, false);
+        await expect(compounding.compound(0)).to.be.revertedWith("USR_AlreadyUnbonding(0)");
+      });
 
-        await expect(stakingUser.emergencyUnstake())
-          .to.emit(stakingUser, "EmergencyUnstake")
-          .withArgs(user.address, 0, initialTokenAmount);
-        expect(await tokenStake.balanceOf(user.address)).to.equal(initialTokenAmount);
+      it("should add accrued rewards to the deposit, keeping its lock and boost", async () => {
+        const { tokenStake, user } = ctx;
 
-        await expect(stakingUser2.emergencyUnstake())
-          .to.emit(stakingUser2, "EmergencyUnstake")
-          .withArgs(user2.address, 0, initialTokenAmount);
-        expect(await tokenStake.balanceOf(user2.address)).to.equal(initialTokenAmount);
+        await compounding.stake(stakeAmount, lockTwoWeeks);
+        await increaseTime(oneDaySec);
 
-        await expect(stakingUser3.emergencyUnstake())
-          .to.emit(stakingUser3, "EmergencyUnstake")
-          .withArgs(user3.address, 0, initialTokenAmount);
-        expect(await tokenStake.balanceOf(user3.address)).to.equal(initialTokenAmount);
-      });
+        const balanceBefore = await tokenStake.balanceOf(compounding.address);
+        const { timestamp } = await ethers.provider.getBlock("latest");
+        await setNextBlockTimestamp(timestamp + 1);
+        const reward = await compounding.earned(user.address, 0, { blockTag: "pending" });
 
-      it("should emergency unstake multiple stakes for the same user", async () => {
-        const { staking, stakingUser, tokenStake, user } = ctx;
-        const stakeAmount = initialTokenAmount.div(2);
+        await expect(compounding.compound(0)).to.emit(compounding, "Compound").withArgs(user.address, 0, reward);
 
-        await stakingUser.stake(stakeAmount, lockDay);
-        await stakingUser.stake(stakeAmount, lockWeek);
+        // Two-week lock has a 1x boost
+        const stake = await compounding.stakes(user.address, 0);
+        expect(stake.amount).to.equal(stakeAmount.add(reward));
+        expect(stake.amountWithBoost).to.equal(stakeAmount.add(reward).mul(2));
+        expect(stake.lock).to.equal(lockTwoWeeks);
+        expect(stake.rewards).to.equal(0);
 
-        expect(await tokenStake.balanceOf(user.address)).to.equal(0);
+        expect(await compounding.totalDeposits()).to.equal(stake.amount);
+        expect(await compounding.totalDepositsWithBoost()).to.equal(stake.amountWithBoost);
+        expect(await tokenStake.balanceOf(compounding.address)).to.equal(balanceBefore);
+        expect(await compounding.earned(user.address, 0)).to.equal(0);
+      });
 
-        await expect(staking.emergencyStop(false)).to.not.be.reverted;
+      it("should boost the compounded deposit as a whole", async () => {
+        const { user } = ctx;
 
-        const tx = await stakingUser.emergencyUnstake();
-        const receipt = await tx.wait();
+        // The 0.1 boost of the deposit rounds down, but not once rewards are added
+        await compounding.stake(ether("1").add(9), lockDay);
+        await increaseTime(oneDaySec);
+        await compounding.compound(0);
 
-        const unstakeEvents = await receipt.events?.filter(e => e.event === "Unbond");
-        expect(unstakeEvents?.length === 2);
+        const stake = await compounding.stakes(user.address, 0);
+        expect(stake.amountWithBoost).to.equal(stake.amount.add(stake.amount.div(10)));
+        expect(await compounding.totalDepositsWithBoost()).to.equal(stake.amountWithBoost);
 
-        for (const i in unstakeEvents!) {
-          const event = unstakeEvents[i];
-          expect(event?.args?.[0]).to.equal(user.address);
-          expect(event?.args?.[1]).to.equal(i);
-          expect(event?.args?.[2]).to.equal(stakeAmount);
-        }
+        await compounding["unbond(uint256,uint256)"](0, 1);
 
-        expect(await tokenStake.balanceOf(user.address)).to.equal(initialTokenAmount);
+        const report = await reconcile(compounding, [user.address], await ethers.provider.getBlockNumber());
+        expect(report.drift).to.deep.equal([]);
       });
 
-      it("should not allow users to claim rewards", async () => {
-        const { staking, stakingUser } = ctx;
+      it("should keep the contract's books balanced", async () => {
+        await compounding.stake(stakeAmount, lockWeek);
+        await increaseTime(oneDaySec);
+        await compounding.compound(0);
+        await increaseTime(oneDaySec);
 
-        await stakingUser.stake(initialTokenAmount, lockDay);
-        await expect(staking.emergencyStop(false)).to.not.be.reverted;
+        const { chainId } = await ethers.provider.getNetwork();
+        const latestBlock = await ethers.provider.getBlockNumber();
+        const store = createStore("hardhat", chainId, compounding.address, 0);
+        await syncStore(compounding, store, latestBlock);
 
-        await stakingUser.emergencyUnstake();
+        const report = await reconcile(compounding, Object.keys(store.users), latestBlock, store);
+        expect(report.drift).to.deep.equal([]);
+        expect(store.users[ctx.user.address].deposits[0].compounded).to.not.equal("0");
+      });
 
-        // Try to claim rewards normally
-        await expect(stakingUser.claim(0)).to.be.revertedWith("STATE_ContractKilled");
-        await expect(stakingUser.claimAll()).to.be.revertedWith("STATE_ContractKilled");
+      it("should not count deposits as reward funding", async () => {
+        const { admin, tokenStake } = ctx;
 
-        // Try to claim rewards thru emergency
-        await expect(stakingUser.emergencyClaim()).to.be.revertedWith("STATE_NoEmergencyClaim");
-      });
+        await compounding.stake(stakeAmount, lockDay);
+        await increaseTime(oneWeekSec);
+        await compounding.claim(0);
 
-      it("should allow rewards to be claimable", async () => {
-        const { staking, stakingUser, tokenDist, user } = ctx;
+        // Only the deposit and rounding dust are left
+        await expect(compounding.connect(admin).notifyRewardAmount(stakeAmount)).to.be.revertedWith(
+          "STATE_RewardsNotFunded",
+        );
 
-        await stakingUser.stake(ether("10000"), lockTwoWeeks);
+        await tokenStake.mint(compounding.address, stakeAmount);
+        await expect(compounding.connect(admin).notifyRewardAmount(stakeAmount)).to.not.be.reverted;
+      });
 
-        const balanceBefore = await tokenDist.balanceOf(user.address);
+      it("should not return deposits on emergency stop", async () => {
+        const { admin, tokenStake, user } = ctx;
 
-        // Move forward one week - rewards should be emitted
-        await increaseTime(oneWeekSec * 2);
+        await compounding.stake(stakeAmount, lockDay);
+        await increaseTime(oneDaySec);
 
-        // Unbond to update reward
-        await stakingUser.unbondAll();
+        const adminBalance = await tokenStake.balanceOf(admin.address);
+        await compounding.connect(admin).emergencyStop(false);
 
-        await staking.emergencyStop(true);
-        await stakingUser.emergencyUnstake();
+        expect((await tokenStake.balanceOf(admin.address)).sub(adminBalance)).to.equal(rewardPerEpoch);
+        expect(await tokenStake.balanceOf(compounding.address)).to.equal(stakeAmount);
 
-        // Try to claim rewards normally
-        await expect(stakingUser.claim(0)).to.be.revertedWith("STATE_ContractKilled");
-        await expect(stakingUser.claimAll()).to.be.revertedWith("STATE_ContractKilled");
+        const userBalance = await tokenStake.balanceOf(user.address);
+        await compounding.emergencyUnstake();
+        expect((await tokenStake.balanceOf(user.address)).sub(userBalance)).to.equal(stakeAmount);
+      });
 
-        // Try to claim rewards thru emergency
-        const tx = await stakingUser.emergencyClaim();
-        const receipt = await tx.wait();
+      it("should keep deposits and emitted rewards on emergency stop with claimable rewards", async () => {
+        const { admin, tokenStake, user } = ctx;
 
-        const claimEvent = receipt.events?.find(e => e.event === "EmergencyClaim");
+        await compounding.stake(stakeAmount, lockDay);
+        await increaseTime(oneDaySec);
+        await compounding.connect(admin).emergencyStop(true);
 
-        expect(claimEvent).to.not.be.undefined;
-        expect(claimEvent?.args?.[0]).to.equal(user.address);
-        expectRoundedEqual(claimEvent?.args?.[1], rewardPerEpoch);
+        const reward = await compounding.earned(user.address, 0);
+        const userBalance = await tokenStake.balanceOf(user.address);
 
-        const balanceAfter = await tokenDist.balanceOf(user.address);
+        await compounding.emergencyClaim();
+        await compounding.emergencyUnstake();
 
-        expectRoundedEqual(balanceAfter.sub(balanceBefore), rewardPerEpoch);
+        expect((await tokenStake.balanceOf(user.address)).sub(userBalance)).to.equal(stakeAmount.add(reward));
       });
     });
 
-    describe("emergencyClaim", () => {
-      const rewardPerEpoch = ether(oneWeekSec.toString());
+    describe("relock", () => {
+      const stakeAmount = ether("1000");
 
       beforeEach(async () => {
-        await ctx.staking.setRewardsDuration(oneWeekSec);
-        await ctx.staking.notifyRewardAmount(rewardPerEpoch);
-      });
-
-      it("should revert if the staking program has not been ended", async () => {
-        const { stakingUser } = ctx;
+        const { staking, stakingUser } = ctx;
 
-        await expect(stakingUser.emergencyClaim()).to.be.revertedWith("STATE_NoEmergencyUnstake");
+        await staking.notifyRewardAmount(ether(oneMonthSec.toString()));
+        await stakingUser.stake(stakeAmount, lockWeek);
       });
 
-      it("should revert if the contract stopped with claim disabled", async () => {
+      it("should revert for a nonexistent deposit or invalid tier", async () => {
         const { staking, stakingUser } = ctx;
 
-        await staking.emergencyStop(false);
-        await expect(stakingUser.emergencyClaim()).to.be.revertedWith("STATE_NoEmergencyClaim");
+        await expect(stakingUser.relock(1, lockWeek)).to.be.revertedWith("USR_NoDeposit(1)");
+        await expect(stakingUser.relock(0, 99)).to.be.revertedWith("USR_InvalidLockValue(99)");
+
+        await staking.retireLockTier(lockTwoWeeks);
+        await expect(stakingUser.relock(0, lockTwoWeeks)).to.be.revertedWith(`USR_LockTierRetired(${lockTwoWeeks})`);
       });
 
-      it("should distribute all unclaimed rewards", async () => {
-        const { staking, stakingUser, tokenDist, user } = ctx;
+      it("should not allow moving to a shorter lock", async () => {
+        const { stakingUser } = ctx;
 
-        // Multiple stakes - claim should harvest all
-        await stakingUser.stake(ether("10000"), lockDay);
-        await stakingUser.stake(ether("10000"), lockTwoWeeks);
+        await expect(stakingUser.relock(0, lockDay)).to.be.revertedWith(`USR_LockTooShort(${lockWeek}, ${lockDay})`);
+      });
 
-        const balanceBefore = await tokenDist.balanceOf(user.address);
+      it("should settle rewards and apply the new tier's boost", async () => {
+        const { stakingUser, user } = ctx;
 
-        // Move forward one week - rewards should be emitted
-        await increaseTime(oneWeekSec * 2);
+        await increaseTime(oneDaySec);
 
-        // Unbond to update reward
-        await stakingUser.unbondAll();
+        const { timestamp } = await ethers.provider.getBlock("latest");
+        await setNextBlockTimestamp(timestamp + 1);
+        const earned = await stakingUser.earned(user.address, 0, { blockTag: "pending" });
 
-        await staking.emergencyStop(true);
+        await expect(stakingUser.relock(0, lockTwoWeeks))
+          .to.emit(stakingUser, "Relock")
+          .withArgs(user.address, 0, lockWeek, lockTwoWeeks);
 
-        // Try to claim rewards thru emergency
-        const tx = await stakingUser.emergencyClaim();
-        const receipt = await tx.wait();
+        const boost = (await stakingUser.lockTiers(lockTwoWeeks)).boost;
+        const boosted = stakeAmount.add(stakeAmount.mul(boost).div(ether("1")));
 
-        const claimEvent = receipt.events?.find(e => e.event === "EmergencyClaim");
+        const [stake] = await stakingUser.getUserStakes(user.address);
+        expect(stake.lock).to.equal(lockTwoWeeks);
+        expect(stake.rewards).to.equal(earned);
+        expect(stake.amountWithBoost).to.equal(boosted);
+        expect(await stakingUser.totalDeposits()).to.equal(stakeAmount);
+        expect(await stakingUser.totalDepositsWithBoost()).to.equal(boosted);
+      });
 
-        // Need looser precision on claim amounts because in emergency situations
-        // we do not recalculate rewards
-        expect(claimEvent).to.not.be.undefined;
-        expect(claimEvent?.args?.[0]).to.equal(user.address);
-        expectRoundedEqual(claimEvent?.args?.[1], rewardPerEpoch, 5);
+      it("should cancel an in-progress unbonding", async () => {
+        const { stakingUser, user } = ctx;
 
-        const balanceAfter = await tokenDist.balanceOf(user.address);
+        await stakingUser["unbond(uint256)"](0);
+        await stakingUser.relock(0, lockWeek);
 
-        expectRoundedEqual(balanceAfter.sub(balanceBefore), rewardPerEpoch, 5);
+        const boost = (await stakingUser.lockTiers(lockWeek)).boost;
+        const boosted = stakeAmount.add(stakeAmount.mul(boost).div(ether("1")));
+
+        const [stake] = await stakingUser.getUserStakes(user.address);
+        expect(stake.unbondTimestamp).to.equal(0);
+        expect(stake.amountWithBoost).to.equal(boosted);
+        expect(await stakingUser.totalDepositsWithBoost()).to.equal(boosted);
+        await expect(stakingUser["unstake(uint256)"](0)).to.be.revertedWith("USR_StakeLocked(0)");
       });
     });
-  });
 
-  describe("Admin Operations", () => {
-    describe("notifyRewardAmount", () => {
-      let distributor: SignerWithAddress;
-      let stakingDist: CellarStaking;
+    describe("increaseStake", () => {
+      const stakeAmount = ether("1000");
 
       beforeEach(async () => {
-        const totalRewards = ether(String(20_000_000));
+        const { staking, stakingUser } = ctx;
 
-        distributor = ctx.admin;
-        await ctx.tokenDist.mint(distributor.address, totalRewards);
-
-        stakingDist = await ctx.connectUser(distributor);
+        await staking.notifyRewardAmount(ether(oneMonthSec.toString()));
+        await stakingUser.stake(stakeAmount, lockWeek);
       });
 
-      it("should revert if caller is not the owner", async () => {
+      it("should revert for a nonexistent or unbonding deposit", async () => {
         const { stakingUser } = ctx;
 
-        await expect(stakingUser.notifyRewardAmount(ether("100"))).to.be.revertedWith("Ownable: caller is not the owner");
+        await expect(stakingUser.increaseStake(0, 0)).to.be.revertedWith("USR_ZeroDeposit");
+        await expect(stakingUser.increaseStake(1, stakeAmount)).to.be.revertedWith("USR_NoDeposit(1)");
+
+        await stakingUser["unbond(uint256)"](0);
+        await expect(stakingUser.increaseStake(0, stakeAmount)).to.be.revertedWith("USR_AlreadyUnbonding(0)");
       });
 
-      it("should revert if the staking contract is not funded with enough tokens", async () => {
-        // Schedule very large program
-        const largeAmount = ether("1").mul(BigNumber.from(10).pow(50));
+      it("should not add to a deposit in a retired tier", async () => {
+        const { staking, stakingUser } = ctx;
 
-        await expect(stakingDist.notifyRewardAmount(largeAmount)).to.be.revertedWith("STATE_RewardsNotFunded");
+        await staking.retireLockTier(lockWeek);
+        await expect(stakingUser.increaseStake(0, stakeAmount)).to.be.revertedWith(`USR_LockTierRetired(${lockWeek})`);
       });
 
-      it("should revert if the the reward is less than one base unit per second", async () => {
-        await expect(stakingDist.notifyRewardAmount(1)).to.be.revertedWith("USR_ZeroRewardsPerEpoch");
+      it("should settle rewards and add boosted tokens to the deposit", async () => {
+        const { stakingUser, tokenStake, user } = ctx;
+
+        await increaseTime(oneDaySec);
+
+        const { timestamp } = await ethers.provider.getBlock("latest");
+        await setNextBlockTimestamp(timestamp + 1);
+        const earned = await stakingUser.earned(user.address, 0, { blockTag: "pending" });
+        const balanceBefore = await tokenStake.balanceOf(user.address);
+
+        await expect(stakingUser.increaseStake(0, stakeAmount))
+          .to.emit(stakingUser, "IncreaseStake")
+          .withArgs(user.address, 0, stakeAmount);
+
+        const boost = (await stakingUser.lockTiers(lockWeek)).boost;
+        const boosted = stakeAmount.mul(2).add(stakeAmount.mul(2).mul(boost).div(ether("1")));
+
+        const stakes = await stakingUser.getUserStakes(user.address);
+        expect(stakes).to.have.lengthOf(1);
+        expect(stakes[0].amount).to.equal(stakeAmount.mul(2));
+        expect(stakes[0].amountWithBoost).to.equal(boosted);
+        expect(stakes[0].rewards).to.equal(earned);
+        expect(stakes[0].lock).to.equal(lockWeek);
+        expect(await stakingUser.totalDeposits()).to.equal(stakeAmount.mul(2));
+        expect(await stakingUser.totalDepositsWithBoost()).to.equal(boosted);
+        expect(await tokenStake.balanceOf(user.address)).to.equal(balanceBefore.sub(stakeAmount));
       });
+    });
 
-      it("should revert if the the reward amount may cause overflow", async () => {
-        const { tokenDist, staking } = ctx;
+    describe("merge", () => {
+      const stakeAmount = ether("1000");
 
-        const largeAmount = ether("1").mul(BigNumber.from(10).pow(50));
-        await tokenDist.mint(staking.address, largeAmount);
+      beforeEach(async () => {
+        const { staking, stakingUser } = ctx;
 
-        await expect(stakingDist.notifyRewardAmount(largeAmount)).to.be.revertedWith("USR_RewardTooLarge");
+        await staking.notifyRewardAmount(ether(oneMonthSec.toString()));
+        await stakingUser.stake(stakeAmount, lockWeek);
+        await stakingUser.stake(stakeAmount.mul(2), lockWeek);
+        await stakingUser.stake(stakeAmount.mul(3), lockWeek);
+        await stakingUser.stake(stakeAmount, lockDay);
+        await increaseTime(oneDaySec);
       });
 
-      it("should schedule new rewards", async () => {
-        const { tokenDist } = ctx;
+      it("should revert for invalid deposits", async () => {
+        const { stakingUser } = ctx;
 
-        // Equates to one unit per second distributed
-        const rewards = ether(oneMonthSec.toString());
-        const balanceBefore = await tokenDist.balanceOf(distributor.address);
+        await expect(stakingUser.merge(0, [0])).to.be.revertedWith("USR_DuplicateDeposit(0)");
+        await expect(stakingUser.merge(0, [1, 1])).to.be.revertedWith("USR_NoDeposit(1)");
+        await expect(stakingUser.merge(0, [4])).to.be.revertedWith("USR_NoDeposit(4)");
+        await expect(stakingUser.merge(0, [3])).to.be.revertedWith(`USR_LockMismatch(3, ${lockDay}, ${lockWeek})`);
 
-        await tokenDist.connect(distributor).transfer(stakingDist.address, rewards);
-        const tx = await stakingDist.notifyRewardAmount(rewards);
-        const receipt = await tx.wait();
-        const latestBlock = await ethers.provider.getBlock("latest");
+        await stakingUser["unbond(uint256)"](2);
+        await expect(stakingUser.merge(0, [2])).to.be.revertedWith("USR_AlreadyUnbonding(2)");
+        await expect(stakingUser.merge(2, [0])).to.be.revertedWith("USR_AlreadyUnbonding(2)");
+      });
 
-        const fundingEvent = receipt.events?.find(e => e.event === "Funding");
+      it("should merge deposits and their rewards into one", async () => {
+        const { stakingUser, user } = ctx;
 
-        expect(fundingEvent).to.not.be.undefined;
-        expect(fundingEvent?.args?.[0]).to.equal(rewards);
-        expect(fundingEvent?.args?.[1]).to.equal(latestBlock.timestamp + oneMonthSec);
+        const { timestamp } = await ethers.provider.getBlock("latest");
+        await setNextBlockTimestamp(timestamp + 1);
+        const earned = await Promise.all(
+          [0, 1, 2].map(id => stakingUser.earned(user.address, id, { blockTag: "pending" })),
+        );
+        const before = await stakingUser.getUserStakes(user.address);
+        const totalWithBoost = await stakingUser.totalDepositsWithBoost();
+
+        await expect(stakingUser.merge(0, [2, 1]))
+          .to.emit(stakingUser, "Merge")
+          .withArgs(user.address, 0, 2, stakeAmount.mul(3))
+          .and.to.emit(stakingUser, "Merge")
+          .withArgs(user.address, 0, 1, stakeAmount.mul(2));
+
+        const stakes = await stakingUser.getUserStakes(user.address);
+        expect(stakes[0].amount).to.equal(stakeAmount.mul(6));
+        expect(stakes[0].amountWithBoost).to.equal(
+          before[0].amountWithBoost.add(before[1].amountWithBoost).add(before[2].amountWithBoost),
+        );
+        expect(stakes[0].rewards).to.equal(earned[0].add(earned[1]).add(earned[2]));
 
-        // Check reward rate, end timestamp, and balances
-        expect(await stakingDist.rewardRate()).to.equal(ether("1"));
-        expect(await stakingDist.endTimestamp()).to.equal(latestBlock.timestamp + oneMonthSec);
-        expect(await tokenDist.balanceOf(stakingDist.address)).to.equal(initialTokenAmount.add(rewards));
+        for (const id of [1, 2]) {
+          expect(stakes[id].amount).to.equal(0);
+          expect(stakes[id].amountWithBoost).to.equal(0);
+          expect(stakes[id].rewards).to.equal(0);
+        }
 
-        const balanceAfter = await tokenDist.balanceOf(distributor.address);
+        expect(await stakingUser.totalDeposits()).to.equal(stakeAmount.mul(7));
+        expect(await stakingUser.totalDepositsWithBoost()).to.equal(totalWithBoost);
+      });
 
-        expect(balanceBefore.sub(balanceAfter)).to.equal(rewards);
+      it("should boost the merged amount as a whole", async () => {
+        const { staking, stakingUser, user } = ctx;
+
+        // The 0.1 boost of each part rounds down, but not that of their sum
+        const amount = ether("1").add(5);
+        for (let i = 0; i < 3; i++) await stakingUser.stake(amount, lockDay);
+        const totalWithBoost = await stakingUser.totalDepositsWithBoost();
+
+        await stakingUser.merge(4, [5, 6]);
+
+        const merged = amount.mul(3);
+        const mergedWithBoost = merged.add(merged.div(10));
+        const stakes = await stakingUser.getUserStakes(user.address);
+        expect(stakes[4].amountWithBoost).to.equal(mergedWithBoost);
+        expect(await stakingUser.totalDepositsWithBoost()).to.equal(
+          totalWithBoost.add(mergedWithBoost).sub(amount.add(amount.div(10)).mul(3)),
+        );
+
+        await stakingUser["unbond(uint256,uint256)"](4, 1);
+
+        const report = await reconcile(staking, [user.address], await ethers.provider.getBlockNumber());
+        expect(report.drift).to.deep.equal([]);
       });
+    });
 
-      it("should update and extend existing schedule", async () => {
-        const { tokenDist, stakingUser } = ctx;
+    describe("stakeFor", () => {
+      const stakeAmount = ether("1000");
 
-        // Equates to one unit per second distributed
-        const rewards = ether(oneMonthSec.toString());
-        const balanceBefore = await tokenDist.balanceOf(distributor.address);
-        await tokenDist.connect(distributor).transfer(stakingDist.address, rewards);
+      beforeEach(async () => {
+        await ctx.staking.notifyRewardAmount(oneMonthSec);
+      });
 
-        await expect(stakingDist.notifyRewardAmount(rewards)).to.not.be.reverted;
-        let latestBlock = await ethers.provider.getBlock("latest");
+      it("should revert for the zero address", async () => {
+        const { stakingUser } = ctx;
 
-        await stakingUser.stake(ether("10000"), lockDay);
+        await expect(stakingUser.stakeFor(ethers.constants.AddressZero, stakeAmount, lockDay)).to.be.revertedWith(
+          "USR_ZeroAddress",
+        );
+      });
 
-        expect(await stakingDist.rewardRate()).to.equal(ether("1"));
-        expect(await stakingDist.endTimestamp()).to.equal(latestBlock.timestamp + oneMonthSec);
-        expect(await tokenDist.balanceOf(stakingDist.address)).to.equal(initialTokenAmount.add(rewards));
+      it("should create a deposit for the beneficiary, paid for by the caller", async () => {
+        const { signers, stakingUser, tokenStake, user } = ctx;
+        const beneficiary = signers[2];
 
-        // Run halfway through, then start a new rewards period
-        await increaseTime(oneMonthSec / 2);
+        const balanceBefore = await tokenStake.balanceOf(user.address);
 
-        // Have someone claim
-        await stakingUser.claimAll();
+        await expect(stakingUser.stakeFor(beneficiary.address, stakeAmount, lockWeek))
+          .to.emit(stakingUser, "Stake")
+          .withArgs(beneficiary.address, 0, stakeAmount, user.address);
 
-        // Transfer in and notify more rewards
-        await tokenDist.connect(distributor).transfer(stakingDist.address, rewards);
-        await expect(stakingDist.notifyRewardAmount(rewards)).to.not.be.reverted;
-        latestBlock = await ethers.provider.getBlock("latest");
+        expect(await tokenStake.balanceOf(user.address)).to.equal(balanceBefore.sub(stakeAmount));
+        expect(await stakingUser.getUserStakes(user.address)).to.be.empty;
 
-        // Reward rate should be 1.5x as as large, since leftover 0.5 gets carried
-        expectRoundedEqual(await stakingDist.rewardRate(), ether("1.5"));
+        const [stake] = await stakingUser.getUserStakes(beneficiary.address);
+        expect(stake.amount).to.equal(stakeAmount);
+        expect(stake.lock).to.equal(lockWeek);
+        expect(await stakingUser.totalDeposits()).to.equal(stakeAmount);
+      });
 
-        // Period should be reset
-        expect(await stakingDist.endTimestamp()).to.equal(latestBlock.timestamp + oneMonthSec);
+      it("should only allow the beneficiary to unbond the deposit", async () => {
+        const { signers, staking, stakingUser } = ctx;
+        const beneficiary = signers[2];
 
-        expectRoundedEqual(await tokenDist.balanceOf(stakingDist.address), initialTokenAmount.add(rewards.div(2).mul(3)));
+        await stakingUser.stakeFor(beneficiary.address, stakeAmount, lockDay);
 
-        const balanceAfter = await tokenDist.balanceOf(distributor.address);
+        // The caller has no deposits of its own
+        await expect(stakingUser["unbond(uint256)"](0)).to.be.reverted;
 
-        // Funded twice
-        expect(balanceBefore.sub(balanceAfter)).to.equal(rewards.mul(2));
+        await expect(staking.connect(beneficiary)["unbond(uint256)"](0))
+          .to.emit(staking, "Unbond")
+          .withArgs(beneficiary.address, 0, stakeAmount);
       });
     });
 
-    describe("setRewardsDuration", () => {
-      it("should revert if caller is not the owner", async () => {
-        const { stakingUser } = ctx;
+    describe("stakeWithPermit", () => {
+      const stakeAmount = ether("1000");
 
-        await expect(stakingUser.setRewardsDuration(oneWeekSec)).to.be.revertedWith("Ownable: caller is not the owner");
+      let tokenPermit: MockERC20Permit;
+      let permitStaking: CellarStaking;
+      let deadline: number;
+
+      beforeEach(async () => {
+        const { admin, tokenDist, user } = ctx;
+
+        tokenPermit = <MockERC20Permit>await deploy("MockERC20Permit", admin, ["cellar", "clr"]);
+        await tokenPermit.mint(user.address, initialTokenAmount);
+
+        const params = [
+          admin.address,
+          tokenPermit.address,
+          tokenDist.address,
+          oneMonthSec,
+          [ether("0.1"), ether("0.4"), ether("1")],
+          [oneDaySec, oneWeekSec, oneWeekSec * 2],
+        ];
+        permitStaking = (<CellarStaking>await deploy("CellarStaking", admin, params)).connect(user);
+
+        await tokenDist.mint(permitStaking.address, ether(oneMonthSec.toString()));
+        await permitStaking.connect(admin).notifyRewardAmount(ether(oneMonthSec.toString()));
+
+        const latestBlock = await ethers.provider.getBlock("latest");
+        deadline = latestBlock.timestamp + oneDaySec;
       });
 
-      it("should update the reward epoch duration", async () => {
-        const { staking } = ctx;
+      it("should stake in a single transaction without a prior approval", async () => {
+        const { user } = ctx;
 
-        expect(await staking.epochDuration()).to.equal(oneMonthSec);
+        expect(await tokenPermit.allowance(user.address, permitStaking.address)).to.equal(0);
+        const { v, r, s } = await signPermit(tokenPermit, user, permitStaking.address, stakeAmount, deadline);
 
-        await expect(staking.setRewardsDuration(oneWeekSec))
-          .to.emit(staking, "EpochDurationChange")
-          .withArgs(oneWeekSec);
+        await expect(permitStaking.stakeWithPermit(stakeAmount, lockWeek, deadline, v, r, s))
+          .to.emit(permitStaking, "Stake")
+          .withArgs(user.address, 0, stakeAmount, user.address);
 
-        expect(await staking.epochDuration()).to.equal(oneWeekSec);
+        expect(await tokenPermit.balanceOf(permitStaking.address)).to.equal(stakeAmount);
+        expect(await tokenPermit.allowance(user.address, permitStaking.address)).to.equal(0);
+        expect(await tokenPermit.nonces(user.address)).to.equal(1);
+        expect((await permitStaking.stakes(user.address, 0)).amount).to.equal(stakeAmount);
       });
-    });
 
-    describe("setMinimumDeposit", () => {
-      it("should revert if caller is not the owner", async () => {
-        const { stakingUser } = ctx;
+      it("should revert if the permit has expired", async () => {
+        const { user } = ctx;
+        const { v, r, s } = await signPermit(tokenPermit, user, permitStaking.address, stakeAmount, deadline);
 
-        await expect(stakingUser.setMinimumDeposit(ether("1"))).to.be.revertedWith("Ownable: caller is not the owner");
+        await increaseTime(oneDaySec + 1);
+
+        await expect(permitStaking.stakeWithPermit(stakeAmount, lockWeek, deadline, v, r, s)).to.be.revertedWith(
+          "PERMIT_DEADLINE_EXPIRED",
+        );
       });
 
-      it("should set a new minimum staking deposit and immediately enforce it", async () => {
-        const { staking, stakingUser } = ctx;
+      it("should revert if the permit was signed for a different amount", async () => {
+        const { user } = ctx;
+        const { v, r, s } = await signPermit(tokenPermit, user, permitStaking.address, stakeAmount, deadline);
 
-        await staking.notifyRewardAmount(oneMonthSec);
+        const tx = permitStaking.stakeWithPermit(stakeAmount.mul(2), lockWeek, deadline, v, r, s);
+        await expect(tx).to.be.revertedWith("INVALID_SIGNER");
+      });
 
-        expect(await staking.minimumDeposit()).to.equal(0);
-        await expect(stakingUser.stake(ether("1"), lockDay)).to.not.be.reverted;
+      it("should still stake if the permit was already submitted by someone else", async () => {
+        const { signers, user } = ctx;
+        const { v, r, s } = await signPermit(tokenPermit, user, permitStaking.address, stakeAmount, deadline);
 
-        await expect(staking.setMinimumDeposit(ether("10"))).to.not.be.reverted;
+        // Front-run: the signature is used directly on the token
+        await tokenPermit
+          .connect(signers[2])
+          .permit(user.address, permitStaking.address, stakeAmount, deadline, v, r, s);
 
-        expect(await staking.minimumDeposit()).to.equal(ether("10"));
-        await expect(stakingUser.stake(ether("1"), lockDay)).to.be.revertedWith("USR_MinimumDeposit");
+        await expect(permitStaking.stakeWithPermit(stakeAmount, lockWeek, deadline, v, r, s)).to.not.be.reverted;
+        expect((await permitStaking.stakes(user.address, 0)).amount).to.equal(stakeAmount);
       });
     });
 
-    describe("setPaused", () => {
-      it("should revert if caller is not the owner", async () => {
-        const { stakingUser } = ctx;
+    describe("non-standard staking tokens", () => {
+      const stakeAmount = ether("1000");
 
-        await expect(stakingUser.setPaused(true)).to.be.revertedWith("Ownable: caller is not the owner");
+      const deployStaking = async (stakingToken: string): Promise<CellarStaking> => {
+        const { admin, tokenDist, user } = ctx;
+
+        const params = [
+          admin.address,
+          stakingToken,
+          tokenDist.address,
+          oneMonthSec,
+          [ether("0.1"), ether("0.4"), ether("1")],
+          [oneDaySec, oneWeekSec, oneWeekSec * 2],
+        ];
+        const staking = <CellarStaking>await deploy("CellarStaking", admin, params);
+
+        await tokenDist.mint(staking.address, ether(oneMonthSec.toString()));
+        await staking.notifyRewardAmount(ether(oneMonthSec.toString()));
+
+        return staking.connect(user);
+      };
+
+      describe("fee on transfer", () => {
+        let tokenFee: MockFeeOnTransferERC20;
+        let feeStaking: CellarStaking;
+
+        beforeEach(async () => {
+          const { admin, user } = ctx;
+
+          // 1% fee
+          tokenFee = <MockFeeOnTransferERC20>await deploy("MockFeeOnTransferERC20", admin, ["fee", "fee", 100]);
+          await tokenFee.mint(user.address, initialTokenAmount);
+
+          feeStaking = await deployStaking(tokenFee.address);
+          await tokenFee.connect(user).approve(feeStaking.address, ethers.constants.MaxUint256);
+        });
+
+        it("should revert a stake if the contract receives less than the amount", async () => {
+          await expect(feeStaking.stake(stakeAmount, lockWeek)).to.be.revertedWith(
+            `STATE_AssetUsesFeeOnTransfer("${tokenFee.address}")`,
+          );
+        });
+
+        it("should revert increaseStake if the contract receives less than the amount", async () => {
+          await tokenFee.setFee(0);
+          await feeStaking.stake(stakeAmount, lockWeek);
+          await tokenFee.setFee(100);
+
+          await expect(feeStaking.increaseStake(0, stakeAmount)).to.be.revertedWith(
+            `STATE_AssetUsesFeeOnTransfer("${tokenFee.address}")`,
+          );
+
+          expect(await feeStaking.totalDeposits()).to.equal(stakeAmount);
+          expect(await tokenFee.balanceOf(feeStaking.address)).to.equal(stakeAmount);
+        });
+
+        it("should accept stakes while the token takes no fee", async () => {
+          await tokenFee.setFee(0);
+
+          await expect(feeStaking.stake(stakeAmount, lockWeek)).to.not.be.reverted;
+          expect(await feeStaking.totalDeposits()).to.equal(stakeAmount);
+        });
       });
 
-      it("should pause the contract", async () => {
-        const { staking, stakingUser } = ctx;
+      describe("rebasing", () => {
+        let tokenRebase: MockRebasingERC20;
+        let rebaseStaking: CellarStaking;
 
-        await expect(staking.setPaused(true)).to.not.be.reverted;
-        expect(await staking.paused()).to.equal(true);
+        beforeEach(async () => {
+          const { admin, user } = ctx;
 
-        // Make sure everything paused
-        await expect(stakingUser.stake(ether("10"), lockDay)).to.be.revertedWith("STATE_ContractPaused");
-        await expect(stakingUser.unbond(0)).to.be.revertedWith("STATE_ContractPaused");
-        await expect(stakingUser.unbondAll()).to.be.revertedWith("STATE_ContractPaused");
-        await expect(stakingUser.cancelUnbonding(0)).to.be.revertedWith("STATE_ContractPaused");
-        await expect(stakingUser.cancelUnbondingAll()).to.be.revertedWith("STATE_ContractPaused");
-        await expect(stakingUser.cancelUnbonding(0)).to.be.revertedWith("STATE_ContractPaused");
-        await expect(stakingUser.cancelUnbondingAll()).to.be.revertedWith("STATE_ContractPaused");
-        await expect(stakingUser.unstake(0)).to.be.revertedWith("STATE_ContractPaused");
-        await expect(stakingUser.unstakeAll()).to.be.revertedWith("STATE_ContractPaused");
-        await expect(stakingUser.claim(0)).to.be.revertedWith("STATE_ContractPaused");
-        await expect(stakingUser.claimAll()).to.be.revertedWith("STATE_ContractPaused");
-      });
+          tokenRebase = <MockRebasingERC20>await deploy("MockRebasingERC20", admin, ["rebasing", "reb"]);
+          await tokenRebase.mint(user.address, initialTokenAmount);
 
-      it("should unpause the contract", async () => {
-        const { staking, stakingUser } = ctx;
+          rebaseStaking = await deployStaking(tokenRebase.address);
+          await tokenRebase.connect(user).approve(rebaseStaking.address, ethers.constants.MaxUint256);
+        });
 
-        await expect(staking.setPaused(true)).to.not.be.reverted;
-        expect(await staking.paused()).to.equal(true);
+        it("should accept stakes which transfer exactly", async () => {
+          await expect(rebaseStaking.stake(stakeAmount, lockWeek)).to.not.be.reverted;
 
-        // Make sure everything paused
-        await expect(stakingUser.stake(ether("10"), lockDay)).to.be.revertedWith("STATE_ContractPaused");
-        await expect(stakingUser.unbond(0)).to.be.revertedWith("STATE_ContractPaused");
-        await expect(stakingUser.unbondAll()).to.be.revertedWith("STATE_ContractPaused");
-        await expect(stakingUser.cancelUnbonding(0)).to.be.revertedWith("STATE_ContractPaused");
-        await expect(stakingUser.cancelUnbondingAll()).to.be.revertedWith("STATE_ContractPaused");
-        await expect(stakingUser.cancelUnbonding(0)).to.be.revertedWith("STATE_ContractPaused");
-        await expect(stakingUser.cancelUnbondingAll()).to.be.revertedWith("STATE_ContractPaused");
-        await expect(stakingUser.unstake(0)).to.be.revertedWith("STATE_ContractPaused");
-        await expect(stakingUser.unstakeAll()).to.be.revertedWith("STATE_ContractPaused");
-        await expect(stakingUser.claim(0)).to.be.revertedWith("STATE_ContractPaused");
-        await expect(stakingUser.claimAll()).to.be.revertedWith("STATE_ContractPaused");
+          expect(await rebaseStaking.totalDeposits()).to.equal(stakeAmount);
+          expect(await tokenRebase.balanceOf(rebaseStaking.address)).to.equal(stakeAmount);
+        });
 
-        // Now unpause
-        await expect(staking.setPaused(false)).to.not.be.reverted;
-        expect(await staking.paused()).to.equal(false);
+        it("should revert a stake if the transferred amount rounds down after a rebase", async () => {
+          await tokenRebase.rebase(ether("3"));
 
-        // Make sure everything allowed (may revert for other reasons)
-        await expect(stakingUser.stake(ether("10"), lockDay)).to.not.be.revertedWith("STATE_ContractPaused");
-        await expect(stakingUser.unbond(0)).to.not.be.revertedWith("STATE_ContractPaused");
-        await expect(stakingUser.unbondAll()).to.not.be.revertedWith("STATE_ContractPaused");
-        await expect(stakingUser.cancelUnbonding(0)).to.not.be.revertedWith("STATE_ContractPaused");
-        await expect(stakingUser.cancelUnbondingAll()).to.not.be.revertedWith("STATE_ContractPaused");
-        await expect(stakingUser.cancelUnbonding(0)).to.not.be.revertedWith("STATE_ContractPaused");
-        await expect(stakingUser.cancelUnbondingAll()).to.not.be.revertedWith("STATE_ContractPaused");
-        await expect(stakingUser.unstake(0)).to.not.be.revertedWith("STATE_ContractPaused");
-        await expect(stakingUser.unstakeAll()).to.not.be.revertedWith("STATE_ContractPaused");
-        await expect(stakingUser.claim(0)).to.not.be.revertedWith("STATE_ContractPaused");
-        await expect(stakingUser.claimAll()).to.not.be.revertedWith("STATE_ContractPaused");
+          // 1000 ether is not a whole number of shares at 3x
+          await expect(rebaseStaking.stake(stakeAmount, lockWeek)).to.be.revertedWith(
+            `STATE_AssetUsesFeeOnTransfer("${tokenRebase.address}")`,
+          );
+
+          // A whole number of shares transfers exactly
+          await expect(rebaseStaking.stake(ether("3000"), lockWeek)).to.not.be.reverted;
+        });
+
+        it("should revert increaseStake if the transferred amount rounds down after a rebase", async () => {
+          await rebaseStaking.stake(stakeAmount, lockWeek);
+          await tokenRebase.rebase(ether("3"));
+
+          await expect(rebaseStaking.increaseStake(0, stakeAmount)).to.be.revertedWith(
+            `STATE_AssetUsesFeeOnTransfer("${tokenRebase.address}")`,
+          );
+        });
       });
     });
 
-    describe("emergencyStop", () => {
-      it("should revert if caller is not the owner", async () => {
+    describe("claim and unstake to another address", () => {
+      const stakeAmount = ether("1000");
+
+      let recipient: SignerWithAddress;
+
+      beforeEach(async () => {
+        const { signers, staking, stakingUser } = ctx;
+        recipient = signers[3];
+
+        await staking.notifyRewardAmount(ether(oneMonthSec.toString()));
+        await stakingUser.stake(stakeAmount, lockDay);
+        await stakingUser.stake(stakeAmount, lockDay);
+        await increaseTime(oneDaySec);
+      });
+
+      it("should revert for the zero address", async () => {
         const { stakingUser } = ctx;
+        const zero = ethers.constants.AddressZero;
 
-        await expect(stakingUser.emergencyStop(false)).to.be.revertedWith("Ownable: caller is not the owner");
+        await expect(stakingUser.claimTo(0, zero)).to.be.revertedWith("USR_ZeroAddress");
+        await expect(stakingUser.claimAllTo(zero)).to.be.revertedWith("USR_ZeroAddress");
+        await expect(stakingUser.unstakeTo(0, zero)).to.be.revertedWith("USR_ZeroAddress");
+        await expect(stakingUser.unstakeAllTo(zero)).to.be.revertedWith("USR_ZeroAddress");
       });
 
-      it("should end the contract while making rewards claimable", async () => {
-        const { staking, stakingUser } = ctx;
+      it("should claim a deposit's rewards to the recipient", async () => {
+        const { stakingUser, tokenDist, user } = ctx;
 
-        await expect(staking.emergencyStop(true))
-          .to.emit(staking, "EmergencyStop")
-          .withArgs(await staking.signer.getAddress(), true);
+        const { timestamp } = await ethers.provider.getBlock("latest");
+        await setNextBlockTimestamp(timestamp + 1);
+        const earned = await stakingUser.earned(user.address, 0, { blockTag: "pending" });
 
-        expect(await staking.ended()).to.equal(true);
-        expect(await staking.claimable()).to.equal(true);
+        await expect(stakingUser.claimTo(0, recipient.address))
+          .to.emit(stakingUser, "Claim")
+          .withArgs(user.address, 0, earned, recipient.address);
 
-        await expect(stakingUser.emergencyUnstake()).to.not.be.revertedWith("STATE_NoEmergencyUnstake");
-        await expect(stakingUser.emergencyClaim())
-          .to.not.be.revertedWith("STATE_NoEmergencyClaim")
-          .and.to.not.be.revertedWith("STATE_NoEmergencyUnstake");
+        expect(await tokenDist.balanceOf(recipient.address)).to.equal(earned);
+        expect(await tokenDist.balanceOf(user.address)).to.equal(0);
       });
 
-      it("should end the contract and return distribution tokens if rewards are not claimable", async () => {
-        const { admin, staking, stakingUser, tokenDist } = ctx;
+      it("should claim all rewards to the recipient", async () => {
+        const { stakingUser, tokenDist, user } = ctx;
 
-        // Make sure contract only has oneMonthSecTokens
-        const originalBalance = await tokenDist.balanceOf(admin.address);
-        await tokenDist.connect(admin).transfer(staking.address, oneMonthSec);
-        await staking.notifyRewardAmount(oneMonthSec);
-        const balanceAfterFunding = await tokenDist.balanceOf(admin.address);
+        const { timestamp } = await ethers.provider.getBlock("latest");
+        await setNextBlockTimestamp(timestamp + 1);
+        const earned = await stakingUser.earnedAll(user.address, { blockTag: "pending" });
 
-        expect(originalBalance.sub(balanceAfterFunding)).to.equal(oneMonthSec);
+        await stakingUser.claimAllTo(recipient.address);
 
-        await stakingUser.stake(ether("10"), lockDay);
+        expect(await tokenDist.balanceOf(recipient.address)).to.equal(earned);
+        expect(await stakingUser.earnedAll(user.address)).to.equal(0);
+      });
 
-        await increaseTime(oneWeekSec);
+      it("should unstake a deposit to the recipient", async () => {
+        const { stakingUser, tokenDist, tokenStake, user } = ctx;
 
-        await expect(staking.emergencyStop(false))
-          .to.emit(staking, "EmergencyStop")
-          .withArgs(await staking.signer.getAddress(), false);
+        await stakingUser["unbond(uint256)"](0);
+        await increaseTime(oneDaySec);
 
-        expect(await staking.ended()).to.equal(true);
-        expect(await staking.claimable()).to.equal(false);
+        const { timestamp } = await ethers.provider.getBlock("latest");
+        await setNextBlockTimestamp(timestamp + 1);
+        const earned = await stakingUser.earned(user.address, 0, { blockTag: "pending" });
+        const userBalance = await tokenStake.balanceOf(user.address);
+        const recipientBalance = await tokenStake.balanceOf(recipient.address);
 
-        // Should get all coins back, since stakingUser never claimed
-        const balanceAfterStop = await tokenDist.balanceOf(admin.address);
-        expect(originalBalance).to.equal(balanceAfterStop.sub(initialTokenAmount));
+        await expect(stakingUser.unstakeTo(0, recipient.address))
+          .to.emit(stakingUser, "Unstake")
+          .withArgs(user.address, 0, stakeAmount, earned, recipient.address);
 
-        await expect(stakingUser.emergencyUnstake()).to.not.be.revertedWith("STATE_NoEmergencyUnstake");
-        await expect(stakingUser.emergencyClaim()).to.be.revertedWith("STATE_NoEmergencyClaim");
+        expect(await tokenStake.balanceOf(recipient.address)).to.equal(recipientBalance.add(stakeAmount));
+        expect(await tokenStake.balanceOf(user.address)).to.equal(userBalance);
+        expect(await tokenDist.balanceOf(recipient.address)).to.equal(earned);
       });
 
-      it("should revert if called more than once", async () => {
-        const { staking } = ctx;
+      it("should unstake all unbonded deposits to the recipient", async () => {
+        const { stakingUser, tokenStake, user } = ctx;
 
-        await expect(staking.emergencyStop(true))
-          .to.emit(staking, "EmergencyStop")
-          .withArgs(await staking.signer.getAddress(), true);
+        await stakingUser.unbondAll();
+        await increaseTime(oneDaySec);
 
-        // Try to stop again
-        await expect(staking.emergencyStop(true)).to.be.revertedWith("STATE_AlreadyStopped");
+        const recipientBalance = await tokenStake.balanceOf(recipient.address);
+        await stakingUser.unstakeAllTo(recipient.address);
+
+        expect(await tokenStake.balanceOf(recipient.address)).to.equal(recipientBalance.add(stakeAmount.mul(2)));
+        expect(await stakingUser.totalDeposits()).to.equal(0);
+        expect((await stakingUser.getUserStakes(user.address)).every(s => s.amount.isZero())).to.be.true;
       });
     });
-  });
 
-  describe("State Information", () => {
-    describe("latestRewardsTimestamp", () => {
-      let latestBlock: Block;
+    describe("operators", () => {
+      const stakeAmount = ether("1000");
+
+      let operator: SignerWithAddress;
+      let stakingOperator: CellarStaking;
 
       beforeEach(async () => {
-        await ctx.staking.notifyRewardAmount(oneMonthSec);
-        latestBlock = await ethers.provider.getBlock("latest");
+        const { signers, staking, stakingUser } = ctx;
+        operator = signers[4];
+        stakingOperator = staking.connect(operator);
+
+        await staking.notifyRewardAmount(ether(oneMonthSec.toString()));
+        await stakingUser.stake(stakeAmount, lockDay);
+        await stakingUser.stake(stakeAmount, lockWeek);
+        await increaseTime(oneDaySec);
       });
 
-      it("should report the latest block timestamp if rewards are ongoing", async () => {
-        const { staking } = ctx;
+      it("should approve and revoke an operator", async () => {
+        const { stakingUser, user } = ctx;
 
-        expect(await staking.latestRewardsTimestamp()).to.equal(latestBlock.timestamp);
+        await expect(stakingUser.setOperator(operator.address, true))
+          .to.emit(stakingUser, "OperatorSet")
+          .withArgs(user.address, operator.address, true);
+        expect(await stakingUser.operators(user.address, operator.address)).to.be.true;
+
+        await expect(stakingUser.setOperator(operator.address, false))
+          .to.emit(stakingUser, "OperatorSet")
+          .withArgs(user.address, operator.address, false);
+        expect(await stakingUser.operators(user.address, operator.address)).to.be.false;
       });
 
-      it("should report the ending timestamp of the rewards period if the period has ended", async () => {
-        const { staking } = ctx;
+      it("should not allow an unapproved address to act for a user", async () => {
+        const { user } = ctx;
+        const error = `USR_NotOperator("${user.address}", "${operator.address}")`;
 
-        // Move past rewards end
-        await increaseTime(latestBlock.timestamp + oneMonthSec * 2);
+        await expect(stakingOperator.claimFor(user.address, 0)).to.be.revertedWith(error);
+        await expect(stakingOperator.claimAllFor(user.address)).to.be.revertedWith(error);
+        await expect(stakingOperator.unbondFor(user.address, 0)).to.be.revertedWith(error);
+        await expect(stakingOperator.cancelUnbondingFor(user.address, 0)).to.be.revertedWith(error);
+      });
 
-        expect(await staking.latestRewardsTimestamp()).to.equal(latestBlock.timestamp + oneMonthSec);
+      it("should not allow a revoked operator to act for a user", async () => {
+        const { stakingUser, user } = ctx;
+
+        await stakingUser.setOperator(operator.address, true);
+        await stakingUser.setOperator(operator.address, false);
+
+        await expect(stakingOperator.claimAllFor(user.address)).to.be.revertedWith("USR_NotOperator");
+      });
+
+      it("should let an operator claim, sending rewards to the user", async () => {
+        const { stakingUser, tokenDist, user } = ctx;
+
+        await stakingUser.setOperator(operator.address, true);
+
+        const { timestamp } = await ethers.provider.getBlock("latest");
+        await setNextBlockTimestamp(timestamp + 1);
+        const earned = await stakingUser.earned(user.address, 0, { blockTag: "pending" });
+
+        await expect(stakingOperator.claimFor(user.address, 0))
+          .to.emit(stakingOperator, "Claim")
+          .withArgs(user.address, 0, earned, user.address);
+
+        expect(await tokenDist.balanceOf(user.address)).to.equal(earned);
+        expect(await tokenDist.balanceOf(operator.address)).to.equal(0);
+      });
+
+      it("should let an operator claim all rewards, sending them to the user", async () => {
+        const { stakingUser, tokenDist, user } = ctx;
+
+        await stakingUser.setOperator(operator.address, true);
+
+        const { timestamp } = await ethers.provider.getBlock("latest");
+        await setNextBlockTimestamp(timestamp + 1);
+        const earned = await stakingUser.earnedAll(user.address, { blockTag: "pending" });
+
+        await stakingOperator.claimAllFor(user.address);
+
+        expect(await tokenDist.balanceOf(user.address)).to.equal(earned);
+        expect(await tokenDist.balanceOf(operator.address)).to.equal(0);
+        expect(await stakingUser.earnedAll(user.address)).to.equal(0);
+      });
+
+      it("should let an operator unbond and cancel unbonding", async () => {
+        const { stakingUser, user } = ctx;
+
+        await stakingUser.setOperator(operator.address, true);
+        const boosted = (await stakingUser.stakes(user.address, 1)).amountWithBoost;
+
+        await expect(stakingOperator.unbondFor(user.address, 1))
+          .to.emit(stakingOperator, "Unbond")
+          .withArgs(user.address, 1, stakeAmount);
+
+        let stake = await stakingUser.stakes(user.address, 1);
+        expect(stake.unbondTimestamp).to.not.equal(0);
+        expect(stake.amountWithBoost).to.equal(stakeAmount);
+
+        await expect(stakingOperator.cancelUnbondingFor(user.address, 1))
+          .to.emit(stakingOperator, "CancelUnbond")
+          .withArgs(user.address, 1);
+
+        stake = await stakingUser.stakes(user.address, 1);
+        expect(stake.unbondTimestamp).to.equal(0);
+        expect(stake.amountWithBoost).to.equal(boosted);
+      });
+
+      it("should never let an operator withdraw principal", async () => {
+        const { stakingUser, tokenStake, user } = ctx;
+
+        await stakingUser.setOperator(operator.address, true);
+        await stakingOperator.unbondFor(user.address, 0);
+        await increaseTime(oneDaySec + 1);
+
+        // Unstaking only ever acts on the caller's own deposits
+        await expect(stakingOperator["unstake(uint256)"](0)).to.be.reverted;
+        await stakingOperator.unstakeAll();
+        expect(await tokenStake.balanceOf(operator.address)).to.equal(0);
+
+        const balanceBefore = await tokenStake.balanceOf(user.address);
+        await stakingUser["unstake(uint256)"](0);
+        expect(await tokenStake.balanceOf(user.address)).to.equal(balanceBefore.add(stakeAmount));
       });
     });
 
-    describe("rewardPerToken", () => {
-      let latestBlock: Block;
-      let stakeAmount: BigNumber;
+    describe("emergencyUnstake", () => {
+      const rewardPerEpoch = ether(oneWeekSec.toString());
 
       beforeEach(async () => {
-        stakeAmount = ether(oneMonthSec.toString());
-
-        await ctx.staking.notifyRewardAmount(stakeAmount);
-        latestBlock = await ethers.provider.getBlock("latest");
+        await ctx.staking.setRewardsDuration(oneWeekSec);
+        await ctx.staking.notifyRewardAmount(rewardPerEpoch);
       });
 
-      it("reports the latest rewards per deposited token", async () => {
+      it("should revert if the staking program has not been ended", async () => {
         const { stakingUser } = ctx;
-        // Deposit 50% of total rewards - will be equal after boost
-        await stakingUser.stake(BigNumber.from(oneMonthSec).div(2), lockTwoWeeks);
 
-        // Move halfway through
-        await setNextBlockTimestamp(latestBlock.timestamp + oneMonthSec / 2);
+        await expect(stakingUser.emergencyUnstake()).to.be.revertedWith("STATE_NoEmergencyUnstake");
+      });
 
-        // Half rewards distributed, which means that .5 tokens dist per deposited token
-        // Need to divide by one ether since zeroes are added for precision
-        const rewardPerToken = (await stakingUser.rewardPerToken()).div(ether("1"));
-        expectRoundedEqual(rewardPerToken, ether(".5"));
+      it("should return all staked tokens, across multiple stakes, regardless of lock status", async () => {
+        const { connectUser, signers, staking, stakingUser, tokenStake, user } = ctx;
+        await stakingUser.stake(initialTokenAmount, lockDay);
+        expect(await tokenStake.balanceOf(user.address)).to.equal(0);
+
+        const user2 = signers[2];
+        const stakingUser2 = await connectUser(user2);
+        await stakingUser2.stake(initialTokenAmount, lockWeek);
+        expect(await tokenStake.balanceOf(user2.address)).to.equal(0);
+
+        const user3 = signers[3];
+        const stakingUser3 = await connectUser(user3);
+        await stakingUser3.stake(initialTokenAmount, lockTwoWeeks);
+        expect(await tokenStake.balanceOf(user3.address)).to.equal(0);
+
+        await expect(staking.emergencyStop(false))
+          .to.emit(staking, "EmergencyStop")
+          .withArgs(signers[0].address, false);
+
+        await expect(stakingUser.emergencyUnstake())
+          .to.emit(stakingUser, "EmergencyUnstake")
+          .withArgs(user.address, 0, initialTokenAmount);
+        expect(await tokenStake.balanceOf(user.address)).to.equal(initialTokenAmount);
+
+        await expect(stakingUser2.emergencyUnstake())
+          .to.emit(stakingUser2, "EmergencyUnstake")
+          .withArgs(user2.address, 0, initialTokenAmount);
+        expect(await tokenStake.balanceOf(user2.address)).to.equal(initialTokenAmount);
+
+        await expect(stakingUser3.emergencyUnstake())
+          .to.emit(stakingUser3, "EmergencyUnstake")
+          .withArgs(user3.address, 0, initialTokenAmount);
+        expect(await tokenStake.balanceOf(user3.address)).to.equal(initialTokenAmount);
       });
 
-      it("reports the last calculated rewards per token if there are no deposits", async () => {
+      it("should emergency unstake multiple stakes for the same user", async () => {
+        const { staking, stakingUser, tokenStake, user } = ctx;
+        const stakeAmount = initialTokenAmount.div(2);
+
+        await stakingUser.stake(stakeAmount, lockDay);
+        await stakingUser.stake(stakeAmount, lockWeek);
+
+        expect(await tokenStake.balanceOf(user.address)).to.equal(0);
+
+        await expect(staking.emergencyStop(false)).to.not.be.reverted;
+
+        const tx = await stakingUser.emergencyUnstake();
+        const receipt = await tx.wait();
+
+        const unstakeEvents = await receipt.events?.filter(e => e.event === "Unbond");
+        expect(unstakeEvents?.length === 2);
+
+        for (const i in unstakeEvents!) {
+          const event = unstakeEvents[i];
+          expect(event?.args?.[0]).to.equal(user.address);
+          expect(event?.args?.[1]).to.equal(i);
+          expect(event?.args?.[2]).to.equal(stakeAmount);
+        }
+
+        expect(await tokenStake.balanceOf(user.address)).to.equal(initialTokenAmount);
+      });
+
+      it("should not allow users to claim rewards", async () => {
+        const { staking, stakingUser } = ctx;
+
+        await stakingUser.stake(initialTokenAmount, lockDay);
+        await expect(staking.emergencyStop(false)).to.not.be.reverted;
+
+        await stakingUser.emergencyUnstake();
+
+        // Try to claim rewards normally
+        await expect(stakingUser.claim(0)).to.be.revertedWith("STATE_ContractKilled");
+        await expect(stakingUser.claimAll()).to.be.revertedWith("STATE_ContractKilled");
+
+        // Try to claim rewards thru emergency
+        await expect(stakingUser.emergencyClaim()).to.be.revertedWith("STATE_NoEmergencyClaim");
+      });
+
+      it("should allow rewards to be claimable", async () => {
+        const { staking, stakingUser, tokenDist, user } = ctx;
+
+        await stakingUser.stake(ether("10000"), lockTwoWeeks);
+
+        const balanceBefore = await tokenDist.balanceOf(user.address);
+
+        // Move forward one week - rewards should be emitted
+        await increaseTime(oneWeekSec * 2);
+
+        // Unbond to update reward
+        await stakingUser.unbondAll();
+
+        await staking.emergencyStop(true);
+        await stakingUser.emergencyUnstake();
+
+        // Try to claim rewards normally
+        await expect(stakingUser.claim(0)).to.be.revertedWith("STATE_ContractKilled");
+        await expect(stakingUser.claimAll()).to.be.revertedWith("STATE_ContractKilled");
+
+        // Try to claim rewards thru emergency
+        const tx = await stakingUser.emergencyClaim();
+        const receipt = await tx.wait();
+
+        const claimEvent = receipt.events?.find(e => e.event === "EmergencyClaim");
+
+        expect(claimEvent).to.not.be.undefined;
+        expect(claimEvent?.args?.[0]).to.equal(user.address);
+        expectRoundedEqual(claimEvent?.args?.[1], rewardPerEpoch);
+
+        const balanceAfter = await tokenDist.balanceOf(user.address);
+
+        expectRoundedEqual(balanceAfter.sub(balanceBefore), rewardPerEpoch);
+      });
+    });
+
+    describe("emergencyClaim", () => {
+      const rewardPerEpoch = ether(oneWeekSec.toString());
+
+      beforeEach(async () => {
+        await ctx.staking.setRewardsDuration(oneWeekSec);
+        await ctx.staking.notifyRewardAmount(rewardPerEpoch);
+      });
+
+      it("should revert if the staking program has not been ended", async () => {
         const { stakingUser } = ctx;
-        // Deposit 71.43% of total rewards - will be equal after boost
-        await stakingUser.stake(BigNumber.from(oneMonthSec).div(10000).mul(7143), lockWeek);
+
+        await expect(stakingUser.emergencyClaim()).to.be.revertedWith("STATE_NoEmergencyUnstake");
+      });
+
+      it("should revert if the contract stopped with claim disabled", async () => {
+        const { staking, stakingUser } = ctx;
+
+        await staking.emergencyStop(false);
+        await expect(stakingUser.emergencyClaim()).to.be.revertedWith("STATE_NoEmergencyClaim");
+      });
+
+      it("should distribute all unclaimed rewards", async () => {
+        const { staking, stakingUser, tokenDist, user } = ctx;
+
+        // Multiple stakes - claim should harvest all
+        await stakingUser.stake(ether("10000"), lockDay);
+        await stakingUser.stake(ether("10000"), lockTwoWeeks);
+
+        const balanceBefore = await tokenDist.balanceOf(user.address);
+
+        // Move forward one week - rewards should be emitted
+        await increaseTime(oneWeekSec * 2);
+
+        // Unbond to update reward
         await stakingUser.unbondAll();
 
-        // Move halfway through
-        await setNextBlockTimestamp(latestBlock.timestamp + oneMonthSec / 2);
-        await stakingUser.unstake(0);
+        await staking.emergencyStop(true);
+
+        // Try to claim rewards thru emergency
+        const tx = await stakingUser.emergencyClaim();
+        const receipt = await tx.wait();
+
+        const claimEvent = receipt.events?.find(e => e.event === "EmergencyClaim");
+
+        // Need looser precision on claim amounts because in emergency situations
+        // we do not recalculate rewards
+        expect(claimEvent).to.not.be.undefined;
+        expect(claimEvent?.args?.[0]).to.equal(user.address);
+        expectRoundedEqual(claimEvent?.args?.[1], rewardPerEpoch, 5);
+
+        const balanceAfter = await tokenDist.balanceOf(user.address);
+
+        expectRoundedEqual(balanceAfter.sub(balanceBefore), rewardPerEpoch, 5);
+      });
+
+      it("should claim and unstake a single deposit to another address", async () => {
+        const { signers, staking, stakingUser, tokenDist, tokenStake, user } = ctx;
+        const stakeAmount = ether("10000");
+        const to = signers[2].address;
+
+        await stakingUser.stake(stakeAmount, lockDay);
+        await stakingUser.stake(stakeAmount, lockTwoWeeks);
+        await increaseTime(oneDaySec);
+        await staking.emergencyStop(true);
+
+        await expect(stakingUser.emergencyUnstakeTo(0, ethers.constants.AddressZero)).to.be.revertedWith(
+          "USR_ZeroAddress",
+        );
+        await expect(stakingUser.emergencyClaimTo(2, to)).to.be.revertedWith("USR_NoDeposit(2)");
+
+        const reward = await staking.earned(user.address, 0);
+        const [distBefore, stakeBefore] = [await tokenDist.balanceOf(to), await tokenStake.balanceOf(to)];
+
+        await expect(stakingUser.emergencyUnstakeTo(0, to))
+          .to.emit(staking, "EmergencyUnstake")
+          .withArgs(user.address, 0, stakeAmount);
+        await expect(stakingUser.emergencyUnstakeTo(0, to)).to.be.revertedWith("USR_NoDeposit(0)");
+
+        // Rewards are kept for an unstaked deposit
+        await expect(stakingUser.emergencyClaimTo(0, to))
+          .to.emit(staking, "EmergencyClaim")
+          .withArgs(user.address, reward);
+
+        expect((await tokenStake.balanceOf(to)).sub(stakeBefore)).to.equal(stakeAmount);
+        expect((await tokenDist.balanceOf(to)).sub(distBefore)).to.equal(reward);
+
+        // The other deposit is untouched
+        expect((await staking.stakes(user.address, 1)).amount).to.equal(stakeAmount);
+        expect(await staking.earned(user.address, 1)).to.be.gt(0);
+      });
+    });
+  });
+
+  describe("Admin Operations", () => {
+    describe("notifyRewardAmount", () => {
+      let distributor: SignerWithAddress;
+      let stakingDist: CellarStaking;
+
+      beforeEach(async () => {
+        const totalRewards = ether(String(20_000_000));
+
+        distributor = ctx.admin;
+        await ctx.tokenDist.mint(distributor.address, totalRewards);
+
+        stakingDist = await ctx.connectUser(distributor);
+      });
+
+      it("should revert if caller is not the funder", async () => {
+        const { stakingUser, user } = ctx;
+
+        await expect(stakingUser.notifyRewardAmount(ether("100"))).to.be.revertedWith(
+          `USR_NotFunder("${user.address}")`,
+        );
+      });
+
+      it("should revert if the staking contract is not funded with enough tokens", async () => {
+        // Schedule very large program
+        const largeAmount = ether("1").mul(BigNumber.from(10).pow(50));
+
+        await expect(stakingDist.notifyRewardAmount(largeAmount)).to.be.revertedWith("STATE_RewardsNotFunded");
+      });
+
+      it("should revert if the the reward is less than one base unit per second", async () => {
+        await expect(stakingDist.notifyRewardAmount(1)).to.be.revertedWith("USR_ZeroRewardsPerEpoch");
+      });
+
+      it("should revert if the the reward amount may cause overflow", async () => {
+        const { tokenDist, staking } = ctx;
+
+        const largeAmount = ether("1").mul(BigNumber.from(10).pow(50));
+        await tokenDist.mint(staking.address, largeAmount);
+
+        await expect(stakingDist.notifyRewardAmount(largeAmount)).to.be.revertedWith("USR_RewardTooLarge");
+      });
+
+      it("should schedule new rewards", async () => {
+        const { tokenDist } = ctx;
+
+        // Equates to one unit per second distributed
+        const rewards = ether(oneMonthSec.toString());
+        const balanceBefore = await tokenDist.balanceOf(distributor.address);
+
+        await tokenDist.connect(distributor).transfer(stakingDist.address, rewards);
+        const tx = await stakingDist.notifyRewardAmount(rewards);
+        const receipt = await tx.wait();
+        const latestBlock = await ethers.provider.getBlock("latest");
+
+        const fundingEvent = receipt.events?.find(e => e.event === "Funding");
+
+        expect(fundingEvent).to.not.be.undefined;
+        expect(fundingEvent?.args?.[0]).to.equal(rewards);
+        expect(fundingEvent?.args?.[1]).to.equal(latestBlock.timestamp + oneMonthSec);
+
+        // Check reward rate, end timestamp, and balances
+        expect(await stakingDist.rewardRate()).to.equal(ether("1"));
+        expect(await stakingDist.endTimestamp()).to.equal(latestBlock.timestamp + oneMonthSec);
+        expect(await tokenDist.balanceOf(stakingDist.address)).to.equal(initialTokenAmount.add(rewards));
+
+        const balanceAfter = await tokenDist.balanceOf(distributor.address);
+
+        expect(balanceBefore.sub(balanceAfter)).to.equal(rewards);
+      });
+
+      it("should update and extend existing schedule", async () => {
+        const { tokenDist, stakingUser } = ctx;
+
+        // Equates to one unit per second distributed
+        const rewards = ether(oneMonthSec.toString());
+        const balanceBefore = await tokenDist.balanceOf(distributor.address);
+        await tokenDist.connect(distributor).transfer(stakingDist.address, rewards);
+
+        await expect(stakingDist.notifyRewardAmount(rewards)).to.not.be.reverted;
+        let latestBlock = await ethers.provider.getBlock("latest");
+
+        await stakingUser.stake(ether("10000"), lockDay);
+
+        expect(await stakingDist.rewardRate()).to.equal(ether("1"));
+        expect(await stakingDist.endTimestamp()).to.equal(latestBlock.timestamp + oneMonthSec);
+        expect(await tokenDist.balanceOf(stakingDist.address)).to.equal(initialTokenAmount.add(rewards));
+
+        // Run halfway through, then start a new rewards period
+        await increaseTime(oneMonthSec / 2);
+
+        // Have someone claim
+        await stakingUser.claimAll();
+
+        // Transfer in and notify more rewards
+        await tokenDist.connect(distributor).transfer(stakingDist.address, rewards);
+        await expect(stakingDist.notifyRewardAmount(rewards)).to.not.be.reverted;
+        latestBlock = await ethers.provider.getBlock("latest");
+
+        // Reward rate should be 1.5x as as large, since leftover 0.5 gets carried
+        expectRoundedEqual(await stakingDist.rewardRate(), ether("1.5"));
+
+        // Period should be reset
+        expect(await stakingDist.endTimestamp()).to.equal(latestBlock.timestamp + oneMonthSec);
+
+        expectRoundedEqual(await tokenDist.balanceOf(stakingDist.address), initialTokenAmount.add(rewards.div(2).mul(3)));
+
+        const balanceAfter = await tokenDist.balanceOf(distributor.address);
+
+        // Funded twice
+        expect(balanceBefore.sub(balanceAfter)).to.equal(rewards.mul(2));
+      });
+
+      it("should move the leftover of an epoch without deposits only once", async () => {
+        const { stakingUser } = ctx;
+
+        const rewards = ether(oneMonthSec.toString());
+        await stakingDist.notifyRewardAmount(rewards);
+        await stakingUser.stake(ether("1000"), lockDay);
+
+        // Leave the epoch running with no deposits
+        await stakingUser["unbond(uint256)"](0);
+        await increaseTime(oneDaySec);
+        await stakingUser["unstake(uint256)"](0);
+
+        await stakingDist.notifyRewardAmount(rewards.div(2));
+        const rewardsReady = await stakingDist.rewardsReady();
+        const unpaidRewards = await stakingDist.unpaidRewards();
+
+        await stakingDist.notifyRewardAmount(rewards.div(4));
+
+        expect(await stakingDist.rewardsReady()).to.equal(rewardsReady.add(rewards.div(4)));
+        expect(await stakingDist.unpaidRewards()).to.equal(unpaidRewards);
+        expect(await stakingDist.remainingRewards()).to.equal(0);
+      });
+    });
+
+    describe("setRewardsDuration", () => {
+      it("should revert if caller is not the owner", async () => {
+        const { stakingUser } = ctx;
+
+        await expect(stakingUser.setRewardsDuration(oneWeekSec)).to.be.revertedWith("Ownable: caller is not the owner");
+      });
+
+      it("should update the reward epoch duration", async () => {
+        const { staking } = ctx;
+
+        expect(await staking.epochDuration()).to.equal(oneMonthSec);
+
+        await expect(staking.setRewardsDuration(oneWeekSec))
+          .to.emit(staking, "EpochDurationChange")
+          .withArgs(oneWeekSec);
+
+        expect(await staking.epochDuration()).to.equal(oneWeekSec);
+      });
+    });
+
+    describe("scheduleEpoch", () => {
+      const stakeAmount = ether("1000");
+      const epochAmount = ether(oneWeekSec.toString()).mul(2);
+      const flat = ethers.constants.AddressZero;
+
+      let endTimestamp: number;
+
+      beforeEach(async () => {
+        const { staking, stakingUser } = ctx;
+
+        await staking.notifyRewardAmount(ether(oneMonthSec.toString()));
+        await stakingUser.stake(stakeAmount, lockDay);
+        endTimestamp = (await staking.endTimestamp()).toNumber();
+      });
+
+      it("should revert if caller is not the funder", async () => {
+        const { stakingUser, user } = ctx;
+
+        await expect(stakingUser.scheduleEpoch(endTimestamp, oneWeekSec, epochAmount, flat)).to.be.revertedWith(
+          `USR_NotFunder("${user.address}")`,
+        );
+      });
+
+      it("should revert for an empty or unfunded epoch", async () => {
+        const { staking } = ctx;
+
+        await expect(staking.scheduleEpoch(endTimestamp, 0, epochAmount, flat)).to.be.revertedWith(
+          "USR_ZeroRewardsPerEpoch",
+        );
+        await expect(staking.scheduleEpoch(endTimestamp, oneWeekSec, oneWeekSec - 1, flat)).to.be.revertedWith(
+          "USR_ZeroRewardsPerEpoch",
+        );
+        await expect(staking.scheduleEpoch(endTimestamp, oneWeekSec, initialTokenAmount, flat)).to.be.revertedWith(
+          "STATE_RewardsNotFunded",
+        );
+      });
+
+      it("should not fund an epoch with rewards stakers have not claimed", async () => {
+        const { staking, stakingUser, tokenDist, user } = ctx;
+
+        // The whole program has been emitted, but nothing has been claimed
+        await setNextBlockTimestamp(endTimestamp + oneDaySec);
+
+        const balance = await tokenDist.balanceOf(staking.address);
+        const unpaid = await staking.unpaidRewards();
+        const start = endTimestamp + oneWeekSec;
+
+        await expect(staking.scheduleEpoch(start, oneWeekSec, balance, flat)).to.be.revertedWith(
+          `STATE_RewardsNotFunded(${balance}, ${unpaid.add(balance)})`,
+        );
+        await staking.scheduleEpoch(start, oneWeekSec, balance.sub(unpaid), flat);
+
+        await setNextBlockTimestamp(start + oneWeekSec);
+        await stakingUser.claimAll();
+
+        expectRoundedEqual(await tokenDist.balanceOf(user.address), balance);
+      });
+
+      it("should not allow epochs to overlap", async () => {
+        const { staking } = ctx;
+
+        await expect(staking.scheduleEpoch(endTimestamp - 1, oneWeekSec, epochAmount, flat)).to.be.revertedWith(
+          `USR_EpochOverlap(${endTimestamp - 1}, ${endTimestamp})`,
+        );
+
+        await staking.scheduleEpoch(endTimestamp, oneWeekSec, epochAmount, flat);
+        const nextStart = endTimestamp + oneWeekSec;
+
+        await expect(staking.scheduleEpoch(nextStart - 1, oneWeekSec, epochAmount, flat)).to.be.revertedWith(
+          `USR_EpochOverlap(${nextStart - 1}, ${nextStart})`,
+        );
+        await expect(staking.scheduleEpoch(nextStart + oneDaySec, oneWeekSec, epochAmount, flat))
+          .to.emit(staking, "EpochScheduled")
+          .withArgs(1, nextStart + oneDaySec, oneWeekSec, epochAmount, flat);
+      });
+
+      it("should not allow scheduling while rewards wait for a first deposit", async () => {
+        const { admin, tokenDist, tokenStake } = ctx;
+
+        const params = [admin.address, tokenStake.address, tokenDist.address, oneWeekSec, [ether("0.1")], [oneDaySec]];
+        const fresh = <CellarStaking>await deploy("CellarStaking", admin, params);
+        await tokenDist.mint(fresh.address, epochAmount.mul(2));
+        await fresh.notifyRewardAmount(epochAmount);
+
+        const { timestamp } = await ethers.provider.getBlock("latest");
+        await expect(fresh.scheduleEpoch(timestamp + oneDaySec, oneWeekSec, epochAmount, flat)).to.be.revertedWith(
+          "STATE_RewardsReady",
+        );
+      });
+
+      it("should not allow notifyRewardAmount while epochs are scheduled", async () => {
+        const { staking } = ctx;
+
+        await staking.scheduleEpoch(endTimestamp, oneWeekSec, epochAmount, flat);
+
+        await expect(staking.notifyRewardAmount(epochAmount)).to.be.revertedWith("STATE_EpochsScheduled");
+      });
+
+      it("should expose the queue of epochs which have not been activated", async () => {
+        const { staking, stakingUser } = ctx;
+
+        await staking.scheduleEpoch(endTimestamp, oneWeekSec, epochAmount, flat);
+        await staking.scheduleEpoch(endTimestamp + oneWeekSec, oneDaySec, epochAmount.div(2), flat);
+
+        let queue = await staking.getScheduledEpochs();
+        expect(queue).to.have.lengthOf(2);
+        expect(queue[0].startTimestamp).to.equal(endTimestamp);
+        expect(queue[1].amount).to.equal(epochAmount.div(2));
+        expect(await staking.scheduledRewards()).to.equal(epochAmount.mul(3).div(2));
+
+        await setNextBlockTimestamp(endTimestamp + oneDaySec);
+        await stakingUser.claimAll();
+
+        queue = await staking.getScheduledEpochs();
+        expect(queue).to.have.lengthOf(1);
+        expect(queue[0].startTimestamp).to.equal(endTimestamp + oneWeekSec);
+        expect(await staking.nextScheduledEpoch()).to.equal(1);
+        expect(await staking.scheduledRewards()).to.equal(epochAmount.div(2));
+      });
+
+      it("should activate epochs in order at their start, without blending rates", async () => {
+        const { staking, stakingUser } = ctx;
+        const gapStart = endTimestamp + oneWeekSec;
+
+        await staking.scheduleEpoch(endTimestamp, oneWeekSec, epochAmount, flat);
+        await staking.scheduleEpoch(gapStart + oneDaySec, oneDaySec, epochAmount.div(2), flat);
+
+        // Both epochs start with no transactions in between
+        await setNextBlockTimestamp(gapStart + oneDaySec * 3);
+
+        const state = await getRewardState(staking);
+        const expected = rewardPerToken(state, gapStart + oneDaySec * 3);
+        const [viewRewardPerToken] = await staking.rewardPerToken();
+        expect(viewRewardPerToken).to.equal(expected);
+
+        await expect(stakingUser.claimAll())
+          .to.emit(staking, "Funding")
+          .withArgs(epochAmount, gapStart)
+          .and.to.emit(staking, "Funding")
+          .withArgs(epochAmount.div(2), gapStart + oneDaySec * 2);
+
+        expect(await staking.rewardPerTokenStored()).to.equal(expected);
+        expect(await staking.rewardRate()).to.equal(epochAmount.div(2).div(oneDaySec));
+        expect(await staking.endTimestamp()).to.equal(gapStart + oneDaySec * 2);
+        expect(await staking.currentEpochDuration()).to.equal(oneDaySec);
+      });
+
+      it("should pay out every scheduled epoch in full", async () => {
+        const { staking, stakingUser, tokenDist, user } = ctx;
+
+        await staking.scheduleEpoch(endTimestamp, oneWeekSec, epochAmount, flat);
+        await staking.scheduleEpoch(endTimestamp + oneWeekSec, oneDaySec, epochAmount.div(2), flat);
+
+        await setNextBlockTimestamp(endTimestamp + oneWeekSec * 2);
+        await stakingUser.claimAll();
+
+        // Single staker takes the remaining program plus both epochs
+        const remaining = ether(oneMonthSec.toString());
+        expectRoundedEqual(await tokenDist.balanceOf(user.address), remaining.add(epochAmount.mul(3).div(2)));
+      });
+
+      it("should allow staking before the first scheduled epoch starts", async () => {
+        const { admin, tokenDist, tokenStake, user } = ctx;
+
+        const params = [admin.address, tokenStake.address, tokenDist.address, oneWeekSec, [ether("0.1")], [oneDaySec]];
+        const fresh = <CellarStaking>await deploy("CellarStaking", admin, params);
+        await tokenDist.mint(fresh.address, epochAmount);
+        await tokenStake.connect(user).approve(fresh.address, stakeAmount);
+
+        const { timestamp } = await ethers.provider.getBlock("latest");
+        await fresh.scheduleEpoch(timestamp + oneDaySec, oneWeekSec, epochAmount, flat);
+        await fresh.connect(user).stake(stakeAmount, 0);
+
+        await increaseTime(oneDaySec + oneWeekSec);
+        await fresh.connect(user).claimAll();
+
+        expectRoundedEqual(await tokenDist.balanceOf(user.address), epochAmount);
+      });
+
+      it("should return scheduled rewards in an emergency stop", async () => {
+        const { admin, staking, tokenDist } = ctx;
+
+        await staking.scheduleEpoch(endTimestamp, oneWeekSec, epochAmount, flat);
+        const balanceBefore = await tokenDist.balanceOf(admin.address);
+
+        await staking.emergencyStop(false);
+
+        expect(await staking.getScheduledEpochs()).to.be.empty;
+        expect(await staking.scheduledRewards()).to.equal(0);
+        expect(await tokenDist.balanceOf(admin.address)).to.be.gt(balanceBefore.add(epochAmount));
+      });
+    });
+
+    describe("setMinimumDeposit", () => {
+      it("should revert if caller is not the owner", async () => {
+        const { stakingUser } = ctx;
+
+        await expect(stakingUser.setMinimumDeposit(ether("1"))).to.be.revertedWith("Ownable: caller is not the owner");
+      });
+
+      it("should set a new minimum staking deposit and immediately enforce it", async () => {
+        const { staking, stakingUser } = ctx;
+
+        await staking.notifyRewardAmount(oneMonthSec);
+
+        expect(await staking.minimumDeposit()).to.equal(0);
+        await expect(stakingUser.stake(ether("1"), lockDay)).to.not.be.reverted;
+
+        await expect(staking.setMinimumDeposit(ether("10"))).to.not.be.reverted;
+
+        expect(await staking.minimumDeposit()).to.equal(ether("10"));
+        await expect(stakingUser.stake(ether("1"), lockDay)).to.be.revertedWith("USR_MinimumDeposit");
+      });
+    });
+
+    describe("addLockTier", () => {
+      it("should revert if caller is not the owner", async () => {
+        const { stakingUser } = ctx;
+
+        await expect(stakingUser.addLockTier(ether("2"), oneMonthSec)).to.be.revertedWith(
+          "Ownable: caller is not the owner",
+        );
+      });
+
+      it("should deploy with the given lock tiers", async () => {
+        const { staking } = ctx;
+
+        const tiers = await staking.getLockTiers();
+        expect(tiers.length).to.equal(3);
+        expect(tiers.map(t => t.boost)).to.deep.equal([ether("0.1"), ether("0.4"), ether("1")]);
+        expect(tiers.map(t => t.lockDuration.toNumber())).to.deep.equal([oneDaySec, oneWeekSec, oneWeekSec * 2]);
+        expect(tiers.every(t => t.active)).to.be.true;
+      });
+
+      it("should revert on deployment if boosts and lock times do not match", async () => {
+        const { admin, tokenDist, tokenStake } = ctx;
+
+        const params = [admin.address, tokenStake.address, tokenDist.address, oneMonthSec, [ether("0.1")], []];
+        await expect(deploy("CellarStaking", admin, params)).to.be.revertedWith("USR_LockTierMismatch(1, 0)");
+      });
+
+      it("should add a tier that can be staked with immediately", async () => {
+        const { staking, stakingUser, user } = ctx;
+        const stakeAmount = ether("1000");
+
+        await expect(staking.addLockTier(ether("2"), oneMonthSec))
+          .to.emit(staking, "LockTierAdded")
+          .withArgs(3, ether("2"), oneMonthSec);
+
+        const tier = await staking.lockTiers(3);
+        expect(tier.boost).to.equal(ether("2"));
+        expect(tier.lockDuration).to.equal(oneMonthSec);
+        expect(tier.active).to.be.true;
+
+        await staking.notifyRewardAmount(oneMonthSec);
+        await stakingUser.stake(stakeAmount, 3);
+
+        const [stake] = await stakingUser.getUserStakes(user.address);
+        expect(stake.lock).to.equal(3);
+        expect(stake.amountWithBoost).to.equal(stakeAmount.mul(3));
+
+        await stakingUser["unbond(uint256)"](0);
+        const latestBlock = await ethers.provider.getBlock("latest");
+        expect((await stakingUser.stakes(user.address, 0)).unbondTimestamp).to.equal(
+          latestBlock.timestamp + oneMonthSec,
+        );
+      });
+    });
+
+    describe("retireLockTier", () => {
+      const stakeAmount = ether("1000");
+
+      beforeEach(async () => {
+        await ctx.staking.notifyRewardAmount(oneMonthSec);
+      });
+
+      it("should revert if caller is not the owner", async () => {
+        const { stakingUser } = ctx;
+
+        await expect(stakingUser.retireLockTier(lockWeek)).to.be.revertedWith("Ownable: caller is not the owner");
+      });
+
+      it("should revert for a tier that does not exist", async () => {
+        const { staking } = ctx;
+
+        await expect(staking.retireLockTier(3)).to.be.revertedWith("USR_InvalidLockValue(3)");
+      });
+
+      it("should revert if the tier is already retired", async () => {
+        const { staking } = ctx;
+
+        await staking.retireLockTier(lockWeek);
+        await expect(staking.retireLockTier(lockWeek)).to.be.revertedWith("USR_LockTierRetired(1)");
+      });
+
+      it("should prevent new stakes in a retired tier", async () => {
+        const { staking, stakingUser } = ctx;
+
+        await expect(staking.retireLockTier(lockWeek)).to.emit(staking, "LockTierRetired").withArgs(lockWeek);
+        expect((await staking.lockTiers(lockWeek)).active).to.be.false;
+
+        await expect(stakingUser.stake(stakeAmount, lockWeek)).to.be.revertedWith("USR_LockTierRetired(1)");
+        await expect(stakingUser.stake(stakeAmount, lockTwoWeeks)).to.not.be.reverted;
+      });
+
+      it("should let existing deposits in a retired tier keep their terms", async () => {
+        const { staking, stakingUser, user } = ctx;
+
+        await stakingUser.stake(stakeAmount, lockWeek);
+        await staking.retireLockTier(lockWeek);
+
+        const boosted = stakeAmount.add(stakeAmount.mul((await staking.lockTiers(lockWeek)).boost).div(ether("1")));
+        expect((await stakingUser.stakes(user.address, 0)).amountWithBoost).to.equal(boosted);
+
+        // Unbonding uses the retired tier's lock time, and cancelling restores its boost
+        await stakingUser["unbond(uint256)"](0);
+        const latestBlock = await ethers.provider.getBlock("latest");
+        expect((await stakingUser.stakes(user.address, 0)).unbondTimestamp).to.equal(
+          latestBlock.timestamp + oneWeekSec,
+        );
+
+        await stakingUser.cancelUnbonding(0);
+        expect((await stakingUser.stakes(user.address, 0)).amountWithBoost).to.equal(boosted);
+        expect(await stakingUser.totalDepositsWithBoost()).to.equal(boosted);
+      });
+    });
+
+    describe("setPaused", () => {
+      it("should revert if caller is not the owner or guardian", async () => {
+        const { stakingUser, user } = ctx;
+
+        await expect(stakingUser.setPaused(true)).to.be.revertedWith(`USR_NotGuardian("${user.address}")`);
+        await expect(stakingUser.setPaused(false)).to.be.revertedWith("Ownable: caller is not the owner");
+      });
+
+      it("should pause the contract", async () => {
+        const { staking, stakingUser } = ctx;
+
+        await expect(staking.setPaused(true)).to.not.be.reverted;
+        expect(await staking.paused()).to.equal(true);
+
+        // Make sure everything paused
+        await expect(stakingUser.stake(ether("10"), lockDay)).to.be.revertedWith("STATE_ContractPaused");
+        await expect(stakingUser["unbond(uint256)"](0)).to.be.revertedWith("STATE_ContractPaused");
+        await expect(stakingUser.unbondAll()).to.be.revertedWith("STATE_ContractPaused");
+        await expect(stakingUser.cancelUnbonding(0)).to.be.revertedWith("STATE_ContractPaused");
+        await expect(stakingUser.cancelUnbondingAll()).to.be.revertedWith("STATE_ContractPaused");
+        await expect(stakingUser.cancelUnbonding(0)).to.be.revertedWith("STATE_ContractPaused");
+        await expect(stakingUser.cancelUnbondingAll()).to.be.revertedWith("STATE_ContractPaused");
+        await expect(stakingUser["unstake(uint256)"](0)).to.be.revertedWith("STATE_ContractPaused");
+        await expect(stakingUser.unstakeAll()).to.be.revertedWith("STATE_ContractPaused");
+        await expect(stakingUser.claim(0)).to.be.revertedWith("STATE_ContractPaused");
+        await expect(stakingUser.claimAll()).to.be.revertedWith("STATE_ContractPaused");
+      });
+
+      it("should unpause the contract", async () => {
+        const { staking, stakingUser } = ctx;
+
+        await expect(staking.setPaused(true)).to.not.be.reverted;
+        expect(await staking.paused()).to.equal(true);
+
+        // Make sure everything paused
+        await expect(stakingUser.stake(ether("10"), lockDay)).to.be.revertedWith("STATE_ContractPaused");
+        await expect(stakingUser["unbond(uint256)"](0)).to.be.revertedWith("STATE_ContractPaused");
+        await expect(stakingUser.unbondAll()).to.be.revertedWith("STATE_ContractPaused");
+        await expect(stakingUser.cancelUnbonding(0)).to.be.revertedWith("STATE_ContractPaused");
+        await expect(stakingUser.cancelUnbondingAll()).to.be.revertedWith("STATE_ContractPaused");
+        await expect(stakingUser.cancelUnbonding(0)).to.be.revertedWith("STATE_ContractPaused");
+        await expect(stakingUser.cancelUnbondingAll()).to.be.revertedWith("STATE_ContractPaused");
+        await expect(stakingUser["unstake(uint256)"](0)).to.be.revertedWith("STATE_ContractPaused");
+        await expect(stakingUser.unstakeAll()).to.be.revertedWith("STATE_ContractPaused");
+        await expect(stakingUser.claim(0)).to.be.revertedWith("STATE_ContractPaused");
+        await expect(stakingUser.claimAll()).to.be.revertedWith("STATE_ContractPaused");
+
+        // Now unpause
+        await expect(staking.setPaused(false)).to.not.be.reverted;
+        expect(await staking.paused()).to.equal(false);
+
+        // Make sure everything allowed (may revert for other reasons)
+        await expect(stakingUser.stake(ether("10"), lockDay)).to.not.be.revertedWith("STATE_ContractPaused");
+        await expect(stakingUser["unbond(uint256)"](0)).to.not.be.revertedWith("STATE_ContractPaused");
+        await expect(stakingUser.unbondAll()).to.not.be.revertedWith("STATE_ContractPaused");
+        await expect(stakingUser.cancelUnbonding(0)).to.not.be.revertedWith("STATE_ContractPaused");
+        await expect(stakingUser.cancelUnbondingAll()).to.not.be.revertedWith("STATE_ContractPaused");
+        await expect(stakingUser.cancelUnbonding(0)).to.not.be.revertedWith("STATE_ContractPaused");
+        await expect(stakingUser.cancelUnbondingAll()).to.not.be.revertedWith("STATE_ContractPaused");
+        await expect(stakingUser["unstake(uint256)"](0)).to.not.be.revertedWith("STATE_ContractPaused");
+        await expect(stakingUser.unstakeAll()).to.not.be.revertedWith("STATE_ContractPaused");
+        await expect(stakingUser.claim(0)).to.not.be.revertedWith("STATE_ContractPaused");
+        await expect(stakingUser.claimAll()).to.not.be.revertedWith("STATE_ContractPaused");
+      });
+    });
+
+    describe("emergencyStop", () => {
+      it("should revert if caller is not the owner", async () => {
+        const { stakingUser } = ctx;
+
+        await expect(stakingUser.emergencyStop(false)).to.be.revertedWith("Ownable: caller is not the owner");
+      });
+
+      it("should end the contract while making rewards claimable", async () => {
+        const { staking, stakingUser } = ctx;
+
+        await expect(staking.emergencyStop(true))
+          .to.emit(staking, "EmergencyStop")
+          .withArgs(await staking.signer.getAddress(), true);
+
+        expect(await staking.ended()).to.equal(true);
+        expect(await staking.claimable()).to.equal(true);
+
+        await expect(stakingUser.emergencyUnstake()).to.not.be.revertedWith("STATE_NoEmergencyUnstake");
+        await expect(stakingUser.emergencyClaim())
+          .to.not.be.revertedWith("STATE_NoEmergencyClaim")
+          .and.to.not.be.revertedWith("STATE_NoEmergencyUnstake");
+      });
+
+      it("should end the contract and return distribution tokens if rewards are not claimable", async () => {
+        const { admin, staking, stakingUser, tokenDist } = ctx;
+
+        // Make sure contract only has oneMonthSecTokens
+        const originalBalance = await tokenDist.balanceOf(admin.address);
+        await tokenDist.connect(admin).transfer(staking.address, oneMonthSec);
+        await staking.notifyRewardAmount(oneMonthSec);
+        const balanceAfterFunding = await tokenDist.balanceOf(admin.address);
+
+        expect(originalBalance.sub(balanceAfterFunding)).to.equal(oneMonthSec);
+
+        await stakingUser.stake(ether("10"), lockDay);
+
+        await increaseTime(oneWeekSec);
+
+        await expect(staking.emergencyStop(false))
+          .to.emit(staking, "EmergencyStop")
+          .withArgs(await staking.signer.getAddress(), false);
+
+        expect(await staking.ended()).to.equal(true);
+        expect(await staking.claimable()).to.equal(false);
+
+        // Should get all coins back, since stakingUser never claimed
+        const balanceAfterStop = await tokenDist.balanceOf(admin.address);
+        expect(originalBalance).to.equal(balanceAfterStop.sub(initialTokenAmount));
+
+        await expect(stakingUser.emergencyUnstake()).to.not.be.revertedWith("STATE_NoEmergencyUnstake");
+        await expect(stakingUser.emergencyClaim()).to.be.revertedWith("STATE_NoEmergencyClaim");
+      });
+
+      it("should keep rewards of earlier epochs claimable after an epoch rollover", async () => {
+        const { admin, connectUser, signers, staking, stakingUser, tokenDist, user } = ctx;
+        const other = signers[2];
+        const stakingOther = await connectUser(other);
+        const epochReward = ether(oneWeekSec.toString());
+
+        await staking.notifyRewardAmount(epochReward);
+        await stakingUser.stake(ether("100"), lockDay);
+        await stakingOther.stake(ether("300"), lockDay);
+
+        const endTimestamp = (await staking.endTimestamp()).toNumber();
+        await staking.scheduleEpoch(endTimestamp, oneWeekSec, epochReward, ethers.constants.AddressZero);
+
+        // Stop halfway through the scheduled epoch, with nothing claimed from either epoch
+        await setNextBlockTimestamp(endTimestamp + oneWeekSec / 2);
+        const ownerBalance = await tokenDist.balanceOf(admin.address);
+        await staking.emergencyStop(true);
+
+        expect(await staking.rewardsReady()).to.equal(0);
+
+        await stakingUser.emergencyClaim();
+        await stakingOther.emergencyClaim();
+
+        const emitted = epochReward.add(epochReward.div(2));
+        expectRoundedEqual(await tokenDist.balanceOf(user.address), emitted.div(4));
+        expectRoundedEqual(await tokenDist.balanceOf(other.address), emitted.mul(3).div(4));
+        expectRoundedEqual(
+          (await tokenDist.balanceOf(admin.address)).sub(ownerBalance),
+          initialTokenAmount.sub(emitted),
+        );
+        expect(await staking.unpaidRewards()).to.equal(await tokenDist.balanceOf(staking.address));
+      });
+
+      it("should return rewards waiting for a first deposit", async () => {
+        const { admin, staking, tokenDist } = ctx;
+
+        await staking.notifyRewardAmount(ether(oneWeekSec.toString()));
+        await staking.emergencyStop(true);
+
+        expect(await staking.rewardsReady()).to.equal(0);
+        expect(await tokenDist.balanceOf(staking.address)).to.equal(0);
+        expect(await tokenDist.balanceOf(admin.address)).to.equal(initialTokenAmount.mul(2));
+      });
+
+      it("should revert if called more than once", async () => {
+        const { staking } = ctx;
+
+        await expect(staking.emergencyStop(true))
+          .to.emit(staking, "EmergencyStop")
+          .withArgs(await staking.signer.getAddress(), true);
+
+        // Try to stop again
+        await expect(staking.emergencyStop(true)).to.be.revertedWith("STATE_AlreadyStopped");
+      });
+    });
+
+    describe("recoverERC20", () => {
+      const reward = ether(oneMonthSec.toString());
+      const stakeAmount = ether("1000");
+
+      it("should revert if caller is not the owner", async () => {
+        const { stakingUser, tokenDist, user } = ctx;
+
+        await expect(stakingUser.recoverERC20(tokenDist.address, 1, user.address)).to.be.revertedWith(
+          "Ownable: caller is not the owner",
+        );
+      });
+
+      it("should recover a stray token and emit an event", async () => {
+        const { admin, staking, user } = ctx;
+
+        const stray = <MockERC20>await deploy("MockERC20", admin, ["stray", "str"]);
+        await stray.mint(staking.address, ether("5"));
+
+        await expect(staking.recoverERC20(stray.address, ether("5"), user.address))
+          .to.emit(staking, "Recover")
+          .withArgs(stray.address, ether("5"), user.address);
+
+        expect(await stray.balanceOf(user.address)).to.equal(ether("5"));
+        await expect(staking.recoverERC20(stray.address, 1, ethers.constants.AddressZero)).to.be.revertedWith(
+          "USR_ZeroAddress",
+        );
+      });
+
+      it("should never recover the staking token", async () => {
+        const { staking, stakingUser, tokenStake, user } = ctx;
+
+        await staking.notifyRewardAmount(reward);
+        await stakingUser.stake(stakeAmount, lockDay);
+        // Even tokens sent by mistake are indistinguishable from deposits
+        await tokenStake.connect(user).transfer(staking.address, ether("1"));
+
+        await expect(staking.recoverERC20(tokenStake.address, 1, user.address)).to.be.revertedWith(
+          `USR_ProtectedAsset("${tokenStake.address}")`,
+        );
+      });
+
+      it("should never recover an additional reward token", async () => {
+        const { admin, staking, user } = ctx;
+
+        const tokenPartner = <MockERC20>await deploy("MockERC20", admin, ["partner", "ptr"]);
+        await staking.addRewardToken(tokenPartner.address, oneWeekSec);
+        await tokenPartner.mint(staking.address, ether("1"));
+
+        await expect(staking.recoverERC20(tokenPartner.address, 1, user.address)).to.be.revertedWith(
+          `USR_ProtectedAsset("${tokenPartner.address}")`,
+        );
+      });
+
+      it("should not recover distribution tokens held for rewardsReady", async () => {
+        const { admin, staking, tokenDist } = ctx;
+
+        await staking.notifyRewardAmount(reward);
+        const surplus = initialTokenAmount.sub(reward);
+
+        await expect(staking.recoverERC20(tokenDist.address, surplus.add(1), admin.address)).to.be.revertedWith(
+          `USR_ProtectedAsset("${tokenDist.address}")`,
+        );
+        await staking.recoverERC20(tokenDist.address, surplus, admin.address);
+
+        expect(await tokenDist.balanceOf(staking.address)).to.equal(reward);
+      });
+
+      it("should not recover accrued rewards or the remaining schedule", async () => {
+        const { admin, staking, stakingUser, tokenDist, user } = ctx;
+
+        await staking.notifyRewardAmount(reward);
+        await stakingUser.stake(stakeAmount, lockDay);
+        await increaseTime(oneWeekSec);
+
+        const surplus = initialTokenAmount.sub(reward);
+        await expect(staking.recoverERC20(tokenDist.address, surplus.add(1), admin.address)).to.be.revertedWith(
+          `USR_ProtectedAsset("${tokenDist.address}")`,
+        );
+        await staking.recoverERC20(tokenDist.address, surplus, admin.address);
+
+        // Claims keep working through the end of the schedule
+        await stakingUser.claimAll();
+        await increaseTime(oneMonthSec);
+        await stakingUser.claimAll();
+
+        expectRoundedEqual(await tokenDist.balanceOf(user.address), reward);
+        expect(await staking.unpaidRewards()).to.equal(await tokenDist.balanceOf(staking.address));
+      });
+
+      it("should not recover distribution tokens held for scheduled epochs", async () => {
+        const { admin, staking, stakingUser, tokenDist } = ctx;
+
+        await staking.notifyRewardAmount(reward);
+        await stakingUser.stake(stakeAmount, lockDay);
+        const endTimestamp = (await staking.endTimestamp()).toNumber();
+        await staking.scheduleEpoch(endTimestamp, oneWeekSec, reward, ethers.constants.AddressZero);
+
+        const surplus = initialTokenAmount.sub(reward.mul(2));
+        await expect(staking.recoverERC20(tokenDist.address, surplus.add(1), admin.address)).to.be.revertedWith(
+          `USR_ProtectedAsset("${tokenDist.address}")`,
+        );
+        await staking.recoverERC20(tokenDist.address, surplus, admin.address);
+      });
+    });
+
+    describe("roles", () => {
+      const reward = ether(oneMonthSec.toString());
+      const ownableError = "Ownable: caller is not the owner";
+
+      let funder: SignerWithAddress;
+      let guardian: SignerWithAddress;
+
+      beforeEach(async () => {
+        const { signers, staking } = ctx;
+
+        [funder, guardian] = [signers[2], signers[3]];
+
+        await staking.setFunder(funder.address);
+        await staking.setGuardian(guardian.address);
+      });
+
+      it("should start with the owner as funder and guardian", async () => {
+        const { admin, tokenDist, tokenStake } = ctx;
+
+        const params = [admin.address, tokenStake.address, tokenDist.address, oneMonthSec, [ether("0.1")], [oneDaySec]];
+        const fresh = <CellarStaking>await deploy("CellarStaking", admin, params);
+
+        expect(await fresh.owner()).to.equal(admin.address);
+        expect(await fresh.funder()).to.equal(admin.address);
+        expect(await fresh.guardian()).to.equal(admin.address);
+        expect(await fresh.pendingOwner()).to.equal(ethers.constants.AddressZero);
+      });
+
+      it("should only allow the owner to set the funder and guardian", async () => {
+        const { staking, stakingUser, user } = ctx;
+
+        await expect(stakingUser.setFunder(user.address)).to.be.revertedWith(ownableError);
+        await expect(staking.connect(funder).setGuardian(funder.address)).to.be.revertedWith(ownableError);
+
+        await expect(staking.setFunder(user.address)).to.emit(staking, "FunderChange").withArgs(user.address);
+        await expect(staking.setGuardian(user.address)).to.emit(staking, "GuardianChange").withArgs(user.address);
+
+        expect(await staking.funder()).to.equal(user.address);
+        expect(await staking.guardian()).to.equal(user.address);
+      });
+
+      it("should not allow the funder or guardian to be the zero address", async () => {
+        const { staking } = ctx;
+        const zero = ethers.constants.AddressZero;
+
+        await expect(staking.setFunder(zero)).to.be.revertedWith("USR_ZeroAddress");
+        await expect(staking.setGuardian(zero)).to.be.revertedWith("USR_ZeroAddress");
+
+        expect(await staking.funder()).to.equal(funder.address);
+        expect(await staking.guardian()).to.equal(guardian.address);
+      });
+
+      it("should only allow the funder to fund rewards", async () => {
+        const { admin, staking, stakingUser } = ctx;
+        const flat = ethers.constants.AddressZero;
+
+        for (const signer of [admin, guardian]) {
+          await expect(staking.connect(signer).notifyRewardAmount(reward)).to.be.revertedWith(
+            `USR_NotFunder("${signer.address}")`,
+          );
+        }
+
+        await staking.connect(funder).notifyRewardAmount(reward);
+        expect(await staking.rewardsReady()).to.equal(reward);
+
+        await stakingUser.stake(ether("1000"), lockDay);
+        const endTimestamp = (await staking.endTimestamp()).toNumber();
+        await expect(staking.scheduleEpoch(endTimestamp, oneWeekSec, reward, flat)).to.be.revertedWith(
+          `USR_NotFunder("${admin.address}")`,
+        );
+        await expect(staking.connect(funder).scheduleEpoch(endTimestamp, oneWeekSec, reward, flat)).to.emit(
+          staking,
+          "EpochScheduled",
+        );
+      });
+
+      it("should only allow the funder to fund additional reward tokens", async () => {
+        const { admin, staking } = ctx;
+
+        const tokenPartner = <MockERC20>await deploy("MockERC20", admin, ["partner", "ptr"]);
+        await tokenPartner.mint(staking.address, reward);
+        await staking.addRewardToken(tokenPartner.address, oneMonthSec);
+
+        await expect(staking.notifyRewardTokenAmount(tokenPartner.address, reward)).to.be.revertedWith(
+          `USR_NotFunder("${admin.address}")`,
+        );
+        await staking.connect(funder).notifyRewardTokenAmount(tokenPartner.address, reward);
+        expect((await staking.rewardSchedules(tokenPartner.address)).rewardsReady).to.equal(reward);
+      });
+
+      it("should allow the guardian to pause but not unpause", async () => {
+        const { staking } = ctx;
+
+        await expect(staking.connect(funder).setPaused(true)).to.be.revertedWith(
+          `USR_NotGuardian("${funder.address}")`,
+        );
+
+        await staking.connect(guardian).setPaused(true);
+        expect(await staking.paused()).to.equal(true);
+
+        await expect(staking.connect(guardian).setPaused(false)).to.be.revertedWith(ownableError);
+        await expect(staking.connect(funder).setPaused(false)).to.be.revertedWith(ownableError);
+
+        await staking.setPaused(false);
+        expect(await staking.paused()).to.equal(false);
+
+        // The owner can pause as well
+        await staking.setPaused(true);
+        expect(await staking.paused()).to.equal(true);
+      });
+
+      it("should not allow the funder or guardian to administer the contract", async () => {
+        const { admin, staking, tokenDist } = ctx;
+
+        for (const signer of [funder, guardian]) {
+          const other = staking.connect(signer);
+
+          await expect(other.setRewardsDuration(oneWeekSec)).to.be.revertedWith(ownableError);
+          await expect(other.setEmissionCurve(ethers.constants.AddressZero)).to.be.revertedWith(ownableError);
+          await expect(other.setMinimumDeposit(ether("1"))).to.be.revertedWith(ownableError);
+          await expect(other.addLockTier(ether("2"), oneMonthSec)).to.be.revertedWith(ownableError);
+          await expect(other.retireLockTier(lockDay)).to.be.revertedWith(ownableError);
+          await expect(other.addRewardToken(admin.address, oneWeekSec)).to.be.revertedWith(ownableError);
+          await expect(other.setRewardTokenDuration(admin.address, oneWeekSec)).to.be.revertedWith(ownableError);
+          await expect(other.recoverERC20(tokenDist.address, 1, signer.address)).to.be.revertedWith(ownableError);
+          await expect(other.emergencyStop(true)).to.be.revertedWith(ownableError);
+          await expect(other.transferOwnership(signer.address)).to.be.revertedWith(ownableError);
+        }
+      });
+
+      it("should require the new owner to accept ownership", async () => {
+        const { admin, staking, user } = ctx;
+
+        await staking.transferOwnership(user.address);
+        expect(await staking.owner()).to.equal(admin.address);
+        expect(await staking.pendingOwner()).to.equal(user.address);
+
+        // Until accepted, the current owner keeps every admin right
+        await staking.setMinimumDeposit(ether("1"));
+        await expect(staking.connect(funder).acceptOwnership()).to.be.revertedWith(
+          "Ownable2Step: caller is not the new owner",
+        );
+
+        await expect(staking.connect(user).acceptOwnership())
+          .to.emit(staking, "OwnershipTransferred")
+          .withArgs(admin.address, user.address);
+
+        expect(await staking.owner()).to.equal(user.address);
+        expect(await staking.pendingOwner()).to.equal(ethers.constants.AddressZero);
+        await expect(staking.setMinimumDeposit(ether("2"))).to.be.revertedWith(ownableError);
+
+        // Roles are kept through the transfer
+        expect(await staking.funder()).to.equal(funder.address);
+        expect(await staking.guardian()).to.equal(guardian.address);
+      });
+    });
+  });
+
+  describe("State Information", () => {
+    describe("latestRewardsTimestamp", () => {
+      let latestBlock: Block;
+
+      beforeEach(async () => {
+        await ctx.staking.notifyRewardAmount(oneMonthSec);
+        latestBlock = await ethers.provider.getBlock("latest");
+      });
+
+      it("should report the latest block timestamp if rewards are ongoing", async () => {
+        const { staking } = ctx;
+
+        expect(await staking.latestRewardsTimestamp()).to.equal(latestBlock.timestamp);
+      });
+
+      it("should report the ending timestamp of the rewards period if the period has ended", async () => {
+        const { staking } = ctx;
+
+        // Move past rewards end
+        await increaseTime(latestBlock.timestamp + oneMonthSec * 2);
+
+        expect(await staking.latestRewardsTimestamp()).to.equal(latestBlock.timestamp + oneMonthSec);
+      });
+    });
+
+    describe("rewardPerToken", () => {
+      let latestBlock: Block;
+      let stakeAmount: BigNumber;
+
+      beforeEach(async () => {
+        stakeAmount = ether(oneMonthSec.toString());
+
+        await ctx.staking.notifyRewardAmount(stakeAmount);
+        latestBlock = await ethers.provider.getBlock("latest");
+      });
+
+      it("reports the latest rewards per deposited token", async () => {
+        const { stakingUser } = ctx;
+        // Deposit 50% of total rewards - will be equal after boost
+        await stakingUser.stake(BigNumber.from(oneMonthSec).div(2), lockTwoWeeks);
+
+        // Move halfway through
+        await setNextBlockTimestamp(latestBlock.timestamp + oneMonthSec / 2);
+
+        // Half rewards distributed, which means that .5 tokens dist per deposited token
+        // Need to divide by one ether since zeroes are added for precision
+        const rewardPerToken = (await stakingUser.rewardPerToken()).div(ether("1"));
+        expectRoundedEqual(rewardPerToken, ether(".5"));
+      });
+
+      it("reports the last calculated rewards per token if there are no deposits", async () => {
+        const { stakingUser } = ctx;
+        // Deposit 71.43% of total rewards - will be equal after boost
+        await stakingUser.stake(BigNumber.from(oneMonthSec).div(10000).mul(7143), lockWeek);
+        await stakingUser.unbondAll();
+
+        // Move halfway through
+        await setNextBlockTimestamp(latestBlock.timestamp + oneMonthSec / 2);
+        await stakingUser["unstake(uint256)"](0);
+
+        // Get reward per tokenStored
+        const rewardPerToken = await stakingUser.rewardPerToken();
+        const rewardPerTokenStored = await stakingUser.rewardPerTokenStored();
+
+        expect(rewardPerToken).to.equal(rewardPerTokenStored);
+
+        // Move forward
+        await increaseTime(oneMonthSec);
+
+        // Check again
+        const newRewardPerToken = await stakingUser.rewardPerToken();
+        const newRewardPerTokenStored = await stakingUser.rewardPerTokenStored();
+
+        expect(rewardPerTokenStored).to.equal(newRewardPerTokenStored);
+        expect(newRewardPerToken).to.equal(newRewardPerTokenStored);
+      });
+    });
+
+    describe("stake information", () => {
+      const rewardPerEpoch = ether(oneWeekSec.toString());
+      const stakeAmount = ether("1000");
+
+      beforeEach(async () => {
+        await ctx.staking.setRewardsDuration(oneWeekSec);
+        await ctx.staking.notifyRewardAmount(rewardPerEpoch);
+
+        await ctx.stakingUser.stake(stakeAmount, lockDay);
+        await ctx.stakingUser.stake(stakeAmount.mul(2), lockWeek);
+        await ctx.stakingUser.stake(stakeAmount.mul(3), lockTwoWeeks);
+      });
+
+      it("should report the details of a single stake", async () => {
+        const { stakingUser, user } = ctx;
+
+        const stake1 = await stakingUser.stakes(user.address, 0);
+        let boostMultiplier = stakeAmount.mul((await stakingUser.lockTiers(lockDay)).boost).div(ether("1"));
+        let expectedAmountWithBoost = stakeAmount.add(boostMultiplier);
+
+        expect(stake1.amount).to.equal(stakeAmount);
+        expect(stake1.amountWithBoost).to.equal(expectedAmountWithBoost);
+        expect(stake1.rewards).to.equal(0);
+        expect(stake1.unbondTimestamp).to.equal(0);
+        expect(stake1.lock).to.equal(lockDay);
+
+        const stake2 = await stakingUser.stakes(user.address, 1);
+        boostMultiplier = stakeAmount
+          .mul(2)
+          .mul((await stakingUser.lockTiers(lockWeek)).boost)
+          .div(ether("1"));
+        expectedAmountWithBoost = stakeAmount.mul(2).add(boostMultiplier);
+
+        expect(stake2.amount).to.equal(stakeAmount.mul(2));
+        expect(stake2.amountWithBoost).to.equal(expectedAmountWithBoost);
+        expect(stake2.rewards).to.equal(0);
+        expect(stake2.unbondTimestamp).to.equal(0);
+        expect(stake2.lock).to.equal(lockWeek);
+
+        const stake3 = await stakingUser.stakes(user.address, 2);
+        boostMultiplier = stakeAmount
+          .mul(3)
+          .mul((await stakingUser.lockTiers(lockTwoWeeks)).boost)
+          .div(ether("1"));
+        expectedAmountWithBoost = stakeAmount.mul(3).add(boostMultiplier);
+
+        expect(stake3.amount).to.equal(stakeAmount.mul(3));
+        expect(stake3.amountWithBoost).to.equal(expectedAmountWithBoost);
+        expect(stake3.rewards).to.equal(0);
+        expect(stake3.unbondTimestamp).to.equal(0);
+        expect(stake3.lock).to.equal(lockTwoWeeks);
+      });
+
+      it("should report all a user's stakes", async () => {
+        const { stakingUser, user } = ctx;
+
+        const userStakes = await stakingUser.getUserStakes(user.address);
+        expect(userStakes.length).to.equal(3);
+      });
+    });
+
+    describe("earned", () => {
+      const rewardPerEpoch = ether(oneWeekSec.toString());
+      const stakeAmount = ether("1000");
+      let startTimestamp: number;
+
+      beforeEach(async () => {
+        await ctx.staking.setRewardsDuration(oneWeekSec);
+        await ctx.staking.notifyRewardAmount(rewardPerEpoch);
+
+        await ctx.stakingUser.stake(stakeAmount, lockDay);
+        await ctx.stakingUser.stake(stakeAmount.mul(2), lockTwoWeeks);
+        startTimestamp = (await ethers.provider.getBlock("latest")).timestamp;
+      });
+
+      it("should revert for a deposit that does not exist", async () => {
+        const { staking, user } = ctx;
+
+        await expect(staking.earned(user.address, 2)).to.be.revertedWith("USR_NoDeposit");
+      });
+
+      it("should include rewards accrued since the last accounting update", async () => {
+        const { stakingUser, user } = ctx;
+
+        // Evaluate the view in the pending block, which the claim is mined in
+        await ethers.provider.send("evm_setNextBlockTimestamp", [startTimestamp + oneDaySec]);
+        const earned = await stakingUser.earned(user.address, 1, { blockTag: "pending" });
+        expect(earned).to.be.gt(0);
+
+        await expect(stakingUser.claim(1))
+          .to.emit(stakingUser, "Claim")
+          .withArgs(user.address, 1, earned, user.address);
+        expect(await stakingUser.earned(user.address, 1)).to.equal(0);
+      });
+
+      it("should report the total claimable across all deposits", async () => {
+        const { stakingUser, tokenDist, user } = ctx;
+
+        await ethers.provider.send("evm_setNextBlockTimestamp", [startTimestamp + oneDaySec * 3]);
+        const [earned0, earned1, earnedAll] = await Promise.all([
+          stakingUser.earned(user.address, 0, { blockTag: "pending" }),
+          stakingUser.earned(user.address, 1, { blockTag: "pending" }),
+          stakingUser.earnedAll(user.address, { blockTag: "pending" }),
+        ]);
+        expect(earnedAll).to.equal(earned0.add(earned1));
+
+        const balanceBefore = await tokenDist.balanceOf(user.address);
+        await stakingUser.claimAll();
+        expect(await tokenDist.balanceOf(user.address)).to.equal(balanceBefore.add(earnedAll));
+      });
+
+      it("should stop accruing once the rewards period has ended", async () => {
+        const { stakingUser, user } = ctx;
+
+        await increaseTime(oneWeekSec * 2);
+        const earnedAll = await stakingUser.earnedAll(user.address);
+        expectRoundedEqual(earnedAll, rewardPerEpoch);
+
+        await increaseTime(oneWeekSec);
+        expect(await stakingUser.earnedAll(user.address)).to.equal(earnedAll);
+      });
+
+      it("should report zero for an unstaked deposit", async () => {
+        const { stakingUser, user } = ctx;
+
+        await stakingUser["unbond(uint256)"](0);
+        await increaseTime(oneDaySec * 2);
+        await stakingUser["unstake(uint256)"](0);
+
+        expect(await stakingUser.earned(user.address, 0)).to.equal(0);
+        expect(await stakingUser.earnedAll(user.address)).to.equal(await stakingUser.earned(user.address, 1));
+      });
+
+      it("should report what emergencyClaim would pay after an emergency stop", async () => {
+        const { staking, stakingUser, tokenDist, user } = ctx;
+
+        await setNextBlockTimestamp(startTimestamp + oneDaySec);
+        await staking.emergencyStop(true);
+
+        const earnedAll = await stakingUser.earnedAll(user.address);
+        expect(earnedAll).to.be.gt(0);
+
+        // No further accrual after the stop
+        await increaseTime(oneDaySec);
+        expect(await stakingUser.earnedAll(user.address)).to.equal(earnedAll);
+
+        const balanceBefore = await tokenDist.balanceOf(user.address);
+        await stakingUser.emergencyClaim();
+        expect(await tokenDist.balanceOf(user.address)).to.equal(balanceBefore.add(earnedAll));
+      });
+
+      it("should report zero if rewards were not made claimable in an emergency stop", async () => {
+        const { staking, stakingUser, user } = ctx;
+
+        await increaseTime(oneDaySec);
+        await staking.emergencyStop(false);
+
+        expect(await stakingUser.earned(user.address, 1)).to.equal(0);
+        expect(await stakingUser.earnedAll(user.address)).to.equal(0);
+      });
+    });
+  });
+
+  describe("Reward Tokens", () => {
+    const rewardPerEpoch = ether(oneWeekSec.toString());
+    const partnerPerEpoch = ether((oneWeekSec * 4).toString());
+    const stakeAmount = ether("1000");
+    let tokenPartner: MockERC20;
+
+    beforeEach(async () => {
+      const { admin, staking } = ctx;
+
+      tokenPartner = <MockERC20>await deploy("MockERC20", admin, ["partner", "ptr"]);
+      await tokenPartner.mint(staking.address, partnerPerEpoch.mul(2));
+
+      await staking.setRewardsDuration(oneWeekSec);
+      await staking.addRewardToken(tokenPartner.address, oneWeekSec * 2);
+    });
+
+    describe("addRewardToken", () => {
+      it("should not allow a non-owner to add a reward token", async () => {
+        const { stakingUser, tokenStake } = ctx;
+
+        await expect(stakingUser.addRewardToken(tokenStake.address, oneWeekSec)).to.be.revertedWith(
+          "Ownable: caller is not the owner",
+        );
+      });
+
+      it("should not allow adding the staking token, distribution token or an existing reward token", async () => {
+        const { staking, tokenDist, tokenStake } = ctx;
+
+        for (const token of [tokenStake, tokenDist, tokenPartner]) {
+          await expect(staking.addRewardToken(token.address, oneWeekSec)).to.be.revertedWith(
+            `USR_InvalidRewardToken("${token.address}")`,
+          );
+        }
+      });
+
+      it("should not allow more than the maximum number of reward tokens", async () => {
+        const { admin, staking } = ctx;
+        const max = (await staking.MAX_REWARD_TOKENS()).toNumber();
+
+        for (let i = 1; i < max; i++) {
+          const token = await deploy("MockERC20", admin, ["partner", "ptr"]);
+          await staking.addRewardToken(token.address, oneWeekSec);
+        }
+
+        const token = await deploy("MockERC20", admin, ["partner", "ptr"]);
+        await expect(staking.addRewardToken(token.address, oneWeekSec)).to.be.revertedWith(
+          `STATE_TooManyRewardTokens(${max})`,
+        );
+      });
+
+      it("should register a reward token with its own epoch duration", async () => {
+        const { admin, staking } = ctx;
+        const token = await deploy("MockERC20", admin, ["partner", "ptr"]);
+
+        await expect(staking.addRewardToken(token.address, oneDaySec))
+          .to.emit(staking, "RewardTokenAdded")
+          .withArgs(token.address, oneDaySec);
+
+        expect(await staking.getRewardTokens()).to.deep.equal([tokenPartner.address, token.address]);
+        expect((await staking.rewardSchedules(token.address)).nextEpochDuration).to.equal(oneDaySec);
+      });
+
+      it("should add a reward token to a live program without blocking claims", async () => {
+        const { admin, staking, stakingUser, user } = ctx;
+
+        await staking.notifyRewardAmount(rewardPerEpoch);
+        await stakingUser.stake(stakeAmount, lockDay);
+        await increaseTime(oneDaySec);
+
+        const token = <MockERC20>await deploy("MockERC20", admin, ["late", "late"]);
+        await token.mint(staking.address, rewardPerEpoch);
+        await staking.addRewardToken(token.address, oneWeekSec);
+        await increaseTime(oneDaySec);
+
+        // The new token has no schedule yet, so accrues nothing
+        await expect(stakingUser.claim(0)).to.not.be.reverted;
+        expect(await token.balanceOf(user.address)).to.equal(0);
+
+        await staking.notifyRewardTokenAmount(token.address, rewardPerEpoch);
+        await increaseTime(oneWeekSec);
+
+        await stakingUser.claim(0);
+        expectRoundedEqual(await token.balanceOf(user.address), rewardPerEpoch);
+      });
+    });
+
+    describe("notifyRewardTokenAmount", () => {
+      it("should revert for a token that is not a reward token", async () => {
+        const { staking, tokenDist } = ctx;
+
+        await expect(staking.notifyRewardTokenAmount(tokenDist.address, rewardPerEpoch)).to.be.revertedWith(
+          "USR_UnknownRewardToken",
+        );
+      });
+
+      it("should revert if the contract does not hold enough of the reward token", async () => {
+        const { staking } = ctx;
+
+        await expect(staking.notifyRewardTokenAmount(tokenPartner.address, partnerPerEpoch.mul(3))).to.be.revertedWith(
+          "STATE_RewardsNotFunded",
+        );
+      });
+
+      it("should not fund a schedule with rewards stakers have not claimed", async () => {
+        const { staking, stakingUser } = ctx;
+
+        await staking.notifyRewardAmount(rewardPerEpoch);
+        await stakingUser.stake(stakeAmount, lockDay);
+        await staking.notifyRewardTokenAmount(tokenPartner.address, partnerPerEpoch);
+        await increaseTime(oneWeekSec * 2);
+
+        // The first schedule's rewards are all emitted, but none are claimed
+        const balance = partnerPerEpoch.mul(2);
+        await expect(staking.notifyRewardTokenAmount(tokenPartner.address, balance)).to.be.revertedWith(
+          `STATE_RewardsNotFunded(${balance}, ${partnerPerEpoch.add(balance)})`,
+        );
+
+        await stakingUser.claim(0);
+        await expect(staking.notifyRewardTokenAmount(tokenPartner.address, partnerPerEpoch)).to.not.be.reverted;
+      });
+
+      it("should move the leftover of an epoch without deposits only once", async () => {
+        const { staking, stakingUser } = ctx;
+
+        await staking.notifyRewardAmount(rewardPerEpoch);
+        await stakingUser.stake(stakeAmount, lockDay);
+        await staking.notifyRewardTokenAmount(tokenPartner.address, partnerPerEpoch);
+        await stakingUser["unbond(uint256)"](0);
+        await increaseTime(oneDaySec);
+        await stakingUser["unstake(uint256)"](0);
+
+        await staking.notifyRewardTokenAmount(tokenPartner.address, partnerPerEpoch.div(2));
+        const { rewardsReady, unpaidRewards } = await staking.rewardSchedules(tokenPartner.address);
+
+        await staking.notifyRewardTokenAmount(tokenPartner.address, partnerPerEpoch.div(4));
+        const schedule = await staking.rewardSchedules(tokenPartner.address);
+        expect(schedule.rewardsReady).to.equal(rewardsReady.add(partnerPerEpoch.div(4)));
+        expect(schedule.unpaidRewards).to.equal(unpaidRewards);
+      });
+
+      it("should keep rewards ready until the first deposit, then start the schedule", async () => {
+        const { staking, stakingUser } = ctx;
+
+        await staking.notifyRewardAmount(rewardPerEpoch);
+        await staking.notifyRewardTokenAmount(tokenPartner.address, partnerPerEpoch);
+        expect((await staking.rewardSchedules(tokenPartner.address)).rewardsReady).to.equal(partnerPerEpoch);
+
+        await expect(stakingUser.stake(stakeAmount, lockDay)).to.emit(staking, "RewardTokenFunding");
+
+        const latestBlock = await ethers.provider.getBlock("latest");
+        const schedule = await staking.rewardSchedules(tokenPartner.address);
+
+        expect(schedule.rewardsReady).to.equal(0);
+        expect(schedule.rewardRate).to.equal(partnerPerEpoch.div(oneWeekSec * 2));
+        expect(schedule.endTimestamp).to.equal(latestBlock.timestamp + oneWeekSec * 2);
+        expect(schedule.currentEpochDuration).to.equal(oneWeekSec * 2);
+      });
+
+      it("should start the schedule immediately if there are deposits", async () => {
+        const { staking, stakingUser } = ctx;
+
+        await staking.notifyRewardAmount(rewardPerEpoch);
+        await stakingUser.stake(stakeAmount, lockDay);
+
+        const tx = await staking.notifyRewardTokenAmount(tokenPartner.address, partnerPerEpoch);
+        const latestBlock = await ethers.provider.getBlock("latest");
+
+        await expect(tx)
+          .to.emit(staking, "RewardTokenFunding")
+          .withArgs(tokenPartner.address, partnerPerEpoch, latestBlock.timestamp + oneWeekSec * 2);
+      });
+    });
+
+    describe("setRewardTokenDuration", () => {
+      it("should update the reward token's epoch duration", async () => {
+        const { staking } = ctx;
+
+        await expect(staking.setRewardTokenDuration(tokenPartner.address, oneDaySec))
+          .to.emit(staking, "RewardTokenEpochDurationChange")
+          .withArgs(tokenPartner.address, oneDaySec);
+
+        expect((await staking.rewardSchedules(tokenPartner.address)).nextEpochDuration).to.equal(oneDaySec);
+      });
+
+      it("should not allow changing the duration while rewards are ready", async () => {
+        const { staking } = ctx;
+
+        await staking.notifyRewardTokenAmount(tokenPartner.address, partnerPerEpoch);
+        await expect(staking.setRewardTokenDuration(tokenPartner.address, oneDaySec)).to.be.revertedWith(
+          "STATE_RewardsReady",
+        );
+      });
+    });
+
+    describe("distribution", () => {
+      let startTimestamp: number;
+
+      beforeEach(async () => {
+        await ctx.staking.notifyRewardAmount(rewardPerEpoch);
+        await ctx.staking.notifyRewardTokenAmount(tokenPartner.address, partnerPerEpoch);
+        await ctx.stakingUser.stake(stakeAmount, lockDay);
+        startTimestamp = (await ethers.provider.getBlock("latest")).timestamp;
+      });
+
+      it("should pay all reward tokens when claiming", async () => {
+        const { stakingUser, tokenDist, user } = ctx;
+
+        await increaseTime(oneWeekSec * 3);
+
+        await expect(stakingUser.claimAll()).to.emit(stakingUser, "RewardTokenClaim");
+
+        // Single staker takes all of both schedules
+        expectRoundedEqual(await tokenDist.balanceOf(user.address), rewardPerEpoch);
+        expectRoundedEqual(await tokenPartner.balanceOf(user.address), partnerPerEpoch);
+      });
+
+      it("should move reward tokens with merged deposits", async () => {
+        const { stakingUser, user } = ctx;
+
+        await stakingUser.stake(stakeAmount, lockDay);
+        await increaseTime(oneWeekSec);
+
+        const { timestamp } = await ethers.provider.getBlock("latest");
+        await setNextBlockTimestamp(timestamp + 1);
+        const earned0 = await stakingUser.earnedFor(tokenPartner.address, user.address, 0, { blockTag: "pending" });
+        const earned1 = await stakingUser.earnedFor(tokenPartner.address, user.address, 1, { blockTag: "pending" });
+
+        await stakingUser.merge(0, [1]);
+
+        expect(await stakingUser.earnedFor(tokenPartner.address, user.address, 0)).to.equal(earned0.add(earned1));
+        expect(await stakingUser.earnedFor(tokenPartner.address, user.address, 1)).to.equal(0);
+      });
+
+      it("should split reward tokens by boosted deposits, like the distribution token", async () => {
+        const { connectUser, signers, staking, user } = ctx;
+        const otherUser = signers[2];
+        const stakingOther = await connectUser(otherUser);
+
+        // Joins a quarter of the way through the partner schedule with a 2x boost:
+        // the rest is split 1100/2000 boosted shares
+        await setNextBlockTimestamp(startTimestamp + oneWeekSec / 2);
+        await stakingOther.stake(stakeAmount, lockTwoWeeks);
+
+        await increaseTime(oneWeekSec * 2);
+        await staking.connect(user).claimAll();
+        await stakingOther.claimAll();
+
+        const otherReward = partnerPerEpoch.mul(3).div(4).mul(2000).div(3100);
+        expectRoundedEqual(await tokenPartner.balanceOf(otherUser.address), otherReward);
+        expectRoundedEqual(await tokenPartner.balanceOf(user.address), partnerPerEpoch.sub(otherReward));
+      });
+
+      it("should pay reward tokens when unstaking", async () => {
+        const { stakingUser, user } = ctx;
+
+        await stakingUser["unbond(uint256)"](0);
+
+        await ethers.provider.send("evm_setNextBlockTimestamp", [startTimestamp + oneDaySec * 2]);
+        const earned = await stakingUser.earnedFor(tokenPartner.address, user.address, 0, { blockTag: "pending" });
+
+        await expect(stakingUser["unstake(uint256)"](0))
+          .to.emit(stakingUser, "RewardTokenClaim")
+          .withArgs(user.address, 0, tokenPartner.address, earned, user.address);
+        expect(await tokenPartner.balanceOf(user.address)).to.equal(earned);
+      });
+
+      it("should report claimable reward tokens per deposit", async () => {
+        const { stakingUser, user } = ctx;
+
+        await ethers.provider.send("evm_setNextBlockTimestamp", [startTimestamp + oneDaySec]);
+        const earned = await stakingUser.earnedFor(tokenPartner.address, user.address, 0, { blockTag: "pending" });
+        expect(earned).to.be.gt(0);
+
+        await expect(stakingUser.claim(0))
+          .to.emit(stakingUser, "RewardTokenClaim")
+          .withArgs(user.address, 0, tokenPartner.address, earned, user.address);
+      });
+
+      it("should return unemitted reward tokens and keep claimable ones in an emergency stop", async () => {
+        const { admin, staking, stakingUser, user } = ctx;
+
+        await setNextBlockTimestamp(startTimestamp + oneWeekSec);
+        const ownerBalance = await tokenPartner.balanceOf(admin.address);
+        await staking.emergencyStop(true);
+
+        // Half the partner schedule was emitted, the other half goes back to the owner
+        expectRoundedEqual((await tokenPartner.balanceOf(admin.address)).sub(ownerBalance), partnerPerEpoch.div(2));
+
+        await stakingUser.emergencyClaim();
+        expectRoundedEqual(await tokenPartner.balanceOf(user.address), partnerPerEpoch.div(2));
+      });
+
+      it("should return all reward tokens in an emergency stop without claims", async () => {
+        const { admin, staking } = ctx;
+
+        await increaseTime(oneWeekSec);
+        await staking.emergencyStop(false);
+
+        expect(await tokenPartner.balanceOf(staking.address)).to.equal(0);
+        expect(await tokenPartner.balanceOf(admin.address)).to.equal(partnerPerEpoch.mul(2));
+      });
+    });
+  });
+
+  describe("Emission Curves", () => {
+    const stakeAmount = ether("1000");
+    // Not a multiple of the epoch duration, so a flat schedule would lose a remainder
+    const reward = ether(oneMonthSec.toString()).add(12345);
+
+    let linear: LinearDecayCurve;
+    let linearToHalf: LinearDecayCurve;
+    let steps: StepDecayCurve;
+
+    beforeEach(async () => {
+      const { admin } = ctx;
+
+      linear = <LinearDecayCurve>await deploy("LinearDecayCurve", admin, [0]);
+      linearToHalf = <LinearDecayCurve>await deploy("LinearDecayCurve", admin, [ether("0.5")]);
+      steps = <StepDecayCurve>await deploy("StepDecayCurve", admin, [[4, 3, 2, 1]]);
+    });
+
+    const shapes = (): [string, LinearDecayCurve | StepDecayCurve, EmissionCurveModel][] => [
+      ["linear decay to zero", linear, linearDecayCurve(0)],
+      ["linear decay to half", linearToHalf, linearDecayCurve(ether("0.5"))],
+      ["step decay", steps, stepDecayCurve([4, 3, 2, 1])],
+    ];
+
+    it("should reject curves which would not decay", async () => {
+      const { admin } = ctx;
+
+      await expect(deploy("LinearDecayCurve", admin, [ether("1").add(1)])).to.be.revertedWith(
+        "USR_InvalidEmissionCurve",
+      );
+      await expect(deploy("StepDecayCurve", admin, [[]])).to.be.revertedWith("USR_InvalidEmissionCurve");
+      await expect(deploy("StepDecayCurve", admin, [[1, 2]])).to.be.revertedWith("USR_InvalidEmissionCurve");
+      await expect(deploy("StepDecayCurve", admin, [[0, 0]])).to.be.revertedWith("USR_InvalidEmissionCurve");
+    });
+
+    it("should emit exactly the funded amount by the end of an epoch, front-loaded, for every shape", async () => {
+      for (const [name, curve, model] of shapes()) {
+        let previous = BigNumber.from(0);
+
+        for (let elapsed = 0; elapsed <= oneMonthSec; elapsed += oneMonthSec / 10) {
+          const emitted = await curve.emitted(reward, oneMonthSec, elapsed);
+
+          expect(emitted, name).to.equal(model.emitted(reward, oneMonthSec, elapsed));
+          expect(emitted, name).to.be.gte(previous);
+          previous = emitted;
+        }
+
+        expect(await curve.emitted(reward, oneMonthSec, oneMonthSec), name).to.equal(reward);
+        expect(await curve.emitted(reward, oneMonthSec, oneMonthSec * 2), name).to.equal(reward);
+        expect(await curve.emitted(reward, oneMonthSec, oneMonthSec / 2), name).to.be.gt(reward.div(2));
+      }
+
+      expect(await linear.emitted(reward, oneMonthSec, oneMonthSec / 2)).to.equal(reward.mul(3).div(4));
+      expect(await steps.emitted(reward, oneMonthSec, oneMonthSec / 4)).to.equal(reward.mul(4).div(10));
+    });
+
+    it("should only allow the owner to set the emission curve", async () => {
+      const { staking, stakingUser } = ctx;
+
+      await expect(stakingUser.setEmissionCurve(linear.address)).to.be.revertedWith("Ownable: caller is not the owner");
+      await expect(staking.setEmissionCurve(linear.address))
+        .to.emit(staking, "EmissionCurveChange")
+        .withArgs(linear.address);
+
+      expect(await staking.nextEmissionCurve()).to.equal(linear.address);
+      expect(await staking.currentEmissionCurve()).to.equal(ethers.constants.AddressZero);
+    });
+
+    it("should not change the emission curve while rewards wait for a first deposit", async () => {
+      const { staking } = ctx;
+
+      await staking.notifyRewardAmount(reward);
+
+      await expect(staking.setEmissionCurve(linear.address)).to.be.revertedWith("STATE_RewardsReady");
+    });
+
+    it("should pay out a curved schedule in full for every shape", async () => {
+      const { admin, tokenDist, tokenStake, user } = ctx;
+
+      for (const [name, curve] of shapes()) {
+        const params = [admin.address, tokenStake.address, tokenDist.address, oneMonthSec, [0], [oneDaySec]];
+        const fresh = <CellarStaking>await deploy("CellarStaking", admin, params);
+        await tokenDist.mint(fresh.address, reward);
+        await tokenStake.connect(user).approve(fresh.address, stakeAmount);
+
+        await fresh.setEmissionCurve(curve.address);
+        await fresh.notifyRewardAmount(reward);
+        await fresh.connect(user).stake(stakeAmount, 0);
+
+        // Front-loaded: more than half is emitted by the middle of the epoch
+        await increaseTime(oneMonthSec / 2);
+        expect(await fresh.earned(user.address, 0), name).to.be.gt(reward.div(2));
+
+        await increaseTime(oneMonthSec);
+        const balanceBefore = await tokenDist.balanceOf(user.address);
+        await fresh.connect(user).claimAll();
+        const paid = (await tokenDist.balanceOf(user.address)).sub(balanceBefore);
+
+        // Only rounding in rewardPerToken is lost (under 1 wei per 1e18 staked), never a remainder of the schedule
+        expect(paid, name).to.be.lte(reward);
+        expect(paid, name).to.be.gte(reward.sub(1000));
+      }
+    });
+
+    it("should match the off-chain reward calculator on a curved schedule", async () => {
+      const { staking, stakingUser, user } = ctx;
+
+      await staking.setEmissionCurve(steps.address);
+      await staking.notifyRewardAmount(reward);
+      await stakingUser.stake(stakeAmount, lockWeek);
+
+      for (const elapsed of [oneWeekSec / 3, oneWeekSec * 2, oneMonthSec]) {
+        await increaseTime(elapsed);
+
+        const { timestamp } = await ethers.provider.getBlock("latest");
+        const state = await getRewardState(staking);
+        const expected = calculateRewards(state, await staking.getUserStakes(user.address), timestamp);
+
+        expect(await staking.earned(user.address, 0)).to.equal(expected.total);
+      }
+    });
+
+    it("should roll unemitted rewards of a curved epoch into the next one", async () => {
+      const { staking, stakingUser } = ctx;
+
+      await staking.setEmissionCurve(linear.address);
+      await staking.notifyRewardAmount(reward);
+      await stakingUser.stake(stakeAmount, lockDay);
+
+      const start = (await staking.endTimestamp()).sub(oneMonthSec).toNumber();
+      await setNextBlockTimestamp(start + oneWeekSec);
+      expect(await staking.remainingRewards()).to.equal(
+        reward.sub(linearDecayCurve(0).emitted(reward, oneMonthSec, oneWeekSec)),
+      );
+
+      // Notify in a block exactly one day later
+      const remaining = reward.sub(linearDecayCurve(0).emitted(reward, oneMonthSec, oneWeekSec + oneDaySec));
+      await ethers.provider.send("evm_setNextBlockTimestamp", [start + oneWeekSec + oneDaySec]);
+
+      await expect(staking.notifyRewardAmount(reward))
+        .to.emit(staking, "Funding")
+        .withArgs(reward.add(remaining), start + oneWeekSec + oneDaySec + oneMonthSec);
+      expect(await staking.epochRewards()).to.equal(reward.add(remaining));
+    });
+
+    it("should activate scheduled epochs with their own curve", async () => {
+      const { staking, stakingUser } = ctx;
+
+      await staking.notifyRewardAmount(ether(oneMonthSec.toString()));
+      await stakingUser.stake(stakeAmount, lockDay);
+      const endTimestamp = (await staking.endTimestamp()).toNumber();
+
+      await expect(staking.scheduleEpoch(endTimestamp, oneWeekSec, reward, linearToHalf.address))
+        .to.emit(staking, "EpochScheduled")
+        .withArgs(0, endTimestamp, oneWeekSec, reward, linearToHalf.address);
+
+      await setNextBlockTimestamp(endTimestamp + oneDaySec);
+
+      const state = await getRewardState(staking);
+      const [viewRewardPerToken] = await staking.rewardPerToken();
+      expect(viewRewardPerToken).to.equal(rewardPerToken(state, endTimestamp + oneDaySec));
+
+      await stakingUser.claimAll();
+
+      expect(await staking.currentEmissionCurve()).to.equal(linearToHalf.address);
+      expect(await staking.epochRewards()).to.equal(reward);
+      // Still flat for later notifyRewardAmount calls
+      expect(await staking.nextEmissionCurve()).to.equal(ethers.constants.AddressZero);
+    });
+
+    it("should keep exactly the emitted rewards of a curved epoch in an emergency stop", async () => {
+      const { admin, staking, stakingUser, tokenDist } = ctx;
+
+      await staking.setEmissionCurve(linear.address);
+      await staking.notifyRewardAmount(reward);
+      await stakingUser.stake(stakeAmount, lockDay);
+
+      const start = (await staking.endTimestamp()).sub(oneMonthSec).toNumber();
+      const balance = await tokenDist.balanceOf(staking.address);
+      const adminBalance = await tokenDist.balanceOf(admin.address);
+
+      await ethers.provider.send("evm_setNextBlockTimestamp", [start + oneWeekSec]);
+      await staking.emergencyStop(true);
+
+      const emitted = linearDecayCurve(0).emitted(reward, oneMonthSec, oneWeekSec);
+      expect(await tokenDist.balanceOf(staking.address)).to.equal(emitted);
+      expect(await tokenDist.balanceOf(admin.address)).to.equal(adminBalance.add(balance).sub(emitted));
+    });
+  });
+
+  describe("Staking Positions", () => {
+    const stakeAmount = ether("1000");
+
+    let positions: CellarStakingPositions;
+    let positionsUser: CellarStakingPositions;
+    let other: SignerWithAddress;
+
+    beforeEach(async () => {
+      const { admin, signers, staking, tokenStake, user } = ctx;
+      other = signers[2];
+
+      positions = <CellarStakingPositions>(
+        await deploy("CellarStakingPositions", admin, [staking.address, "Staked Cellar", "sCLR"])
+      );
+      positionsUser = positions.connect(user);
+      await tokenStake.connect(user).approve(positions.address, initialTokenAmount);
+
+      await staking.notifyRewardAmount(ether(oneMonthSec.toString()));
+    });
+
+    it("should mint a position for each deposit", async () => {
+      const { staking, tokenStake, user } = ctx;
+
+      const balanceBefore = await tokenStake.balanceOf(user.address);
+
+      await expect(positionsUser.stake(stakeAmount, lockWeek))
+        .to.emit(positions, "Transfer")
+        .withArgs(ethers.constants.AddressZero, user.address, 0)
+        .and.to.emit(staking, "Stake")
+        .withArgs(positions.address, 0, stakeAmount, positions.address);
+      await positionsUser.stake(stakeAmount, lockDay);
+
+      expect(await positions.ownerOf(0)).to.equal(user.address);
+      expect(await positions.ownerOf(1)).to.equal(user.address);
+      expect(await positions.balanceOf(user.address)).to.equal(2);
+      expect(await tokenStake.balanceOf(user.address)).to.equal(balanceBefore.sub(stakeAmount.mul(2)));
+
+      const stake = await staking.stakes(positions.address, 0);
+      expect(stake.amount).to.equal(stakeAmount);
+      expect(stake.lock).to.equal(lockWeek);
+    });
+
+    it("should only allow the owner or an approved address to act on a position", async () => {
+      const { user } = ctx;
+      const positionsOther = positions.connect(other);
+
+      await positionsUser.stake(stakeAmount, lockDay);
+
+      const notOwner = `USR_NotPositionOwner(0, "${other.address}")`;
+      await expect(positionsOther.unbond(0)).to.be.revertedWith(notOwner);
+      await expect(positionsOther.claim(0)).to.be.revertedWith(notOwner);
+      await expect(positionsOther.unstake(0)).to.be.revertedWith(notOwner);
+
+      await positionsUser.approve(other.address, 0);
+      await positionsOther.unbond(0);
+      await positionsOther.cancelUnbonding(0);
+
+      // Approval is reset when the position moves
+      await positionsUser.transferFrom(user.address, ctx.signers[3].address, 0);
+      await expect(positionsOther.unbond(0)).to.be.revertedWith(notOwner);
+      await expect(positionsUser.unbond(0)).to.be.revertedWith(`USR_NotPositionOwner(0, "${user.address}")`);
+    });
+
+    it("should claim rewards to the owner, whoever calls", async () => {
+      const { tokenDist, user } = ctx;
+
+      await positionsUser.stake(stakeAmount, lockDay);
+      await positionsUser.setApprovalForAll(other.address, true);
+      await increaseTime(oneDaySec);
+
+      const { timestamp } = await ethers.provider.getBlock("latest");
+      await setNextBlockTimestamp(timestamp + 1);
+      const earned = await positions.earned(0, { blockTag: "pending" });
+
+      await positions.connect(other).claim(0);
+
+      expect(earned).to.be.gt(0);
+      expect(await tokenDist.balanceOf(user.address)).to.equal(earned);
+      expect(await tokenDist.balanceOf(other.address)).to.equal(0);
+    });
+
+    it("should let the owner add to a position", async () => {
+      const { staking } = ctx;
+
+      await positionsUser.stake(stakeAmount, lockDay);
+      await positionsUser.increaseStake(0, stakeAmount);
+
+      expect((await staking.stakes(positions.address, 0)).amount).to.equal(stakeAmount.mul(2));
+      expect(await positions.getPositions(ctx.user.address)).to.have.lengthOf(1);
+    });
+
+    it("should let the owner relock a position", async () => {
+      const { staking } = ctx;
+
+      await positionsUser.stake(stakeAmount, lockDay);
+      await positionsUser.unbond(0);
+
+      await expect(positions.connect(other).relock(0, lockWeek)).to.be.revertedWith(
+        `USR_NotPositionOwner(0, "${other.address}")`,
+      );
+      await positionsUser.relock(0, lockWeek);
+
+      const stake = await staking.stakes(positions.address, 0);
+      expect(stake.lock).to.equal(lockWeek);
+      expect(stake.unbondTimestamp).to.equal(0);
+    });
+
+    it("should settle pending rewards to the previous owner on transfer", async () => {
+      const { tokenDist, user } = ctx;
+
+      await positionsUser.stake(stakeAmount, lockDay);
+      await increaseTime(oneDaySec);
+
+      const { timestamp } = await ethers.provider.getBlock("latest");
+      await setNextBlockTimestamp(timestamp + 1);
+      const earnedBefore = await positions.earned(0, { blockTag: "pending" });
+
+      await positionsUser["safeTransferFrom(address,address,uint256)"](user.address, other.address, 0);
+
+      expect(await positions.ownerOf(0)).to.equal(other.address);
+      expect(await tokenDist.balanceOf(user.address)).to.equal(earnedBefore);
+      expect(await positions.earned(0)).to.equal(0);
 
-        // Get reward per tokenStored
-        const rewardPerToken = await stakingUser.rewardPerToken();
-        const rewardPerTokenStored = await stakingUser.rewardPerTokenStored();
+      // The new owner only receives rewards earned after the transfer
+      await increaseTime(oneDaySec);
+      await positions.connect(other).claim(0);
 
-        expect(rewardPerToken).to.equal(rewardPerTokenStored);
+      expect(await tokenDist.balanceOf(user.address)).to.equal(earnedBefore);
+      expect(await tokenDist.balanceOf(other.address)).to.be.gt(0);
+    });
 
-        // Move forward
-        await increaseTime(oneMonthSec);
+    it("should not allow transfers while paused", async () => {
+      const { staking, user } = ctx;
 
-        // Check again
-        const newRewardPerToken = await stakingUser.rewardPerToken();
-        const newRewardPerTokenStored = await stakingUser.rewardPerTokenStored();
+      await positionsUser.stake(stakeAmount, lockDay);
+      await staking.setPaused(true);
 
-        expect(rewardPerTokenStored).to.equal(newRewardPerTokenStored);
-        expect(newRewardPerToken).to.equal(newRewardPerTokenStored);
-      });
+      await expect(positionsUser.transferFrom(user.address, other.address, 0)).to.be.revertedWith(
+        "STATE_ContractPaused",
+      );
     });
 
-    describe("stake information", () => {
-      const rewardPerEpoch = ether(oneWeekSec.toString());
-      const stakeAmount = ether("1000");
+    it("should enumerate positions per owner", async () => {
+      const { user } = ctx;
 
-      beforeEach(async () => {
-        await ctx.staking.setRewardsDuration(oneWeekSec);
-        await ctx.staking.notifyRewardAmount(rewardPerEpoch);
+      for (let i = 0; i < 3; i++) await positionsUser.stake(stakeAmount.mul(i + 1), lockDay);
+      await positionsUser.transferFrom(user.address, other.address, 0);
 
-        await ctx.stakingUser.stake(stakeAmount, lockDay);
-        await ctx.stakingUser.stake(stakeAmount.mul(2), lockWeek);
-        await ctx.stakingUser.stake(stakeAmount.mul(3), lockTwoWeeks);
-      });
+      const [userIds, userStakes] = await positions.getOwnerStakes(user.address);
+      expect(userIds.map(id => id.toNumber())).to.have.members([1, 2]);
+      userIds.forEach((id, i) => expect(userStakes[i].amount).to.equal(stakeAmount.mul(id.add(1))));
 
-      it("should report the details of a single stake", async () => {
-        const { stakingUser, user } = ctx;
+      const [otherIds, otherStakes] = await positions.getOwnerStakes(other.address);
+      expect(otherIds.map(id => id.toNumber())).to.deep.equal([0]);
+      expect(otherStakes[0].amount).to.equal(stakeAmount);
 
-        const stake1 = await stakingUser.stakes(user.address, 0);
-        let boostMultiplier = stakeAmount.mul(await stakingUser.SHORT_BOOST()).div(ether("1"));
-        let expectedAmountWithBoost = stakeAmount.add(boostMultiplier);
+      expect(await positions.getPositions(user.address)).to.have.lengthOf(2);
+    });
 
-        expect(stake1.amount).to.equal(stakeAmount);
-        expect(stake1.amountWithBoost).to.equal(expectedAmountWithBoost);
-        expect(stake1.rewards).to.equal(0);
-        expect(stake1.unbondTimestamp).to.equal(0);
-        expect(stake1.lock).to.equal(lockDay);
+    it("should send principal and rewards to the owner and burn the position on unstake", async () => {
+      const { staking, tokenDist, tokenStake, user } = ctx;
 
-        const stake2 = await stakingUser.stakes(user.address, 1);
-        boostMultiplier = stakeAmount
-          .mul(2)
-          .mul(await stakingUser.MEDIUM_BOOST())
-          .div(ether("1"));
-        expectedAmountWithBoost = stakeAmount.mul(2).add(boostMultiplier);
+      await positionsUser.stake(stakeAmount, lockDay);
+      await positionsUser.transferFrom(user.address, other.address, 0);
+      const positionsOther = positions.connect(other);
 
-        expect(stake2.amount).to.equal(stakeAmount.mul(2));
-        expect(stake2.amountWithBoost).to.equal(expectedAmountWithBoost);
-        expect(stake2.rewards).to.equal(0);
-        expect(stake2.unbondTimestamp).to.equal(0);
-        expect(stake2.lock).to.equal(lockWeek);
+      await positionsOther.unbond(0);
+      await increaseTime(oneDaySec);
 
-        const stake3 = await stakingUser.stakes(user.address, 2);
-        boostMultiplier = stakeAmount
-          .mul(3)
-          .mul(await stakingUser.LONG_BOOST())
-          .div(ether("1"));
-        expectedAmountWithBoost = stakeAmount.mul(3).add(boostMultiplier);
+      const { timestamp } = await ethers.provider.getBlock("latest");
+      await setNextBlockTimestamp(timestamp + 1);
+      const earned = await positions.earned(0, { blockTag: "pending" });
 
-        expect(stake3.amount).to.equal(stakeAmount.mul(3));
-        expect(stake3.amountWithBoost).to.equal(expectedAmountWithBoost);
-        expect(stake3.rewards).to.equal(0);
-        expect(stake3.unbondTimestamp).to.equal(0);
-        expect(stake3.lock).to.equal(lockTwoWeeks);
-      });
+      await expect(positionsOther.unstake(0))
+        .to.emit(positions, "Transfer")
+        .withArgs(other.address, ethers.constants.AddressZero, 0);
 
-      it("should report all a user's stakes", async () => {
-        const { stakingUser, user } = ctx;
+      expect(await tokenStake.balanceOf(other.address)).to.equal(stakeAmount);
+      expect(await tokenDist.balanceOf(other.address)).to.equal(earned);
+      expect(await positions.getPositions(other.address)).to.be.empty;
+      expect(await staking.totalDeposits()).to.equal(0);
+      await expect(positions.ownerOf(0)).to.be.revertedWith("NOT_MINTED");
+    });
+    it("should pay each owner their own deposit and rewards in emergency mode", async () => {
+      const { staking, tokenDist, tokenStake, user } = ctx;
+      const positionsOther = positions.connect(other);
+
+      await positionsUser.stake(stakeAmount, lockWeek);
+      await positionsUser.stake(stakeAmount.mul(2), lockWeek);
+      await positionsUser.transferFrom(user.address, other.address, 1);
+      await increaseTime(oneDaySec);
+
+      await staking.emergencyStop(true);
+      const [earnedUser, earnedOther] = [await positions.earned(0), await positions.earned(1)];
+      expect(earnedOther).to.be.gt(earnedUser);
+
+      await expect(positionsUser.emergencyUnstake(1)).to.be.revertedWith(`USR_NotPositionOwner(1, "${user.address}")`);
+
+      // Claim first, then unstake
+      const otherStake = await tokenStake.balanceOf(other.address);
+      await positionsOther.emergencyClaim(1);
+      await positionsOther.emergencyUnstake(1);
+      expect(await tokenDist.balanceOf(other.address)).to.equal(earnedOther);
+      expect((await tokenStake.balanceOf(other.address)).sub(otherStake)).to.equal(stakeAmount.mul(2));
+
+      // Unstaking also pays out rewards, since they cannot be claimed once the position is burned
+      const [userDist, userStake] = [await tokenDist.balanceOf(user.address), await tokenStake.balanceOf(user.address)];
+      await expect(positionsUser.emergencyUnstake(0))
+        .to.emit(positions, "Transfer")
+        .withArgs(user.address, ethers.constants.AddressZero, 0);
+      expect((await tokenDist.balanceOf(user.address)).sub(userDist)).to.equal(earnedUser);
+      expect((await tokenStake.balanceOf(user.address)).sub(userStake)).to.equal(stakeAmount);
+
+      expect(await staking.totalDeposits()).to.equal(0);
+      expect(await positions.balanceOf(user.address)).to.equal(0);
+      expect(await positions.balanceOf(other.address)).to.equal(0);
+    });
 
-        const userStakes = await stakingUser.getUserStakes(user.address);
-        expect(userStakes.length).to.equal(3);
-      });
+    it("should return deposits in emergency mode when rewards are not claimable", async () => {
+      const { staking, tokenStake, user } = ctx;
+
+      await positionsUser.stake(stakeAmount, lockWeek);
+      await expect(positionsUser.emergencyUnstake(0)).to.be.revertedWith("STATE_NoEmergencyUnstake");
+
+      await staking.emergencyStop(false);
+      await expect(positionsUser.emergencyClaim(0)).to.be.revertedWith("STATE_NoEmergencyClaim");
+
+      const balanceBefore = await tokenStake.balanceOf(user.address);
+      await positionsUser.emergencyUnstake(0);
+
+      expect((await tokenStake.balanceOf(user.address)).sub(balanceBefore)).to.equal(stakeAmount);
+      await expect(positions.ownerOf(0)).to.be.revertedWith("NOT_MINTED");
     });
   });
 
@@ -2016,4 +4535,664 @@ describe("CellarStaking", () => {
       }
     });
   });
+
+  describe("Off-chain Reward Calculator", () => {
+    const claimAndCompare = async (signer: SignerWithAddress): Promise<void> => {
+      const { staking } = ctx;
+
+      const latestBlock = await ethers.provider.getBlock("latest");
+      const claimTimestamp = latestBlock.timestamp + 10;
+
+      const state = await getRewardState(staking);
+      const stakes = await staking.getUserStakes(signer.address);
+      const expected = calculateRewards(state, stakes, claimTimestamp);
+
+      // Claim in a block with exactly the predicted timestamp
+      await ethers.provider.send("evm_setNextBlockTimestamp", [claimTimestamp]);
+      const receipt = await (await staking.connect(signer).claimAll()).wait();
+
+      const claimed = expected.deposits.map(() => "0");
+      for (const event of receipt.events!.filter(e => e.event === "Claim")) {
+        claimed[event.args!.depositId.toNumber()] = event.args!.amount.toString();
+      }
+
+      expect(claimed).to.deep.equal(expected.deposits.map(d => d.rewards.toString()));
+    };
+
+    const runAndCompare = async (setupScenario: (ctx: TestContext) => ScenarioInfo): Promise<void> => {
+      const { staking, signers } = ctx;
+      const users = signers.slice(1, 5);
+      const { actions } = setupScenario(ctx);
+
+      await fundAndApprove(ctx);
+
+      await runScenario(ctx, actions, false, async () => {
+        const latestBlock = await ethers.provider.getBlock("latest");
+        const state = await getRewardState(staking);
+        const [contractRewardPerToken] = await staking.rewardPerToken();
+
+        expect(rewardPerToken(state, latestBlock.timestamp)).to.equal(contractRewardPerToken);
+
+        for (const user of users) await claimAndCompare(user);
+      });
+
+      // Rolled to the end of the scenario - claim whatever is left
+      for (const user of shuffle(users)) await claimAndCompare(user);
+    };
+
+    it("should match contract rewards exactly in scenario 1", async () => {
+      await runAndCompare(setupAdvancedScenario1);
+    });
+
+    it("should match contract rewards exactly in scenario 2", async () => {
+      await runAndCompare(setupAdvancedScenario2);
+    });
+
+    it("should match contract rewards exactly in scenario 3", async () => {
+      await runAndCompare(setupAdvancedScenario3);
+    });
+
+    it("should match contract rewards exactly in scenario 4", async () => {
+      await runAndCompare(setupAdvancedScenario4);
+    });
+
+    it("should match contract rewards exactly in scenario 5", async () => {
+      await runAndCompare(setupAdvancedScenario5);
+    });
+
+    it("should return the stored value for an empty deposit", async () => {
+      const { staking, stakingUser, user } = ctx;
+
+      await staking.notifyRewardAmount(ether(oneMonthSec.toString()));
+      await stakingUser.stake(ether("100"), lockDay);
+      await stakingUser["unbond(uint256)"](0);
+      await increaseTime(oneDaySec * 2);
+      await stakingUser["unstake(uint256)"](0);
+
+      const state = await getRewardState(staking);
+      const stakes = await staking.getUserStakes(user.address);
+      const { deposits, total } = calculateRewards(state, stakes, state.endTimestamp);
+
+      expect(deposits[0].rewards).to.equal(0);
+      expect(total).to.equal(0);
+    });
+
+    it("should stop projecting rewards after an emergency stop", async () => {
+      const { staking, stakingUser, user } = ctx;
+
+      await staking.notifyRewardAmount(ether(oneMonthSec.toString()));
+      await stakingUser.stake(ether("100"), lockDay);
+      await increaseTime(oneDaySec);
+      await staking.emergencyStop(true);
+
+      const state = await getRewardState(staking);
+      expect(state.lastAccountingTimestamp).to.equal(await staking.lastAccountingTimestamp());
+
+      // Later timestamps project nothing more than what is claimable now
+      const stakes = await staking.getUserStakes(user.address);
+      const { total } = calculateRewards(state, stakes, state.endTimestamp);
+      expect(total).to.equal(await staking.earned(user.address, 0));
+      expect(total).to.be.gt(0);
+    });
+
+    it("should project no rewards after an emergency stop without claims", async () => {
+      const { staking, stakingUser, user } = ctx;
+
+      await staking.notifyRewardAmount(ether(oneMonthSec.toString()));
+      await stakingUser.stake(ether("100"), lockDay);
+      await increaseTime(oneDaySec);
+      await staking.emergencyStop(false);
+
+      const state = await getRewardState(staking);
+      const stakes = await staking.getUserStakes(user.address);
+
+      expect(calculateRewards(state, stakes, state.endTimestamp).total).to.equal(0);
+    });
+  });
+
+  describe("Event Indexer", () => {
+    const index = async (batchSize?: number): Promise<IndexerStore> => {
+      const { staking } = ctx;
+      const { chainId } = await ethers.provider.getNetwork();
+      const latestBlock = await ethers.provider.getBlockNumber();
+
+      const store = createStore("hardhat", chainId, staking.address, 0);
+      return syncStore(staking, store, latestBlock, batchSize);
+    };
+
+    it("should rebuild deposits and funding history from scenario events", async () => {
+      const { staking, signers, tokenDist } = ctx;
+      const users = signers.slice(1, 5);
+      const { actions } = setupAdvancedScenario5(ctx);
+
+      await fundAndApprove(ctx);
+      await runScenario(ctx, actions);
+
+      // Pay out everything left so claimed totals can be checked against balances
+      for (const user of users) await staking.connect(user).claimAll();
+
+      const store = await index();
+
+      expect(store.totalDeposits).to.equal((await staking.totalDeposits()).toString());
+
+      for (const user of users) {
+        const stakes = await staking.getUserStakes(user.address);
+        const { deposits } = store.users[user.address];
+
+        expect(deposits.map(d => d.amount)).to.deep.equal(stakes.map(s => s.amount.toString()));
+
+        for (const [i, d] of deposits.entries()) {
+          const s = stakes[i];
+          if (s.amount.isZero()) expect(d.status).to.equal("unstaked");
+          else expect(d.status).to.equal(s.unbondTimestamp > 0 ? "unbonding" : "staked");
+        }
+
+        const claimed = deposits.reduce((acc, d) => acc.add(d.claimed), BigNumber.from(0));
+        expect(claimed).to.equal(await tokenDist.balanceOf(user.address));
+      }
+
+      // Initial rewards start with the first stake, then the rate change at 0.5
+      expect(store.funding.length).to.equal(2);
+      expect(store.funding[1].rewardEnd).to.equal(await staking.endTimestamp());
+      expect(store.epochDurationChanges.map(c => c.duration)).to.deep.equal([oneMonthSec]);
+      expect(store.emergencyStop).to.be.null;
+    });
+
+    it("should produce the same index when syncing incrementally", async () => {
+      const { staking } = ctx;
+      const { actions } = setupAdvancedScenario2(ctx);
+
+      await fundAndApprove(ctx);
+      await runScenario(ctx, actions);
+
+      const full = await index();
+
+      const { chainId } = await ethers.provider.getNetwork();
+      const latestBlock = await ethers.provider.getBlockNumber();
+      const incremental = createStore("hardhat", chainId, staking.address, 0);
+
+      await syncStore(staking, incremental, Math.floor(latestBlock / 2), 3);
+      await syncStore(staking, incremental, latestBlock, 3);
+
+      expect(incremental).to.deep.equal(full);
+    });
+
+    it("should track deposits split by partial unbonds and unstakes", async () => {
+      const { staking, stakingUser, user } = ctx;
+
+      await staking.notifyRewardAmount(ether(oneWeekSec.toString()));
+      await stakingUser.stake(ether("100"), lockDay);
+      await stakingUser["unbond(uint256,uint256)"](0, ether("30"));
+      await increaseTime(oneDaySec);
+      await stakingUser["unstake(uint256,uint256)"](1, ether("10"));
+
+      const store = await index();
+      const { deposits } = store.users[user.address];
+
+      expect(deposits.map(d => [d.status, d.amount])).to.deep.equal([
+        ["staked", ether("70").toString()],
+        ["unbonding", ether("20").toString()],
+      ]);
+      expect(deposits[1].claimed).to.not.equal("0");
+      expect(store.totalDeposits).to.equal((await staking.totalDeposits()).toString());
+    });
+
+    it("should record emergency unstakes and claims", async () => {
+      const { staking, stakingUser, user } = ctx;
+
+      await staking.notifyRewardAmount(ether(oneWeekSec.toString()));
+      await stakingUser.stake(ether("100"), lockWeek);
+      await increaseTime(oneDaySec);
+
+      await staking.emergencyStop(true);
+      await stakingUser.emergencyUnstake();
+      await stakingUser.emergencyClaim();
+
+      const store = await index();
+      const { deposits, emergencyClaimed } = store.users[user.address];
+
+      expect(deposits[0].status).to.equal("emergencyUnstaked");
+      expect(deposits[0].amount).to.equal("0");
+      expect(store.totalDeposits).to.equal("0");
+      expect(emergencyClaimed).to.not.equal("0");
+      expect(store.emergencyStop?.claimable).to.be.true;
+    });
+
+    it("should record reward tokens, operators and recoveries", async () => {
+      const { admin, signers, staking, stakingUser, user } = ctx;
+      const operator = signers[2];
+      const partnerReward = ether(oneWeekSec.toString());
+
+      const tokenPartner = <MockERC20>await deploy("MockERC20", admin, ["partner", "ptr"]);
+      await tokenPartner.mint(staking.address, partnerReward);
+      await staking.addRewardToken(tokenPartner.address, oneDaySec);
+      await staking.setRewardTokenDuration(tokenPartner.address, oneWeekSec);
+
+      await staking.notifyRewardAmount(ether(oneWeekSec.toString()));
+      await staking.notifyRewardTokenAmount(tokenPartner.address, partnerReward);
+      await stakingUser.stake(ether("100"), lockDay);
+      await increaseTime(oneDaySec);
+      await stakingUser.claim(0);
+
+      await stakingUser.setOperator(operator.address, true);
+      await stakingUser.setOperator(admin.address, true);
+      await stakingUser.setOperator(operator.address, false);
+
+      const stray = <MockERC20>await deploy("MockERC20", admin, ["stray", "str"]);
+      await stray.mint(staking.address, ether("5"));
+      await staking.recoverERC20(stray.address, ether("5"), admin.address);
+
+      const store = await index();
+      const rewardToken = store.rewardTokens[tokenPartner.address];
+
+      expect(rewardToken.epochDuration).to.equal(oneWeekSec);
+      expect(rewardToken.epochDurationChanges.map(c => c.duration)).to.deep.equal([oneWeekSec]);
+      expect(rewardToken.funding.map(f => f.rewardEnd)).to.deep.equal([
+        (await staking.rewardSchedules(tokenPartner.address)).endTimestamp.toNumber(),
+      ]);
+
+      const { deposits, operators } = store.users[user.address];
+      expect(deposits[0].rewardTokensClaimed[tokenPartner.address]).to.equal(
+        (await tokenPartner.balanceOf(user.address)).toString(),
+      );
+      expect(operators).to.deep.equal([admin.address]);
+
+      expect(store.recovered.map(r => [r.token, r.amount, r.to])).to.deep.equal([
+        [stray.address, ether("5").toString(), admin.address],
+      ]);
+    });
+  });
+
+  describe("Reconciliation", () => {
+    let store: IndexerStore;
+    let latestBlock: number;
+
+    beforeEach(async () => {
+      const { staking } = ctx;
+      const { actions } = setupAdvancedScenario5(ctx);
+
+      await fundAndApprove(ctx);
+      await runScenario(ctx, actions);
+
+      const { chainId } = await ethers.provider.getNetwork();
+      latestBlock = await ethers.provider.getBlockNumber();
+      store = await syncStore(staking, createStore("hardhat", chainId, staking.address, 0), latestBlock);
+    });
+
+    it("should find no drift in a healthy contract", async () => {
+      const { staking } = ctx;
+
+      const report = await reconcile(staking, Object.keys(store.users), latestBlock, store);
+
+      expect(report.drift).to.deep.equal([]);
+      expect(report.sumDeposits).to.equal(report.totalDeposits);
+      expect(report.sumDepositsWithBoost).to.equal(report.totalDepositsWithBoost);
+      expect(BigNumber.from(report.unclaimedRewards)).to.be.gt(0);
+    });
+
+    it("should report deposit sums that do not match the totals", async () => {
+      const { staking, signers } = ctx;
+
+      // Leave out a staker with open deposits
+      const users = Object.keys(store.users).filter(u => u !== signers[4].address);
+      const report = await reconcile(staking, users, latestBlock);
+
+      expect(report.drift.map(d => d.check)).to.deep.equal(["totalDeposits", "totalDepositsWithBoost"]);
+    });
+
+    it("should report a distribution token balance that does not cover obligations", async () => {
+      const { staking, tokenDist } = ctx;
+
+      // Zero out the staking contract's balance in the token's _balances mapping (slot 0)
+      const slot = ethers.utils.keccak256(
+        ethers.utils.defaultAbiCoder.encode(["address", "uint256"], [staking.address, 0]),
+      );
+      await ethers.provider.send("hardhat_setStorageAt", [tokenDist.address, slot, ethers.constants.HashZero]);
+      await ethers.provider.send("evm_mine", []);
+
+      const blockNumber = await ethers.provider.getBlockNumber();
+      const report = await reconcile(staking, Object.keys(store.users), blockNumber, store);
+
+      expect(report.drift.length).to.equal(1);
+      expect(report.drift[0].check).to.equal("distributionBalance");
+      expect(report.drift[0].expected).to.equal(report.requiredRewards);
+      expect(report.drift[0].actual).to.equal("0");
+    });
+
+    it("should report indexed deposits that disagree with storage", async () => {
+      const { staking, signers } = ctx;
+      const user = signers[2].address;
+
+      store.users[user].deposits[1].amount = "1";
+
+      const report = await reconcile(staking, Object.keys(store.users), latestBlock, store);
+
+      expect(report.drift.length).to.equal(1);
+      expect(report.drift[0]).to.include({ check: "index", user, depositId: 1, actual: "1" });
+    });
+  });
+
+  describe("Funding Planner", () => {
+    const duration = BigNumber.from(oneWeekSec);
+    let state: FundingState;
+
+    beforeEach(() => {
+      state = {
+        timestamp: 0,
+        remainingRewards: BigNumber.from(0),
+        nextEpochDuration: duration,
+        nextEmissionCurve: ethers.constants.AddressZero,
+        rewardsReady: BigNumber.from(0),
+        totalDeposits: ether("100"),
+        rewardBalance: BigNumber.from(0),
+        scheduledEpochs: 0,
+      };
+    });
+
+    it("should top up the balance to cover the reward and the leftover of an active epoch", () => {
+      state.remainingRewards = ether("1");
+      state.rewardBalance = ether("1");
+
+      const plan = planFunding(state, ether("7"), ether("7"));
+      expect(plan.error).to.be.undefined;
+      expect(plan.leftover).to.equal(ether("1"));
+      expect(plan.totalReward).to.equal(ether("8"));
+      expect(plan.pendingRewards).to.equal(ether("8"));
+      expect(plan.balanceAfterTransfer).to.equal(ether("8"));
+      expect(plan.rewardRate).to.equal(ether("8").div(duration));
+      expect(plan.startsImmediately).to.equal(true);
+
+      // One wei short of the leftover
+      expect(planFunding(state, ether("7"), ether("7").sub(1)).error).to.equal("STATE_RewardsNotFunded");
+    });
+
+    it("should accept a surplus balance without a transfer", () => {
+      state.totalDeposits = BigNumber.from(0);
+      state.rewardsReady = ether("1");
+      state.rewardBalance = ether("10");
+
+      const plan = planFunding(state, ether("7"), BigNumber.from(0));
+      expect(plan.error).to.be.undefined;
+      expect(plan.pendingRewards).to.equal(ether("8"));
+      expect(plan.balanceAfterTransfer.sub(plan.pendingRewards)).to.equal(ether("2"));
+      expect(plan.startsImmediately).to.equal(false);
+    });
+
+    it("should report the remainder lost to rounding on flat schedules only", () => {
+      const reward = duration.mul(1000).add(5);
+      state.rewardBalance = reward;
+
+      const flat = planFunding(state, reward, BigNumber.from(0));
+      expect(flat.rewardRate).to.equal(1000);
+      expect(flat.remainder).to.equal(5);
+
+      state.nextEmissionCurve = ctx.signers[2].address;
+
+      const curved = planFunding(state, reward, BigNumber.from(0));
+      expect(curved.rewardRate).to.equal(1000);
+      expect(curved.remainder).to.equal(0);
+    });
+
+    it("should report a zero epoch duration instead of dividing by it", () => {
+      expect(planFunding(state, duration.sub(1), duration).error).to.equal("USR_ZeroRewardsPerEpoch");
+
+      state.nextEpochDuration = BigNumber.from(0);
+      state.rewardBalance = ether("1");
+
+      expect(planFunding(state, ether("1"), BigNumber.from(0)).error).to.equal("USR_ZeroRewardsPerEpoch");
+    });
+
+    it("should not count deposits of the staking token as funding", async () => {
+      const { admin, tokenStake, user } = ctx;
+
+      const params = [admin.address, tokenStake.address, tokenStake.address, oneWeekSec, [ether("0.1")], [oneDaySec]];
+      const compounding = <CellarStaking>await deploy("CellarStaking", admin, params);
+
+      await tokenStake.mint(compounding.address, duration);
+      await compounding.notifyRewardAmount(duration);
+      await tokenStake.connect(user).approve(compounding.address, ether("100"));
+      await compounding.connect(user).stake(ether("100"), 0);
+
+      const fundingState = await getFundingState(compounding, tokenStake);
+      expect(fundingState.rewardBalance).to.equal(duration);
+    });
+  });
+
+  describe("Safe Batches", () => {
+    const safe = "0x7340D1FeCD4B64A4ac34f826B21c945d44d7407F";
+
+    it("should encode a notify call", async () => {
+      const { staking } = ctx;
+
+      const spec = {
+        safe: safe.toLowerCase(),
+        name: "Fund",
+        operations: [{ method: "notifyRewardAmount" as const, staking: staking.address, reward: "1.5", decimals: 18 }],
+      };
+      const batch = await buildSafeBatch(spec, 1);
+
+      expect(batch.chainId).to.equal("1");
+      expect(batch.meta).to.deep.include({
+        name: "Fund",
+        description: `notifyRewardAmount(${staking.address})`,
+        createdFromSafeAddress: safe,
+      });
+      expect(batch.transactions).to.deep.equal([
+        {
+          to: staking.address,
+          value: "0",
+          data: staking.interface.encodeFunctionData("notifyRewardAmount", [ether("1.5")]),
+          contractMethod: null,
+          contractInputsValues: null,
+        },
+      ]);
+    });
+
+    it("should encode scheduled epochs for a cellar in the registry", async () => {
+      const { signers, staking } = ctx;
+      const curve = signers[2].address;
+
+      const registry: DeploymentRegistry = {
+        network: "hardhat",
+        chainId: 31337,
+        contracts: { STEADYETH: <RegistryEntry>{ name: "STEADYETH", address: staking.address } },
+      };
+      const startTimestamp = 1_900_000_000;
+      const epoch = { staking: "STEADYETH", startTimestamp, duration: oneWeekSec, amount: "1000" };
+      const spec = {
+        safe,
+        operations: [
+          { method: "scheduleEpoch" as const, ...epoch },
+          { method: "scheduleEpoch" as const, ...epoch, curve: curve.toLowerCase() },
+        ],
+      };
+      const batch = await buildSafeBatch(spec, 31337, registry);
+
+      expect(batch.chainId).to.equal("31337");
+      expect(batch.meta).to.deep.include({
+        name: "CellarStaking operations",
+        description: "scheduleEpoch(STEADYETH), scheduleEpoch(STEADYETH)",
+        createdFromSafeAddress: safe,
+      });
+
+      const encode = (epochCurve: string) =>
+        staking.interface.encodeFunctionData("scheduleEpoch", [startTimestamp, oneWeekSec, 1000, epochCurve]);
+
+      expect(batch.transactions.map(tx => tx.to)).to.deep.equal([staking.address, staking.address]);
+      expect(batch.transactions.map(tx => tx.data)).to.deep.equal([
+        encode(ethers.constants.AddressZero),
+        encode(curve),
+      ]);
+    });
+
+    it("should reject an epoch without a start", async () => {
+      const { staking } = ctx;
+
+      const spec = {
+        safe,
+        operations: [
+          { method: "scheduleEpoch" as const, staking: staking.address, startTimestamp: 0, duration: 1, amount: "1" },
+        ],
+      };
+      const error = await buildSafeBatch(spec, 1).then(
+        () => "",
+        (e: Error) => e.message,
+      );
+
+      expect(error).to.equal("operations[0] (scheduleEpoch): 'startTimestamp' must be positive");
+    });
+  });
+
+  describe("Deployment Manifest", () => {
+    const owner = "0x7340D1FeCD4B64A4ac34f826B21c945d44d7407F";
+    const token = "0x3F07A84eCdf494310D397d24c1C78B041D2fa622";
+
+    let manifest: DeploymentManifest;
+
+    beforeEach(() => {
+      manifest = {
+        owner,
+        distributionToken: token,
+        epochDuration: oneWeekSec,
+        lockTiers: [
+          { boost: "0.1", lockTime: oneDaySec },
+          { boost: "0.4", lockTime: oneWeekSec },
+        ],
+        cellars: [{ name: "STEADYETH", stakingToken: token }],
+      };
+    });
+
+    // Every problem is reported at once, one per line
+    const errorsOf = (m: DeploymentManifest): string[] => {
+      try {
+        validateManifest(m);
+      } catch (e) {
+        return (e as Error).message.split("\n  - ").slice(1);
+      }
+
+      return [];
+    };
+
+    it("should resolve defaults and per-cellar overrides", () => {
+      const guardian = ctx.signers[2].address;
+      Object.assign(manifest.cellars[0], { guardian, minimumDeposit: "1.5" });
+
+      const [deployment] = validateManifest(manifest);
+
+      expect(deployment).to.deep.include({ owner, funder: owner, guardian, epochDuration: oneWeekSec });
+      expect(deployment.minimumDeposit).to.equal(ether("1.5"));
+      expect(deployment.lockTiers.map(t => t.boost)).to.deep.equal([ether("0.1"), ether("0.4")]);
+      expect(deployment.lockTiers.map(t => t.lockTime)).to.deep.equal([oneDaySec, oneWeekSec]);
+    });
+
+    it("should reject malformed lock tiers", () => {
+      expect(errorsOf(Object.assign(manifest, { lockTiers: [] }))).to.deep.equal([
+        "cellars[0] (STEADYETH): 'lockTiers' must be a non-empty array",
+      ]);
+      expect(errorsOf(Object.assign(manifest, { lockTiers: ["0.1", null] }))).to.deep.equal([
+        `cellars[0] (STEADYETH): lockTiers[0] must be a { "boost", "lockTime" } pair`,
+        `cellars[0] (STEADYETH): lockTiers[1] must be a { "boost", "lockTime" } pair`,
+      ]);
+      expect(errorsOf(Object.assign(manifest, { lockTiers: [{ boost: "ten", lockTime: oneDaySec }] }))).to.deep.equal([
+        "cellars[0] (STEADYETH): 'lockTiers[0].boost' is not a valid decimal string: ten",
+      ]);
+
+      manifest.lockTiers = [
+        { boost: "0.4", lockTime: oneWeekSec },
+        { boost: "0.1", lockTime: oneDaySec },
+      ];
+      expect(errorsOf(manifest)).to.deep.equal([
+        "cellars[0] (STEADYETH): lockTiers must have non-decreasing lock times",
+        "cellars[0] (STEADYETH): lockTiers must have non-decreasing boosts",
+      ]);
+    });
+
+    it("should reject tiers missing their boost or lock time", () => {
+      Object.assign(manifest, { lockTiers: [{ boost: "0.1" }, { lockTime: oneWeekSec }] });
+
+      expect(errorsOf(manifest)).to.deep.equal([
+        "cellars[0] (STEADYETH): missing 'lockTiers[0].lockTime'",
+        "cellars[0] (STEADYETH): missing 'lockTiers[1].boost'",
+      ]);
+    });
+
+    it("should reject zero and invalid addresses", () => {
+      manifest.owner = ethers.constants.AddressZero;
+      manifest.cellars[0].stakingToken = "0x1234";
+
+      expect(errorsOf(manifest)).to.deep.equal([
+        "cellars[0] (STEADYETH): 'owner' must not be the zero address",
+        "cellars[0] (STEADYETH): 'funder' must not be the zero address",
+        "cellars[0] (STEADYETH): 'guardian' must not be the zero address",
+        "cellars[0] (STEADYETH): 'stakingToken' is not a valid address: 0x1234",
+      ]);
+    });
+
+    it("should reject a zero guardian and a missing distribution token", () => {
+      manifest.distributionToken = undefined;
+      manifest.cellars[0].guardian = ethers.constants.AddressZero;
+
+      expect(errorsOf(manifest)).to.deep.equal([
+        "cellars[0] (STEADYETH): 'guardian' must not be the zero address",
+        "cellars[0] (STEADYETH): missing 'distributionToken'",
+      ]);
+    });
+
+    it("should reject bad epoch durations", () => {
+      for (const epochDuration of [0, -oneDaySec, 1.5, "86400"]) {
+        expect(errorsOf(Object.assign(manifest, { epochDuration }))).to.deep.equal([
+          "cellars[0] (STEADYETH): 'epochDuration' must be a positive number of seconds",
+        ]);
+      }
+
+      manifest.epochDuration = undefined;
+      expect(errorsOf(manifest)).to.deep.equal(["cellars[0] (STEADYETH): missing 'epochDuration'"]);
+    });
+
+    it("should reject bad lock times", () => {
+      manifest.lockTiers = [{ boost: "0.1", lockTime: 0 }];
+
+      expect(errorsOf(manifest)).to.deep.equal([
+        "cellars[0] (STEADYETH): 'lockTiers[0].lockTime' must be a positive number of seconds",
+      ]);
+    });
+  });
+
+  describe("Position Decoder", () => {
+    beforeEach(async () => {
+      const { staking, stakingUser } = ctx;
+
+      await staking.notifyRewardAmount(ether(oneMonthSec.toString()));
+      await stakingUser.stake(ether("100"), lockDay);
+      await stakingUser.stake(ether("100"), lockWeek);
+      await stakingUser["unbond(uint256)"](1);
+      await increaseTime(oneDaySec);
+    });
+
+    it("should report what the contract would pay for each deposit", async () => {
+      const { staking, user } = ctx;
+
+      const positions = await getPositions(staking, user.address);
+
+      expect(positions.map(p => p.state)).to.deep.equal(["locked", "unbonding"]);
+      for (const p of positions) {
+        const earned = await staking.earned(user.address, p.depositId);
+
+        expect(p.claimable).to.equal(earned.toString());
+        expect(p.pending).to.equal(earned.sub(p.rewards).toString());
+      }
+    });
+
+    it("should report nothing claimable after an emergency stop without claims", async () => {
+      const { staking, user } = ctx;
+
+      await staking.emergencyStop(false);
+      const positions = await getPositions(staking, user.address);
+
+      expect(positions.map(p => p.claimable)).to.deep.equal(["0", "0"]);
+      expect(positions.map(p => p.pending)).to.deep.equal(["0", "0"]);
+      // Unbonding stored the deposit's rewards, which are forfeited too
+      expect(positions[1].rewards).to.not.equal("0");
+    });
+  });
 });
@@ -2,11 +2,12 @@ import hre from "hardhat";
 import { expect } from "chai";
 import { ethers } from "hardhat";
 import { Artifact } from "hardhat/types";
-import { Contract, Signer, BigNumberish, ContractTransaction } from "ethers";
+import { Contract, Signer, BigNumberish, ContractTransaction, Signature } from "ethers";
 import type { SignerWithAddress } from "@nomiclabs/hardhat-ethers/dist/src/signer-with-address";
 
 import type { CellarStaking } from "../src/types/CellarStaking";
 import type { MockERC20 } from "../src/types/MockERC20";
+import type { MockERC20Permit } from "../src/types/MockERC20Permit";
 import { Test } from "mocha";
 
 const { deployContract } = hre.waffle;
@@ -64,7 +65,18 @@ export interface ScenarioInfo {
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export async function deploy<T extends Contract>(contractName: string, deployer: Signer, params: any[]): Promise<T> {
   const artifact: Artifact = await hre.artifacts.readArtifact(contractName);
-  return <T>await deployContract(deployer, artifact, params);
+  if (Object.keys(artifact.linkReferences).length === 0) return <T>await deployContract(deployer, artifact, params);
+
+  // Deploy a fresh copy of each external library the contract links against
+  const libraries: Record<string, string> = {};
+  for (const references of Object.values(artifact.linkReferences)) {
+    for (const libraryName of Object.keys(references)) {
+      libraries[libraryName] = (await deploy(libraryName, deployer, [])).address;
+    }
+  }
+
+  const factory = await ethers.getContractFactoryFromArtifact(artifact, { signer: deployer, libraries });
+  return <T>await (await factory.deploy(...params)).deployed();
 }
 
 export function rand(min: number, max: number): number {
@@ -83,12 +95,40 @@ export async function setNextBlockTimestamp(epoch: number): Promise<void> {
 }
 
 export async function unbondUnstake(staking: CellarStaking, user: SignerWithAddress, depositId: number): Promise<void> {
-  await staking.unbond(depositId);
+  await staking["unbond(uint256)"](depositId);
   const stake = await staking.stakes(user.address, depositId);
   const unbondTimestamp = stake.unbondTimestamp;
 
   await setNextBlockTimestamp(unbondTimestamp + 1);
-  await staking.unstake(depositId);
+  await staking["unstake(uint256)"](depositId);
+}
+
+// PERMIT
+/**
+ * Sign an EIP-2612 permit for a solmate ERC20, using the owner's current nonce.
+ */
+export async function signPermit(
+  token: MockERC20Permit,
+  owner: SignerWithAddress,
+  spender: string,
+  value: BigNumberish,
+  deadline: BigNumberish,
+): Promise<Signature> {
+  const { chainId } = await ethers.provider.getNetwork();
+
+  const domain = { name: await token.name(), version: "1", chainId, verifyingContract: token.address };
+  const types = {
+    Permit: [
+      { name: "owner", type: "address" },
+      { name: "spender", type: "address" },
+      { name: "value", type: "uint256" },
+      { name: "nonce", type: "uint256" },
+      { name: "deadline", type: "uint256" },
+    ],
+  };
+  const message = { owner: owner.address, spender, value, nonce: await token.nonces(owner.address), deadline };
+
+  return ethers.utils.splitSignature(await owner._signTypedData(domain, types, message));
 }
 
 export const expectRoundedEqual = (num: BigNumberish, target: BigNumberish, pctWithin = 1): void => {
@@ -803,6 +843,7 @@ export const runScenario = async (
   ctx: TestContext,
   actions: Action[],
   logCheckpoints = false,
+  onCheckpoint?: (timestamp: number) => Promise<void>,
 ): Promise<{ [user: string]: BigNumberish }> => {
   const { staking, signers } = ctx;
   const claims: { [user: string]: BigNumberish } = {};
@@ -890,6 +931,7 @@ export const runScenario = async (
     await tx!.wait();
 
     // Actions for timestamp done
+    if (onCheckpoint) await onCheckpoint(timestamp);
 
     if (logCheckpoints) {
       // Report balances for all coins
@@ -907,7 +949,9 @@ export const runScenario = async (
   }
 
   // Now roll to end - all staking should be processed
-  await setNextBlockTimestamp(programEnd);
+  // (scenarios that extend the program may act after the original end)
+  const latestBlock = await ethers.provider.getBlock("latest");
+  await setNextBlockTimestamp(Math.max(programEnd, latestBlock.timestamp + 1));
 
   return claims;
 };